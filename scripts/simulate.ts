@@ -0,0 +1,174 @@
+/**
+ * Batch simulator CLI
+ *
+ *   npm run simulate -- --n 5 --k 2 --p 11 --games 10000 --policy greedy
+ *
+ * Plays headless games with the game rules and prints a JSON (default) or CSV
+ * report. Parameters not given use the game's defaults. The games are split
+ * between worker threads, one per CPU by default; the report does not depend
+ * on how many there are.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { availableParallelism } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { Worker, isMainThread, parentPort, workerData } from 'node:worker_threads';
+import { DEFAULT_PARAMS } from '../src/gameEngine';
+import { POLICIES, reportToCsv, simulateGames, summarizeGames } from '../src/simulation';
+import { DEFAULT_SCORING, SCORING_PRESET_IDS, isScoringPresetId } from '../src/scoring';
+import type { GameSummary, PolicyName, SimulationOptions } from '../src/simulation';
+
+// Messages exchanged with the worker threads
+interface WorkerTask {
+  options: SimulationOptions;
+  first: number;
+  count: number;
+}
+
+type WorkerMessage = { type: 'progress' } | { type: 'done'; summaries: GameSummary[] };
+
+const DEFAULT_MAX_MOVES = 500;
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --n <number>          Board size (default ${DEFAULT_PARAMS.n})
+  --m <number>          Initial tiles (default ${DEFAULT_PARAMS.m})
+  --k <number>          Moves per spawn (default ${DEFAULT_PARAMS.k})
+  --p <number>          Max prime (default ${DEFAULT_PARAMS.p})
+  --scoring <preset>    ${SCORING_PRESET_IDS.join(' | ')} (default ${DEFAULT_SCORING})
+  --games <number>      Games to play (default 1000)
+  --policy <name>       ${Object.keys(POLICIES).join(' | ')} (default greedy)
+  --seed <number>       Seed of the first game; game i uses seed + i (default 1)
+  --max-moves <number>  Stop games after this many moves; they are reported as truncated (default ${DEFAULT_MAX_MOVES})
+  --jobs <number>       Worker threads (default ${availableParallelism()}, the number of CPUs)
+  --format <format>     json | csv (default json)
+  --out <file>          Write the report to a file instead of stdout
+  --help                Show this help`;
+
+function fail(message: string): never {
+  console.error(`simulate: ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function readNumber(name: string, value: string | undefined, fallback: number, min: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number < min) fail(`--${name} must be an integer >= ${min}`);
+  return number;
+}
+
+function parseOptions(): { options: SimulationOptions; jobs: number; format: 'json' | 'csv'; out?: string } {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        n: { type: 'string' },
+        m: { type: 'string' },
+        k: { type: 'string' },
+        p: { type: 'string' },
+        scoring: { type: 'string' },
+        games: { type: 'string' },
+        policy: { type: 'string' },
+        seed: { type: 'string' },
+        'max-moves': { type: 'string' },
+        jobs: { type: 'string' },
+        format: { type: 'string' },
+        out: { type: 'string' },
+        help: { type: 'boolean' },
+      },
+    }));
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const policy = values.policy ?? 'greedy';
+  if (!(policy in POLICIES)) fail(`unknown policy "${policy}"`);
+
+  const scoring = values.scoring ?? DEFAULT_SCORING;
+  if (!isScoringPresetId(scoring)) fail(`unknown scoring preset "${scoring}"`);
+
+  const format = values.format ?? 'json';
+  if (format !== 'json' && format !== 'csv') fail(`unknown format "${format}"`);
+
+  const params = {
+    n: readNumber('n', values.n, DEFAULT_PARAMS.n, 2),
+    m: readNumber('m', values.m, DEFAULT_PARAMS.m, 0),
+    k: readNumber('k', values.k, DEFAULT_PARAMS.k, 1),
+    p: readNumber('p', values.p, DEFAULT_PARAMS.p, 2),
+    scoring,
+  };
+
+  return {
+    options: {
+      params,
+      policy: policy as PolicyName,
+      games: readNumber('games', values.games, 1000, 1),
+      seed: readNumber('seed', values.seed, 1, 0),
+      maxMoves: readNumber('max-moves', values['max-moves'], DEFAULT_MAX_MOVES, 1),
+    },
+    jobs: readNumber('jobs', values.jobs, availableParallelism(), 1),
+    format,
+    out: values.out,
+  };
+}
+
+// Play one share of the games and send back their summaries
+function runWorker({ options, first, count }: WorkerTask) {
+  const summaries = simulateGames(options, first, count, () => {
+    parentPort!.postMessage({ type: 'progress' } satisfies WorkerMessage);
+  });
+  parentPort!.postMessage({ type: 'done', summaries } satisfies WorkerMessage);
+}
+
+// Split the games into consecutive shares, one per worker
+function playGames(options: SimulationOptions, jobs: number, onProgress: () => void): Promise<GameSummary[]> {
+  const workers = Math.min(jobs, options.games);
+  const shares = Array.from({ length: workers }, (_, i) => {
+    const first = Math.floor((options.games * i) / workers);
+    return { options, first, count: Math.floor((options.games * (i + 1)) / workers) - first };
+  });
+
+  return Promise.all(shares.map(task => new Promise<GameSummary[]>((resolve, reject) => {
+    const worker = new Worker(fileURLToPath(import.meta.url), { workerData: task });
+    worker.on('message', (message: WorkerMessage) => {
+      if (message.type === 'progress') onProgress();
+      else resolve(message.summaries);
+    });
+    worker.on('error', reject);
+  }))).then(results => results.flat());
+}
+
+async function main() {
+  const { options, jobs, format, out } = parseOptions();
+  const started = Date.now();
+  const step = Math.max(1, Math.floor(options.games / 10));
+  let finished = 0;
+
+  const summaries = await playGames(options, jobs, () => {
+    finished++;
+    if (finished % step === 0 || finished === options.games) {
+      console.error(`${finished}/${options.games} games (${((Date.now() - started) / 1000).toFixed(1)}s)`);
+    }
+  });
+  const report = summarizeGames(options, summaries);
+
+  const output = format === 'csv' ? reportToCsv(report) : JSON.stringify(report, null, 2) + '\n';
+  if (out) {
+    writeFileSync(out, output);
+    console.error(`Report written to ${out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+if (isMainThread) {
+  void main();
+} else {
+  runWorker(workerData as WorkerTask);
+}
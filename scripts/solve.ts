@@ -0,0 +1,110 @@
+/**
+ * Puzzle solver CLI
+ *
+ *   npm run solve -- src/puzzleLevels.json --max-depth 10
+ *
+ * Validates a level pack and proves the fewest moves that clear each
+ * clear-the-board level, so star ratings can be set from the real minimum.
+ * Levels with other goals or with scripted spawns are skipped.
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { parseLevelPack } from '../src/puzzles';
+import { solveBoard } from '../src/solver';
+import type { PlayerMove } from '../src/gameEngine';
+
+const USAGE = `Usage: npm run solve -- [pack.json] [options]
+
+  pack.json             Level pack to check (default src/puzzleLevels.json)
+  --max-depth <number>  Longest solution searched for (default 10)
+  --max-states <number> Give up on a level after this many boards (default 1000000)
+  --help                Show this help`;
+
+function fail(message: string): never {
+  console.error(`solve: ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function readNumber(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number < 1) fail(`--${name} must be a positive integer`);
+  return number;
+}
+
+function formatMove(move: PlayerMove): string {
+  return move.tileId === undefined ? move.direction : `${move.direction}(#${move.tileId})`;
+}
+
+let parsed;
+try {
+  parsed = parseArgs({
+    allowPositionals: true,
+    options: {
+      'max-depth': { type: 'string' },
+      'max-states': { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error));
+}
+
+const { values, positionals } = parsed;
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+if (positionals.length > 1) fail('give at most one level pack');
+
+const file = positionals[0] ?? 'src/puzzleLevels.json';
+const maxDepth = readNumber('max-depth', values['max-depth'], 10);
+const maxStates = readNumber('max-states', values['max-states'], 1_000_000);
+
+let data: unknown;
+try {
+  data = JSON.parse(readFileSync(file, 'utf8'));
+} catch (error) {
+  fail(`cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+const { pack, errors } = parseLevelPack(data);
+if (!pack) {
+  console.error(`${file} is not a valid level pack:\n${errors.map(e => `  ${e}`).join('\n')}`);
+  process.exit(1);
+}
+
+let warnings = 0;
+for (const level of pack.levels) {
+  if (level.goal.type !== 'clear' || level.spawns.length > 0) {
+    console.log(`${level.id}: skipped (${level.goal.type !== 'clear' ? `${level.goal.type} goal` : 'scripted spawns'})`);
+    continue;
+  }
+
+  const result = solveBoard(level.tiles, level.params, { maxDepth, maxStates });
+  switch (result.status) {
+    case 'solved': {
+      const moves = result.moves.length;
+      console.log(`${level.id}: ${moves} moves (${result.moves.map(formatMove).join(' ')}), ${result.explored} boards`);
+      if (moves > level.moveLimit) {
+        console.log(`  warning: the move limit ${level.moveLimit} is below the minimum`);
+        warnings++;
+      } else if (level.stars[0] !== moves) {
+        console.log(`  warning: three stars at ${level.stars[0]} moves, but the minimum is ${moves}`);
+        warnings++;
+      }
+      break;
+    }
+    case 'unsolvable':
+      console.log(`${level.id}: ${result.exhaustive ? 'can never be cleared' : `no solution within ${result.depth} moves`}`);
+      warnings++;
+      break;
+    case 'limit':
+      console.log(`${level.id}: gave up after ${result.explored} boards; no solution within ${result.depth} moves`);
+      warnings++;
+      break;
+  }
+}
+
+process.exit(warnings > 0 ? 1 : 0);
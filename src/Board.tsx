@@ -0,0 +1,130 @@
+import type { CSSProperties, ReactNode, Ref } from 'react';
+import type { Tile, GameState, Direction } from './types';
+import type { BoardShape } from './boardShape';
+import { SPECIAL_TILES } from './specialTiles';
+
+interface BoardProps {
+  tiles: Tile[];
+  shape: BoardShape; // Columns, rows and wall cells
+  hex?: boolean; // Hex grid: odd rows are drawn half a cell to the right
+  chainCount?: GameState['chainCount'];
+  chainPosition?: GameState['chainPosition'];
+  scorePopups?: GameState['scorePopups'];
+  boardRef?: Ref<HTMLDivElement>;
+  className?: string;
+  hint?: { tileIds: number[]; direction: Direction } | null; // Suggested move, drawn as arrows over the tiles
+  children?: ReactNode; // Overlays drawn on top of the tiles
+}
+
+const HINT_ARROWS: Record<Direction, string> = {
+  up: '↑',
+  down: '↓',
+  left: '←',
+  right: '→',
+  upLeft: '↖',
+  upRight: '↗',
+  downLeft: '↙',
+  downRight: '↘',
+};
+
+// Grid placement of a cell; on the hex grid every cell spans two half-columns
+// so odd rows can start half a cell later
+function cellStyle(row: number, col: number, hex: boolean | undefined): CSSProperties {
+  if (!hex) return { gridColumn: col + 1, gridRow: row + 1 };
+  return { gridColumn: `${col * 2 + 1 + (row % 2)} / span 2`, gridRow: row + 1 };
+}
+
+// Cell placement of a tile; a perfect power elimination also passes its exponent
+// to the CSS, where powers above cubes spin and change colour by it
+function tileStyle(tile: Tile, hex: boolean | undefined): CSSProperties {
+  const style = cellStyle(tile.row, tile.col, hex);
+  return tile.powerType ? { ...style, '--power': tile.powerType } as CSSProperties : style;
+}
+
+function getTileClasses(tile: Tile): string {
+  const tileClasses = ['tile'];
+  if (tile.kind) tileClasses.push(`tile-${tile.kind}`);
+  if (tile.isNew) tileClasses.push('tile-new');
+  if (tile.isMoving) tileClasses.push('tile-moving');
+  if (tile.isDividing) tileClasses.push('tile-dividing');
+  if (tile.isChaining) tileClasses.push('tile-chaining');
+  if (tile.isDisappearing) tileClasses.push('tile-disappearing');
+  if (tile.isPowerEliminating) tileClasses.push('tile-power-eliminating');
+  if (tile.powerType === 2) tileClasses.push('tile-power-square');
+  if (tile.powerType === 3) tileClasses.push('tile-power-cube');
+  if (tile.powerType !== undefined && tile.powerType > 3) tileClasses.push('tile-power-high');
+  if (tile.mergeHighlight) tileClasses.push('tile-merge-highlight');
+  if (tile.isHighlighting) tileClasses.push('tile-highlighting');
+  if (String(tile.value).length > 4) tileClasses.push('tile-long'); // Large primes make values of up to 6 digits
+  return tileClasses.join(' ');
+}
+
+export default function Board({
+  tiles,
+  shape,
+  hex,
+  chainCount,
+  chainPosition,
+  scorePopups,
+  boardRef,
+  className,
+  hint,
+  children,
+}: BoardProps) {
+  return (
+    <div className={['board', hex && 'board-hex', className].filter(Boolean).join(' ')} ref={boardRef} style={{
+      gridTemplateColumns: `repeat(${hex ? shape.width * 2 + 1 : shape.width}, 1fr)`,
+      gridTemplateRows: `repeat(${shape.height}, 1fr)`,
+      // The longer side keeps the board's full size; the other shrinks to keep cells square
+      '--board-columns': hex ? shape.width + 0.5 : shape.width,
+      '--board-rows': shape.height,
+      '--board-cells': Math.max(shape.width, shape.height),
+    } as CSSProperties}>
+      {shape.blocked.map(cell => (
+        <div
+          key={`wall-${cell.row}-${cell.col}`}
+          className="board-wall"
+          style={cellStyle(cell.row, cell.col, hex)}
+        />
+      ))}
+      {tiles.map(tile => {
+        const isHinted = hint?.tileIds.includes(tile.id);
+        return (
+          <div
+            key={tile.id}
+            className={isHinted ? `${getTileClasses(tile)} tile-hinted` : getTileClasses(tile)}
+            style={tileStyle(tile, hex)}
+          >
+            {/* Show empty string for disappearing tiles (value 0) during animation */}
+            {tile.kind && !SPECIAL_TILES[tile.kind].showsValue ? SPECIAL_TILES[tile.kind].symbol : tile.value || ''}
+            {tile.kind && SPECIAL_TILES[tile.kind].showsValue && (
+              <span className="tile-badge">{SPECIAL_TILES[tile.kind].symbol}</span>
+            )}
+            {hint && isHinted && (
+              <span className={`hint-arrow hint-arrow-${hint.direction}`}>{HINT_ARROWS[hint.direction]}</span>
+            )}
+          </div>
+        );
+      })}
+      {chainCount !== undefined && chainCount > 0 && chainPosition && (
+        <div
+          className="chain-counter"
+          style={cellStyle(Math.floor(chainPosition.row), Math.floor(chainPosition.col), hex)}
+        >
+          {chainCount}連鎖!
+        </div>
+      )}
+      {scorePopups?.map(popup => (
+        <div
+          key={popup.id}
+          className="score-popup"
+          style={cellStyle(popup.row, popup.col, hex)}
+        >
+          +{popup.points}
+          {popup.multiplier > 1 && <span className="score-popup-multiplier">×{popup.multiplier}</span>}
+        </div>
+      ))}
+      {children}
+    </div>
+  );
+}
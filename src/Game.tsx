@@ -1,58 +1,175 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import './Game.css';
-import type { Tile, GameState, GameParams } from './types';
-import { generateRandomTileValue, getEmptyPositions, checkPerfectPowerElimination, checkEqualValueElimination, isDivisor } from './gameLogic';
-import { processChainReactions } from './chainReactionLogic';
-import { createCleanTile } from './utils/tileHelpers';
+import type { Tile, GameState, GameParams, Direction } from './types';
+import { applyMove, canHold, createInitialState, holdTile, spawnTile, DEFAULT_PARAMS, MAX_PREVIEW } from './gameEngine';
+import { MAX_PRIME } from './gameLogic';
+import type { ScoreEvent } from './gameEngine';
+import { parseSeed, randomSeed } from './random';
+import { createHistory, recordMove, undo, redo, canUndo, canRedo, getRemainingUndos } from './history';
+import type { GameHistory } from './history';
+import { loadGame, saveGame } from './storage';
+import type { SavedGame } from './storage';
+import { addHighScore, createHighScoreEntry, getRulesKey, loadHighScores, saveHighScores } from './highScores';
+import type { HighScoreTables } from './highScores';
+import HighScores from './HighScores';
+import { getGameRecord, parseRecord, serializeRecord } from './replay';
+import type { GameRecord } from './replay';
+import ReplayViewer from './ReplayViewer';
+import PuzzleMode from './PuzzleMode';
+import { canUseHint, findBestMove, getRemainingHints } from './hints';
+import type { HintCriterion, MoveOutcome } from './hints';
+import { getShareUrl, parseBoardHash } from './shareLink';
+import { DEFAULT_AI_OPTIONS } from './ai';
+import type { AiOptions, AiStrategy } from './ai';
+import { createAiPlayer } from './aiPlayer';
+import type { AiPlayer } from './aiPlayer';
+import { ANIMATION_CLEANUP_MS, playMoveEvents } from './moveAnimation';
+import { getScoringRules, SCORING_PRESET_IDS, SCORING_PRESETS, DEFAULT_SCORING } from './scoring';
+import type { ScoringPresetId } from './scoring';
+import { DEFAULT_SPAWN, getSpawnDistribution, SPAWN_PRESET_IDS, SPAWN_PRESETS } from './spawnDistribution';
+import type { SpawnPresetId } from './spawnDistribution';
+import { SPECIAL_TILES, TILE_KINDS } from './specialTiles';
+import { DEFAULT_MERGE_RULE, getMergeRule, MERGE_RULE_IDS, MERGE_RULES } from './mergeRules';
+import type { MergeRuleId } from './mergeRules';
+import {
+  createMode,
+  formatMode,
+  getMode,
+  getRemainingMoves,
+  getRemainingTime,
+  isBoardCleared,
+  isRankedResult,
+  MODE_LABELS,
+  MOVE_LIMITS,
+  TIME_ATTACK_SECONDS,
+} from './gameModes';
+import type { GameModeType } from './gameModes';
+import {
+  createDailyResult,
+  formatDailySummary,
+  getDailyKey,
+  getDailyParams,
+  getDailySeed,
+  getStreak,
+  loadDailyResults,
+  recordDailyResult,
+  saveDailyResults,
+} from './daily';
+import type { DailyResults } from './daily';
+import Board from './Board';
+import { useSwipe } from './useSwipe';
+import { findWallPreset, getBoardShape, getWallPreset, withBoardShape, WALL_PRESET_LABELS, MIN_BOARD_SIZE, MAX_BOARD_SIZE } from './boardShape';
+import type { WallPresetId } from './boardShape';
+import { ADJACENCIES, ADJACENCY_IDS, DEFAULT_ADJACENCY, getAdjacency } from './adjacency';
+import type { AdjacencyId } from './adjacency';
+import ScoreBreakdown from './ScoreBreakdown';
+import NextTiles from './NextTiles';
 import packageJson from '../package.json';
 
-type Direction = 'up' | 'down' | 'left' | 'right';
-
 const VERSION = packageJson.version;
 
-const DEFAULT_PARAMS: GameParams = {
-  n: 4,  // 4x4 board
-  m: 2,  // start with 2 tiles
-  k: 3,  // new tile every 3 moves
-  p: 7,  // primes up to 7 (2, 3, 5, 7)
+const DIRECTION_LABELS: Record<Direction, string> = {
+  up: '上',
+  down: '下',
+  left: '左',
+  right: '右',
+  upLeft: '左上',
+  upRight: '右上',
+  downLeft: '左下',
+  downRight: '右下',
 };
 
+// The time-attack clock advances this often
+const CLOCK_TICK_MS = 100;
+
+// Remaining time as m:ss.t
+function formatClock(ms: number): string {
+  const tenths = Math.ceil(ms / 100);
+  const minutes = Math.floor(tenths / 600);
+  const seconds = Math.floor((tenths % 600) / 10);
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${tenths % 10}`;
+}
+
+// A board link (#v=1&...) opens the shared position and a seed given in the
+// URL (?seed=123) starts a fresh, reproducible game; otherwise the saved game
+// is restored if there is one
+function loadStartupGame(): SavedGame {
+  const shared = parseBoardHash(window.location.hash);
+  if (shared) return shared;
+
+  const urlSeed = parseSeed(new URLSearchParams(window.location.search).get('seed'));
+  const saved = urlSeed === null ? loadGame() : null;
+  return saved ?? {
+    params: DEFAULT_PARAMS,
+    state: createInitialState(DEFAULT_PARAMS, urlSeed ?? randomSeed()),
+  };
+}
+
+// Drop a board link from the address bar once it has been opened, so that
+// reloading continues the game instead of starting the position over
+function clearBoardHash() {
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+}
+
+// Copy text to the clipboard, or let the player copy it by hand if access is denied
+async function copyText(text: string, label: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    window.prompt(label, text);
+  }
+}
+
 export default function Game() {
-  const [params, setParams] = useState<GameParams>(DEFAULT_PARAMS);
-  const [tempParams, setTempParams] = useState<GameParams>(DEFAULT_PARAMS);
-  const [nextTileId, setNextTileId] = useState(DEFAULT_PARAMS.m); // Start with m tiles already created
+  const [startup] = useState(loadStartupGame);
+  const [params, setParams] = useState<GameParams>(startup.params);
+  const [tempParams, setTempParams] = useState<GameParams>(startup.params);
+  const [tempSeed, setTempSeed] = useState(''); // Empty means a random seed
+  const shape = getBoardShape(params);
+  const adjacency = getAdjacency(params.adjacency);
   const boardRef = useRef<HTMLDivElement>(null);
   const animationTimeoutRef = useRef<number | null>(null);
   const tilesRef = useRef<Tile[]>([]);
   const isAnimatingRef = useRef(false); // Use ref to track animation state without causing re-renders
 
-  // Initialize game state based on params
-  const [gameState, setGameState] = useState<GameState>(() => {
-    const tiles: Tile[] = [];
-    const emptyPositions = getEmptyPositions([], DEFAULT_PARAMS.n);
-    
-    for (let i = 0; i < DEFAULT_PARAMS.m && emptyPositions.length > 0; i++) {
-      const randomIndex = Math.floor(Math.random() * emptyPositions.length);
-      const pos = emptyPositions.splice(randomIndex, 1)[0];
-      
-      tiles.push({
-        id: i,
-        value: generateRandomTileValue(DEFAULT_PARAMS.p),
-        row: pos.row,
-        col: pos.col,
-      });
-    }
-    
-    return { tiles, score: 0, moveCount: 0 };
-  });
+  const [gameState, setGameState] = useState<GameState>(startup.state);
+  const [history, setHistory] = useState<GameHistory>(createHistory);
+  const [highScores, setHighScores] = useState<HighScoreTables>(loadHighScores);
+  // Placement of the game that just ended in its high-score table
+  const [lastResult, setLastResult] = useState<{ key: string; rank: number | null; isNewBest: boolean } | null>(null);
+  const [replayRecord, setReplayRecord] = useState<GameRecord | null>(null); // Record shown in the replay viewer
+  const [isPuzzleOpen, setIsPuzzleOpen] = useState(false);
+  const [dailyResults, setDailyResults] = useState<DailyResults>(loadDailyResults);
+  // The hint is tied to the state it was computed for and disappears as soon as the board changes
+  const [hint, setHint] = useState<{ state: GameState; move: MoveOutcome } | null>(null);
+  // Score events of the last move, shown while the board is at that move (hidden after undo)
+  const [breakdown, setBreakdown] = useState<{ moveCount: number; scores: ScoreEvent[] } | null>(null);
+  const [hintCriterion, setHintCriterion] = useState<HintCriterion>('score');
+  const [isAiPlaying, setIsAiPlaying] = useState(false);
+  const [aiOptions, setAiOptions] = useState<AiOptions>(DEFAULT_AI_OPTIONS);
+  const aiPlayerRef = useRef<AiPlayer | null>(null);
+  // The time-attack clock runs outside gameState so that ticking never disturbs
+  // moves, hints or the AI; it is written into the state whenever one is saved
+  const [elapsedMs, setElapsedMs] = useState(startup.state.elapsedMs);
+  const elapsedRef = useRef(startup.state.elapsedMs);
+  const isChainingRef = useRef(false);
+  const timeUpPendingRef = useRef(false); // Time ran out during a move animation
+  const onTimeUpRef = useRef<() => void>(() => {});
 
   // Update tilesRef whenever gameState changes
   useEffect(() => {
     tilesRef.current = gameState.tiles;
   }, [gameState.tiles]);
 
-  // Initialize game
-  const initGame = useCallback(() => {
+  // The clock pauses while the chain counter is up
+  useEffect(() => {
+    isChainingRef.current = (gameState.chainCount ?? 0) > 0;
+  }, [gameState.chainCount]);
+
+  const withClock = useCallback((state: GameState): GameState => ({ ...state, elapsedMs: elapsedRef.current }), []);
+
+  // Start playing from the given state (a new game or a shared position)
+  const startGame = useCallback((nextParams: GameParams, state: GameState) => {
     // Clear any ongoing animations
     isAnimatingRef.current = false;
     if (animationTimeoutRef.current) {
@@ -60,532 +177,115 @@ export default function Game() {
       animationTimeoutRef.current = null;
     }
     
-    const tiles: Tile[] = [];
-    const emptyPositions = getEmptyPositions([], params.n);
-    
-    for (let i = 0; i < params.m && emptyPositions.length > 0; i++) {
-      const randomIndex = Math.floor(Math.random() * emptyPositions.length);
-      const pos = emptyPositions.splice(randomIndex, 1)[0];
-      
-      tiles.push({
-        id: i,
-        value: generateRandomTileValue(params.p),
-        row: pos.row,
-        col: pos.col,
-      });
-    }
-    
-    setGameState({ tiles, score: 0, moveCount: 0 });
-    setNextTileId(params.m);
-  }, [params.n, params.m, params.p]);
+    setParams(nextParams);
+    setGameState(state);
+    setHistory(createHistory());
+    setLastResult(null);
+    setBreakdown(null);
+    elapsedRef.current = state.elapsedMs;
+    timeUpPendingRef.current = false;
+    setElapsedMs(state.elapsedMs);
+    saveGame(nextParams, state);
+  }, []);
 
-  // Add a new tile
-  const addNewTile = useCallback((tiles: Tile[], currentTileId: number) => {
-    const emptyPositions = getEmptyPositions(tiles, params.n);
-    
-    if (emptyPositions.length === 0) return { tiles, nextId: currentTileId };
-    
-    const randomIndex = Math.floor(Math.random() * emptyPositions.length);
-    const pos = emptyPositions[randomIndex];
-    
-    const newTile: Tile = {
-      id: currentTileId,
-      value: generateRandomTileValue(params.p),
-      row: pos.row,
-      col: pos.col,
-      isNew: true, // Mark as new for appear animation
+  // Initialize game
+  const initGame = useCallback((nextParams: GameParams, seed: number) => {
+    startGame(nextParams, createInitialState(nextParams, seed));
+  }, [startGame]);
+
+  // Board links opened at startup are removed from the address bar;
+  // links pasted into this tab later are opened as they arrive
+  useEffect(() => {
+    if (parseBoardHash(window.location.hash)) clearBoardHash();
+
+    const handleHashChange = () => {
+      const shared = parseBoardHash(window.location.hash);
+      if (!shared) return;
+      startGame(shared.params, shared.state);
+      setTempParams(shared.params);
+      clearBoardHash();
     };
-    
-    return { tiles: [...tiles, newTile], nextId: currentTileId + 1 };
-  }, [params.n, params.p]);
 
-  // Move tiles in a direction
-  const moveTiles = useCallback(async (direction: Direction, tileId?: number) => {
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [startGame]);
+
+  // Record a finished game in the high-score table for its parameters, and
+  // a daily challenge under its day as well
+  // Games started from a shared position or played by the AI are never recorded
+  // A clear game that got stuck is not a result either
+  // Returns the state marked as recorded, so undoing and finishing again adds nothing
+  const recordResult = useCallback((state: GameState): GameState => {
+    if (state.recorded || state.fromSharedLink || state.autoPlayed || !isRankedResult(state, params)) return state;
+    const result = addHighScore(highScores, params, createHighScoreEntry(state));
+    setHighScores(result.tables);
+    saveHighScores(result.tables);
+    setLastResult({ key: getRulesKey(params), rank: result.rank, isNewBest: result.isNewBest });
+
+    if (state.daily) {
+      const results = recordDailyResult(dailyResults, state.daily, createDailyResult(state));
+      setDailyResults(results);
+      saveDailyResults(results);
+    }
+    return { ...state, recorded: true };
+  }, [highScores, params, dailyResults]);
+
+  // Time attack: the game ends when the clock runs out
+  const finishOnTime = useCallback((state: GameState) => {
+    timeUpPendingRef.current = false;
+    if (state.isGameOver) return; // Already ended (and recorded) on the board
+    const finished = recordResult({ ...withClock(state), isGameOver: true });
+    setGameState(finished);
+    saveGame(params, finished);
+  }, [params, recordResult, withClock]);
+
+  // Move tiles in a direction, then replay the engine events as animation
+  const moveTiles = useCallback(async (direction: Direction, tileId?: number, byAi = false) => {
     // Prevent moves during animations (Issue #17)
     if (isAnimatingRef.current) return;
     
     isAnimatingRef.current = true; // Set animation flag at start
     
     try {
-      const { tiles: currentTiles, score, moveCount } = gameState;
-      // Filter out any stale tiles (disappearing tiles with value 0, or tiles with animation flags that should be gone)
-      const newTiles = [...currentTiles.filter(t => t.value !== 0 && !t.isDisappearing)];
-      let moved = false;
-      let currentNextTileId = nextTileId; // Local counter for new tile IDs
-      
       // Clear any pending animation timeouts
       if (animationTimeoutRef.current) {
         clearTimeout(animationTimeoutRef.current);
         animationTimeoutRef.current = null;
       }
-    
-    // If tileId is specified, only move that tile
-    const tilesToMove = tileId !== undefined 
-      ? newTiles.filter(t => t.id === tileId)
-      : newTiles;
-    
-    // Sort tiles based on direction
-    const sorted = [...tilesToMove].sort((a, b) => {
-      switch (direction) {
-        case 'up': return a.row - b.row;
-        case 'down': return b.row - a.row;
-        case 'left': return a.col - b.col;
-        case 'right': return b.col - a.col;
-      }
-    });
-    
-    const movedTiles: Tile[] = [];
-    const occupiedPositions = new Map<string, Tile>();
-    const mergedTileIds = new Set<number>(); // Track original IDs of tiles that merged
-    let scoreGainedFromMoves = 0; // Track score from initial merges
-    
-    // Mark non-moving tiles as occupied
-    if (tileId !== undefined) {
-      newTiles.filter(t => t.id !== tileId).forEach(t => {
-        occupiedPositions.set(`${t.row},${t.col}`, t);
-      });
-    }
-    
-    // Calculate movement direction
-    const dr = direction === 'up' ? -1 : direction === 'down' ? 1 : 0;
-    const dc = direction === 'left' ? -1 : direction === 'right' ? 1 : 0;
-    
-    // Store intermediate positions for each tile
-    const tileMovementPaths = new Map<number, Array<{row: number, col: number}>>();
-    
-    for (const tile of sorted) {
-      // Skip tiles that have already been merged
-      if (mergedTileIds.has(tile.id)) {
-        continue;
-      }
-      
-      let newRow = tile.row;
-      let newCol = tile.col;
-      const path: Array<{row: number, col: number}> = [{row: newRow, col: newCol}];
-      
-      // Move as far as possible
-      while (true) {
-        const nextRow = newRow + dr;
-        const nextCol = newCol + dc;
-        
-        // Check boundaries
-        if (nextRow < 0 || nextRow >= params.n || nextCol < 0 || nextCol >= params.n) {
-          break;
-        }
-        
-        const posKey = `${nextRow},${nextCol}`;
-        const occupant = occupiedPositions.get(posKey);
-        
-        if (occupant) {
-          // First check for equal value elimination (includes perfect powers)
-          if (checkEqualValueElimination(tile.value, occupant.value)) {
-            // Both tiles disappear with special animation
-            // Award score for both tiles (equal values)
-            const mergedScore = tile.value + occupant.value;
-            scoreGainedFromMoves += mergedScore;
-            
-            occupiedPositions.delete(posKey);
-            path.push({row: nextRow, col: nextCol});
-            
-            // Track that these tiles merged (use original IDs)
-            mergedTileIds.add(tile.id);
-            mergedTileIds.add(occupant.id);
-            
-            // Check if they form a perfect power for animation purposes
-            const powerType = checkPerfectPowerElimination(tile.value, occupant.value);
-            
-            // Add both disappearing tiles with appropriate animation
-            movedTiles.push(createCleanTile(tile, {
-              id: currentNextTileId++,
-              value: 0,
-              scoreValue: tile.value,
-              row: nextRow,
-              col: nextCol,
-              isDisappearing: true,
-              isPowerEliminating: powerType !== null,
-              powerType: powerType || undefined,
-              mergeHighlight: true, // Highlight merge (Issue #22)
-            }));
-            movedTiles.push(createCleanTile(occupant, {
-              id: currentNextTileId++,
-              value: 0,
-              scoreValue: occupant.value,
-              row: nextRow,
-              col: nextCol,
-              isDisappearing: true,
-              isPowerEliminating: powerType !== null,
-              powerType: powerType || undefined,
-              mergeHighlight: true, // Highlight merge (Issue #22)
-            }));
-            
-            moved = true;
-            break;
-          }
-          
-          // Check if they can merge normally
-          // Skip if values are equal (handled by perfect power elimination above)
-          if (tile.value !== occupant.value && isDivisor(tile.value, occupant.value)) {
-            // Merge: tile divides into occupant
-            const newValue = occupant.value / tile.value;
-            // Score calculation: Use the larger number instead of the product
-            // This prevents score inflation and makes gameplay more balanced
-            const mergedScore = Math.max(tile.value, occupant.value);
-            
-            // Award score for this merge
-            scoreGainedFromMoves += mergedScore;
-            
-            occupiedPositions.delete(posKey);
-            path.push({row: nextRow, col: nextCol});
-            
-            // Track that these tiles merged (use original IDs)
-            mergedTileIds.add(tile.id);
-            mergedTileIds.add(occupant.id);
-            
-            const mergedTileId = currentNextTileId++;
-            
-            if (newValue === 1) {
-              // Tile disappears, add score - mark with isDisappearing
-              movedTiles.push(createCleanTile(tile, {
-                id: mergedTileId, // Assign unique ID to merged tile
-                value: 0, // Mark for removal
-                scoreValue: mergedScore,
-                row: nextRow,
-                col: nextCol,
-                isDividing: true, // Mark for division effect
-                isDisappearing: true, // Mark for disappear animation
-                mergeHighlight: true, // Highlight merge (Issue #22)
-              }));
-            } else {
-              const mergedTile = createCleanTile(occupant, {
-                id: mergedTileId, // Assign unique ID to merged tile
-                value: newValue,
-                scoreValue: mergedScore,
-                row: nextRow,
-                col: nextCol,
-                isDividing: true, // Mark for division effect
-                mergeHighlight: true, // Highlight merge (Issue #22)
-              });
-              movedTiles.push(mergedTile);
-              occupiedPositions.set(posKey, mergedTile);
-            }
-            
-            // Store path for the new merged tile ID
-            if (path.length > 1) {
-              tileMovementPaths.set(mergedTileId, path);
-            }
-            
-            moved = true;
-            break;
-          } else if (tile.value !== occupant.value && isDivisor(occupant.value, tile.value)) {
-            // Merge: occupant divides into tile
-            const newValue = tile.value / occupant.value;
-            // Score calculation: Use the larger number instead of the product
-            // This prevents score inflation and makes gameplay more balanced
-            const mergedScore = Math.max(tile.value, occupant.value);
-            
-            // Award score for this merge
-            scoreGainedFromMoves += mergedScore;
-            
-            occupiedPositions.delete(posKey);
-            path.push({row: nextRow, col: nextCol});
-            
-            // Track that these tiles merged (use original IDs)
-            mergedTileIds.add(tile.id);
-            mergedTileIds.add(occupant.id);
-            
-            const mergedTileId = currentNextTileId++;
-            
-            if (newValue === 1) {
-              // Mark for removal and disappear animation
-              movedTiles.push(createCleanTile(tile, {
-                id: mergedTileId, // Assign unique ID to merged tile
-                value: 0,
-                scoreValue: mergedScore,
-                row: nextRow,
-                col: nextCol,
-                isDividing: true, // Mark for division effect
-                isDisappearing: true, // Mark for disappear animation
-                mergeHighlight: true, // Highlight merge (Issue #22)
-              }));
-            } else {
-              const mergedTile = createCleanTile(tile, {
-                id: mergedTileId, // Assign unique ID to merged tile
-                value: newValue,
-                scoreValue: mergedScore,
-                row: nextRow,
-                col: nextCol,
-                isDividing: true, // Mark for division effect
-                mergeHighlight: true, // Highlight merge (Issue #22)
-              });
-              movedTiles.push(mergedTile);
-              occupiedPositions.set(posKey, mergedTile);
-            }
-            
-            // Store path for the new merged tile ID  
-            if (path.length > 1) {
-              tileMovementPaths.set(mergedTileId, path);
-            }
-            
-            moved = true;
-            break;
-          } else {
-            // Can't merge, stop here
-            break;
-          }
-        }
-        
-        // Move to next position
-        newRow = nextRow;
-        newCol = nextCol;
-        path.push({row: newRow, col: newCol});
-      }
-      
-      // Place tile at final position if it hasn't merged
-      if (newRow !== tile.row || newCol !== tile.col) {
-        moved = true;
-      }
-      
-      // Only add tile to movedTiles if it hasn't been merged
-      if (!mergedTileIds.has(tile.id)) {
-        const posKey = `${newRow},${newCol}`;
-        if (!occupiedPositions.has(posKey)) {
-          const finalTile = createCleanTile(tile, {
-            row: newRow,
-            col: newCol,
-            isMoving: true,
-          });
-          movedTiles.push(finalTile);
-          occupiedPositions.set(posKey, finalTile);
-        }
-      }
-      
-      // Store the path for this tile
-      if (path.length > 1) {
-        tileMovementPaths.set(tile.id, path);
-      }
-    }
-    
-    // Include non-moving tiles (both for single tile and all tiles movement)
-    const movedTileIds = new Set(movedTiles.map(t => t.id));
-    if (tileId !== undefined) {
-      // Single tile movement: exclude only the moved tile
-      movedTiles.push(...newTiles.filter(t => t.id !== tileId && !movedTileIds.has(t.id) && !mergedTileIds.has(t.id)));
-    } else {
-      // All tiles movement: include all tiles that didn't move or merge
-      movedTiles.push(...newTiles.filter(t => !movedTileIds.has(t.id) && !mergedTileIds.has(t.id)));
-    }
-    
-    if (!moved) {
-      isAnimatingRef.current = false; // Clear animation flag if no move
-      return;
-    }
-    
-    // Animate tiles through intermediate positions
-    const pathLengths = Array.from(tileMovementPaths.values()).map(p => p.length);
-    const maxPathLength = pathLengths.length > 0 ? Math.max(...pathLengths) : 0;
-    
-    for (let step = 1; step < maxPathLength; step++) {
-      const intermediateState = movedTiles.map(tile => {
-        const path = tileMovementPaths.get(tile.id);
-        if (path && step < path.length) {
-          return createCleanTile(tile, {
-            row: path[step].row,
-            col: path[step].col,
-            isMoving: true,
-          });
-        }
-        return tile;
-      });
-      
-      // Include non-moving tiles (both for single tile and all tiles movement)
-      const movedTileIds = new Set(movedTiles.map(t => t.id));
-      if (tileId !== undefined) {
-        // Single tile movement: exclude only the moved tile
-        intermediateState.push(...newTiles.filter(t => t.id !== tileId && !movedTileIds.has(t.id) && !mergedTileIds.has(t.id)));
-      } else {
-        // All tiles movement: include all non-moved tiles
-        intermediateState.push(...newTiles.filter(t => !movedTileIds.has(t.id) && !mergedTileIds.has(t.id)));
+
+      if (timeUpPendingRef.current) {
+        isAnimatingRef.current = false;
+        return;
       }
-      
-      setGameState(prev => ({
-        ...prev,
-        tiles: intermediateState,
-      }));
-      
-      // Wait for step animation (100ms per step for smoother, more visible movement)
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-    
-    // Use the score accumulated from initial moves
-    // Score is now awarded for every merge, not just when tiles disappear
-    let scoreGained = scoreGainedFromMoves;
-    
-    // Still track disappearing tiles for animation purposes
-    const disappearingTiles = movedTiles.filter(t => t.value === 0);
-    
-    const newMoveCount = moveCount + 1;
-    
-    // Issue #35: First show highlighting phase for tiles that will interact
-    // Identify tiles that have interaction flags (mergeHighlight, isPowerEliminating, etc.)
-    const tilesWithInteraction = movedTiles.filter(t => 
-      t.mergeHighlight || t.isPowerEliminating || t.isDividing || t.isDisappearing
-    );
-    
-    if (tilesWithInteraction.length > 0) {
-      // Show highlighting phase (without other effects yet)
-      const highlightedTiles = movedTiles.map(t => {
-        if (t.mergeHighlight || t.isPowerEliminating || t.isDividing || t.isDisappearing) {
-          return {
-            ...t,
-            isHighlighting: true,
-            // Temporarily remove effect flags during highlighting
-            isDividing: false,
-            isDisappearing: false,
-            isPowerEliminating: false,
-            mergeHighlight: false,
-          };
-        }
-        return t;
-      });
-      
-      setGameState({
-        tiles: highlightedTiles,
-        score: score, // Don't add score yet
-        moveCount: newMoveCount,
-      });
-      
-      // Wait for highlighting animation to complete (400ms)
-      await new Promise(resolve => setTimeout(resolve, 400));
-    }
-    
-    // Show the final move result with actual effects
-    setGameState({
-      tiles: movedTiles,
-      score: score + scoreGained,
-      moveCount: newMoveCount,
-    });
-    
-    // Wait for final position CSS transition to complete (150ms)
-    await new Promise(resolve => setTimeout(resolve, 150));
-    
-    // Process chain reactions after initial merges
-    // Filter out tiles that already merged during movement (marked with animation flags)
-    // Chain reactions should only process new adjacent possibilities created by movement
-    const activeTiles = movedTiles.filter(t => 
-      t.value !== 0 && 
-      !t.mergeHighlight && 
-      !t.isDividing && 
-      !t.isPowerEliminating
-    );
-    // Keep track of filtered tiles so we don't lose them
-    const filteredMergedTiles = movedTiles.filter(t => 
-      t.value !== 0 && 
-      (t.mergeHighlight || t.isDividing || t.isPowerEliminating)
-    );
-    // Initial chain multiplier is 1 (will increase with each chain iteration)
-    const chainResult = processChainReactions(activeTiles, 1, currentNextTileId);
-    
-    // Update currentNextTileId from chain reactions
-    currentNextTileId = chainResult.nextTileId;
-    
-    scoreGained += chainResult.scoreGained;
-    
-    // Animate chain reaction steps if any chains occurred
-    if (chainResult.chainCount > 0) {
-      for (let i = 0; i < chainResult.chainSteps.length; i++) {
-        const stepTiles = chainResult.chainSteps[i];
-        
-        // Issue #35: First show highlighting phase for tiles that will interact
-        const tilesWithInteraction = stepTiles.filter(t => 
-          t.mergeHighlight || t.isDisappearing || t.isPowerEliminating || t.isDividing
-        );
-        
-        if (tilesWithInteraction.length > 0) {
-          // Show highlighting phase
-          const highlightedTiles = stepTiles.map(t => {
-            if (t.mergeHighlight || t.isDisappearing || t.isPowerEliminating || t.isDividing) {
-              return {
-                ...t,
-                isHighlighting: true,
-                // Temporarily remove effect flags during highlighting
-                isDisappearing: false,
-                isPowerEliminating: false,
-                isDividing: false,
-                mergeHighlight: false,
-              };
-            }
-            return t;
-          });
-          
-          setGameState(prevState => ({
-            ...prevState,
-            tiles: highlightedTiles,
-            // Don't update score during animation, only at the end
-            moveCount: newMoveCount,
-          }));
-          
-          // Wait for highlighting animation to complete (400ms)
-          await new Promise(resolve => setTimeout(resolve, 400));
-        }
-        
-        // Show the chain step with effects
-        setGameState(prevState => ({
-          ...prevState,
-          tiles: stepTiles,
-          // Don't update score during animation, only at the end
-          moveCount: newMoveCount,
-        }));
-        
-        // Wait for chain animation to complete (800ms)
-        await new Promise(resolve => setTimeout(resolve, 800));
+
+      const current = withClock(gameState);
+      const move = applyMove(current, direction, tileId, params);
+      const result = byAi ? { ...move, state: { ...move.state, autoPlayed: true } } : move;
+
+      if (!result.moved) {
+        isAnimatingRef.current = false; // Clear animation flag if no move
+        return;
       }
-    }
-    
-    // After chain reactions complete, combine results with filtered merged tiles
-    // This ensures we don't lose tiles that just merged and have animation flags
-    let finalTiles = [...chainResult.tiles, ...filteredMergedTiles];
-    
-    // Add new tile if needed
-    const hasDisappearing = disappearingTiles.length > 0 || chainResult.scoreGained > 0;
-    if (newMoveCount % params.k === 0 || hasDisappearing) {
-      const newTileResult = addNewTile(finalTiles, currentNextTileId);
-      finalTiles = newTileResult.tiles;
-      currentNextTileId = newTileResult.nextId;
-    }
-    
-    // Update nextTileId state after all operations
-    setNextTileId(currentNextTileId);
-    
-    // Set final state with only active tiles (no disappearing tiles)
-    setGameState({
-      tiles: finalTiles,
-      score: score + scoreGained,
-      moveCount: newMoveCount,
-    });
-    
-    // Clear animation flags after a short delay
-    animationTimeoutRef.current = setTimeout(() => {
-      setGameState(prevState => {
-        // Clear animation flags and ensure no zero-value tiles remain
-        const clearedTiles = prevState.tiles
-          .filter(t => t.value !== 0)
-          .map(t => ({
-            id: t.id,
-            value: t.value,
-            row: t.row,
-            col: t.col,
-            // Remove all animation-related properties
-          }));
-        
-        return {
-          ...prevState,
-          tiles: clearedTiles,
-        };
+
+      setHistory(prev => recordMove(prev, current));
+      const finalState = result.state.isGameOver ? recordResult(result.state) : result.state;
+      setBreakdown({
+        moveCount: finalState.moveCount,
+        scores: result.events.filter((e): e is ScoreEvent => e.type === 'score'),
       });
-      
-      // Clear animation flag after all animations complete
-      isAnimatingRef.current = false;
-    }, 1300); // Wait for all animations to complete (longest is 1.2s)
+      saveGame(params, finalState);
+
+      // The results screen waits until the animations have finished
+      const shown = await playMoveEvents(gameState.tiles, result, setGameState);
+      setGameState({ ...shown, isGameOver: false });
+
+      // Clear animation flags after all animations complete
+      animationTimeoutRef.current = setTimeout(() => {
+        setGameState(finalState);
+        isAnimatingRef.current = false;
+        // The clock ran out while this move was playing
+        if (timeUpPendingRef.current) finishOnTime(finalState);
+      }, ANIMATION_CLEANUP_MS);
     } catch (error) {
       // On error, immediately clear the animation flag to prevent the game from becoming unresponsive
       console.error('Error in moveTiles:', error);
@@ -595,147 +295,163 @@ export default function Game() {
         animationTimeoutRef.current = null;
       }
     }
-  }, [gameState, params, addNewTile, nextTileId]);
+  }, [gameState, params, recordResult, withClock, finishOnTime]);
 
-  // Handle keyboard input
+  // A move animation shows intermediate boards, so running out of time during
+  // one is handled once the move has been committed
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      switch (e.key) {
-        case 'ArrowUp':
-          e.preventDefault();
-          moveTiles('up');
-          break;
-        case 'ArrowDown':
-          e.preventDefault();
-          moveTiles('down');
-          break;
-        case 'ArrowLeft':
-          e.preventDefault();
-          moveTiles('left');
-          break;
-        case 'ArrowRight':
-          e.preventDefault();
-          moveTiles('right');
-          break;
+    onTimeUpRef.current = () => {
+      if (isAnimatingRef.current) {
+        timeUpPendingRef.current = true;
+      } else {
+        finishOnTime(gameState);
       }
     };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [moveTiles]);
+  }, [gameState, finishOnTime]);
 
-  // Handle touch input for swipe gestures
+  // The clock starts with the first move and stops when the game ends
+  const mode = getMode(params);
+  const timeLimitMs = mode.type === 'timeAttack' ? mode.seconds * 1000 : null;
+  const isClockRunning = timeLimitMs !== null && !gameState.isGameOver && gameState.moveCount > 0;
   useEffect(() => {
-    let touchStartX = 0;
-    let touchStartY = 0;
-    let touchEndX = 0;
-    let touchEndY = 0;
-    let touchedTileId: number | undefined = undefined;
-    
-    const minSwipeDistance = 50; // Minimum distance for a swipe to be detected
-    
-    const getTileAtPosition = (x: number, y: number): Tile | undefined => {
-      const board = boardRef.current;
-      if (!board) return undefined;
-      
-      const rect = board.getBoundingClientRect();
-      const relX = x - rect.left;
-      const relY = y - rect.top;
-      
-      // Calculate which grid cell was touched
-      const cellWidth = rect.width / params.n;
-      const cellHeight = rect.height / params.n;
-      const col = Math.floor(relX / cellWidth);
-      const row = Math.floor(relY / cellHeight);
-      
-      // Find tile at this position using the ref to avoid dependency
-      return tilesRef.current.find(t => t.row === row && t.col === col);
-    };
-    
-    const handleTouchStart = (e: Event) => {
-      const touchEvent = e as TouchEvent;
-      const touch = touchEvent.touches[0];
-      touchStartX = touch.clientX;
-      touchStartY = touch.clientY;
-      
-      // Check if touch started within board bounds (Issue #17)
-      const board = boardRef.current;
-      if (board) {
-        const rect = board.getBoundingClientRect();
-        const relX = touch.clientX - rect.left;
-        const relY = touch.clientY - rect.top;
-        
-        // Only process if touch starts within board
-        if (relX >= 0 && relX <= rect.width && relY >= 0 && relY <= rect.height) {
-          // Determine which tile was touched
-          const touchedTile = getTileAtPosition(touchStartX, touchStartY);
-          touchedTileId = touchedTile?.id;
-        } else {
-          // Touch started outside board, ignore
-          touchedTileId = undefined;
-        }
+    if (!isClockRunning || timeLimitMs === null) return;
+
+    let last = Date.now();
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const delta = now - last;
+      last = now;
+      if (isChainingRef.current || timeUpPendingRef.current) return;
+
+      elapsedRef.current = Math.min(timeLimitMs, elapsedRef.current + delta);
+      setElapsedMs(elapsedRef.current);
+      if (elapsedRef.current >= timeLimitMs) {
+        clearInterval(timer);
+        onTimeUpRef.current();
       }
+    }, CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isClockRunning, timeLimitMs]);
+
+  // Undo/redo restore committed states, so they are blocked while a move animates
+  const handleUndo = useCallback(() => {
+    if (isAnimatingRef.current) return;
+    const result = undo(history, withClock(gameState), params);
+    if (!result) return;
+    setHistory(result.history);
+    setGameState(result.state);
+    setLastResult(null);
+    saveGame(params, result.state);
+  }, [history, gameState, params, withClock]);
+
+  const handleRedo = useCallback(() => {
+    if (isAnimatingRef.current) return;
+    const result = redo(history, withClock(gameState));
+    if (!result) return;
+    setHistory(result.history);
+    setGameState(result.state);
+    saveGame(params, result.state);
+  }, [history, gameState, params, withClock]);
+
+  // Show the best next move; each hint shown counts against the hint budget
+  const handleHint = useCallback(() => {
+    if (isAnimatingRef.current || !canUseHint(gameState, params)) return;
+    if (hint?.state === gameState) return; // Already showing the hint for this board
+
+    const move = findBestMove(gameState, params, hintCriterion);
+    if (!move) return;
+
+    const nextState = { ...gameState, hintsUsed: gameState.hintsUsed + 1 };
+    setGameState(nextState);
+    setHint({ state: nextState, move });
+    saveGame(params, withClock(nextState));
+  }, [gameState, params, hint, hintCriterion, withClock]);
+
+  // Swap the next spawn with the hold slot
+  const handleHold = useCallback(() => {
+    if (isAnimatingRef.current) return;
+    const nextState = holdTile(withClock(gameState), params);
+    if (!nextState) return;
+
+    setHistory(prev => recordMove(prev, gameState));
+    setGameState(nextState);
+    saveGame(params, nextState);
+  }, [gameState, params, withClock]);
+
+  // The AI searches in a worker that lives while AI play is on
+  useEffect(() => {
+    if (!isAiPlaying) return;
+    const player = createAiPlayer();
+    aiPlayerRef.current = player;
+    return () => {
+      player.dispose();
+      aiPlayerRef.current = null;
     };
-    
-    const handleTouchMove = (e: Event) => {
-      // Prevent default behavior to avoid page scrolling/refreshing
-      e.preventDefault();
-    };
-    
-    const handleTouchEnd = (e: Event) => {
-      const touchEvent = e as TouchEvent;
-      touchEndX = touchEvent.changedTouches[0].clientX;
-      touchEndY = touchEvent.changedTouches[0].clientY;
-      
-      const deltaX = touchEndX - touchStartX;
-      const deltaY = touchEndY - touchStartY;
-      
-      // Determine if this is a horizontal or vertical swipe
-      const absX = Math.abs(deltaX);
-      const absY = Math.abs(deltaY);
-      
-      // Check if the swipe distance is sufficient
-      if (Math.max(absX, absY) < minSwipeDistance) {
+  }, [isAiPlaying]);
+
+  // While AI play is on, ask for a move whenever a move has finished animating
+  useEffect(() => {
+    const player = aiPlayerRef.current;
+    if (!player || gameState.isGameOver || isAnimatingRef.current || replayRecord || isPuzzleOpen) return;
+
+    let cancelled = false;
+    player.requestMove(gameState, params, aiOptions).then(move => {
+      if (!cancelled && move) void moveTiles(move.direction, move.tileId, true);
+    });
+    return () => { cancelled = true; };
+  }, [isAiPlaying, gameState, params, aiOptions, moveTiles, replayRecord, isPuzzleOpen]);
+
+  // Handle keyboard input
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The replay viewer and the puzzle screen handle keys while they are open
+      if (replayRecord || isPuzzleOpen) return;
+
+      // Ctrl+Z: undo, Ctrl+Y or Ctrl+Shift+Z: redo (Cmd on macOS)
+      if (e.ctrlKey || e.metaKey) {
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          handleUndo();
+        } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+          e.preventDefault();
+          handleRedo();
+        }
         return;
       }
-      
-      // Determine swipe direction based on the larger movement
-      if (absX > absY) {
-        // Horizontal swipe
-        if (deltaX > 0) {
-          moveTiles('right', touchedTileId);
-        } else {
-          moveTiles('left', touchedTileId);
-        }
-      } else {
-        // Vertical swipe
-        if (deltaY > 0) {
-          moveTiles('down', touchedTileId);
-        } else {
-          moveTiles('up', touchedTileId);
-        }
+
+      // Don't steal letter keys while typing into the settings
+      if (e.key.length === 1 && e.target instanceof HTMLInputElement) return;
+
+      // Arrow keys, plus letter keys for the diagonal directions of the hex grid
+      const direction = adjacency.keys[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      if (direction) {
+        e.preventDefault();
+        moveTiles(direction);
+      } else if (e.key === 'h') {
+        handleHint();
+      } else if (e.key === 'x') {
+        handleHold();
       }
     };
     
-    const board = boardRef.current;
-    if (board) {
-      // Use passive: false for touchstart and touchmove to allow preventDefault()
-      // This is necessary to prevent page scrolling/refreshing during swipe gestures
-      board.addEventListener('touchstart', handleTouchStart, { passive: false });
-      board.addEventListener('touchmove', handleTouchMove, { passive: false });
-      board.addEventListener('touchend', handleTouchEnd, { passive: true });
-      
-      return () => {
-        board.removeEventListener('touchstart', handleTouchStart);
-        board.removeEventListener('touchmove', handleTouchMove);
-        board.removeEventListener('touchend', handleTouchEnd);
-      };
-    }
-  }, [moveTiles, params.n]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [moveTiles, handleUndo, handleRedo, handleHint, handleHold, replayRecord, isPuzzleOpen, adjacency]);
+
+  // Handle touch input for swipe gestures
+  useSwipe(boardRef, shape.width, shape.height, adjacency, tilesRef, moveTiles);
+
+  // Today's daily challenge: the same seed and parameters for everyone
+  const handleDaily = () => {
+    const key = getDailyKey(new Date());
+    const dailyParams = getDailyParams(key);
+    startGame(dailyParams, { ...createInitialState(dailyParams, getDailySeed(key)), daily: key });
+    setTempParams(dailyParams);
+  };
 
   const handleReset = () => {
-    setParams(tempParams);
-    setTimeout(() => initGame(), 0);
+    initGame(tempParams, parseSeed(tempSeed) ?? randomSeed());
   };
 
   // Manual tile generation (Issue #17)
@@ -743,8 +459,9 @@ export default function Game() {
     // Don't generate during animations
     if (isAnimatingRef.current) return;
     
-    const result = addNewTile(gameState.tiles, nextTileId);
-    if (result.tiles.length > gameState.tiles.length) {
+    const { state: spawned, tile } = spawnTile(withClock(gameState), params);
+    if (tile) {
+      const nextState = spawned.isGameOver ? recordResult(spawned) : spawned;
       // Set animation flag to prevent multiple clicks during animation
       isAnimatingRef.current = true;
       
@@ -754,28 +471,89 @@ export default function Game() {
         animationTimeoutRef.current = null;
       }
       
-      setGameState(prev => ({
-        ...prev,
-        tiles: result.tiles,
-      }));
-      setNextTileId(result.nextId);
+      setHistory(prev => recordMove(prev, gameState));
+      saveGame(params, nextState);
+      setGameState({
+        ...nextState,
+        isGameOver: false,
+        tiles: nextState.tiles.map(t => t.id === tile.id ? { ...t, isNew: true } : t),
+      });
       
       // Clear animation flags after the appear animation completes
       animationTimeoutRef.current = setTimeout(() => {
-        setGameState(prevState => ({
-          ...prevState,
-          tiles: prevState.tiles.map(t => ({
-            ...t,
-            isNew: false,
-          })),
-        }));
+        setGameState(nextState);
         
         // Clear animation flag
         isAnimatingRef.current = false;
+        if (timeUpPendingRef.current) finishOnTime(nextState);
       }, 250); // Appear animation is 0.2s, add small buffer
     }
   };
 
+  const handleCopyReplay = () => {
+    const record = getGameRecord(params, gameState);
+    if (record) void copyText(serializeRecord(record), 'リプレイデータ');
+  };
+
+  const handleCopyDailySummary = () => {
+    if (!gameState.daily) return;
+    const summary = formatDailySummary(gameState.daily, createDailyResult(gameState), streak);
+    void copyText(summary, 'デイリーの結果');
+  };
+
+  const handleCopyBoardLink = () => {
+    void copyText(getShareUrl(params, gameState), '盤面リンク');
+  };
+
+  const handleLoadReplay = () => {
+    const text = window.prompt('リプレイデータを貼り付けてください');
+    if (!text) return;
+    const record = parseRecord(text);
+    if (record) {
+      setReplayRecord(record);
+    } else {
+      window.alert('リプレイデータを読み込めませんでした');
+    }
+  };
+
+  const remainingUndos = getRemainingUndos(gameState, params);
+  const remainingHints = getRemainingHints(gameState, params);
+  const activeHint = hint?.state === gameState ? hint.move : null;
+  // Tiles the hint points at get the pre-interaction highlight
+  const boardTiles = activeHint
+    ? gameState.tiles.map(t => activeHint.movedTileIds.includes(t.id) ? { ...t, isHighlighting: true } : t)
+    : gameState.tiles;
+  const assists = [
+    gameState.undosUsed > 0 && `取り消し${gameState.undosUsed}回`,
+    gameState.hintsUsed > 0 && `ヒント${gameState.hintsUsed}回`,
+  ].filter(Boolean);
+  const gameRecord = getGameRecord(params, gameState);
+  const scoringRules = getScoringRules(params.scoring);
+  const remainingMoves = getRemainingMoves(gameState, params);
+  const remainingTime = getRemainingTime({ ...gameState, elapsedMs }, params);
+  const tempMode = getMode(tempParams);
+  const tempShape = getBoardShape(tempParams);
+  // Walls that match no preset (e.g. from a shared link) are kept while they fit the board
+  const tempWalls = findWallPreset(tempParams);
+  // A typed size is kept within the sizes offered, since a huge board would hang the game
+  const readBoardSize = (value: string) => Math.min(MAX_BOARD_SIZE, Math.max(MIN_BOARD_SIZE, parseInt(value) || MIN_BOARD_SIZE));
+  const setTempShape = (width: number, height: number, walls: WallPresetId | null) => setTempParams(withBoardShape(
+    tempParams,
+    width,
+    height,
+    walls === null
+      ? tempShape.blocked.filter(cell => cell.row < height && cell.col < width)
+      : getWallPreset(walls, width, height)
+  ));
+  const streak = getStreak(dailyResults, new Date());
+  // A daily game the AI played is not recorded, so it has no result to share
+  const dailyRecorded = gameState.daily !== null && !gameState.autoPlayed;
+
+  let gameOverTitle = 'ゲームオーバー';
+  if (mode.type === 'clear' && isBoardCleared(gameState)) gameOverTitle = 'クリア!';
+  else if (remainingTime === 0) gameOverTitle = 'タイムアップ';
+  else if (remainingMoves === 0) gameOverTitle = '規定手数に到達';
+
   return (
     <div className="game">
       <h1>素因数分解ゲーム <span className="version">v{VERSION}</span></h1>
@@ -783,70 +561,232 @@ export default function Game() {
       <div className="game-info">
         <div className="score">Score: {gameState.score}</div>
         <div className="moves">Moves: {gameState.moveCount}</div>
+        <div className="seed">Seed: {gameState.seed}</div>
+        <div className="scoring" title={scoringRules.description}>採点: {scoringRules.label}</div>
+      </div>
+
+      <div className="mode-info">
+        {gameState.daily && <span className="daily-label">デイリー {gameState.daily}</span>}
+        <span className="mode-label">{formatMode(mode)}</span>
+        {remainingMoves !== null && <span className="moves-left">残り{remainingMoves}手</span>}
+        {remainingTime !== null && (
+          <span
+            className={(gameState.chainCount ?? 0) > 0 ? 'timer timer-paused' : 'timer'}
+            title={gameState.moveCount === 0 ? '最初の一手でスタート' : undefined}
+          >
+            ⏱ {formatClock(remainingTime)}
+          </span>
+        )}
       </div>
       
-      <div className="board" ref={boardRef} style={{
-        gridTemplateColumns: `repeat(${params.n}, 1fr)`,
-        gridTemplateRows: `repeat(${params.n}, 1fr)`,
-      }}>
-        {gameState.tiles.map(tile => {
-          const tileClasses = ['tile'];
-          if (tile.isNew) tileClasses.push('tile-new');
-          if (tile.isMoving) tileClasses.push('tile-moving');
-          if (tile.isDividing) tileClasses.push('tile-dividing');
-          if (tile.isChaining) tileClasses.push('tile-chaining');
-          if (tile.isDisappearing) tileClasses.push('tile-disappearing');
-          if (tile.isPowerEliminating) tileClasses.push('tile-power-eliminating');
-          if (tile.powerType === 'square') tileClasses.push('tile-power-square');
-          if (tile.powerType === 'cube') tileClasses.push('tile-power-cube');
-          if (tile.mergeHighlight) tileClasses.push('tile-merge-highlight');
-          if (tile.isHighlighting) tileClasses.push('tile-highlighting');
-
-          return (
-            <div
-              key={tile.id}
-              className={tileClasses.join(' ')}
-              style={{
-                gridColumn: tile.col + 1,
-                gridRow: tile.row + 1,
-              }}
-            >
-              {/* Show empty string for disappearing tiles (value 0) during animation */}
-              {tile.value || ''}
+      <div className="board-area">
+        <Board
+          tiles={boardTiles}
+          shape={shape}
+          hex={adjacency.id === 'hex'}
+          chainCount={gameState.chainCount}
+          chainPosition={gameState.chainPosition}
+          scorePopups={gameState.scorePopups}
+          boardRef={boardRef}
+          hint={activeHint && { tileIds: activeHint.movedTileIds, direction: activeHint.direction }}
+        >
+          {gameState.isGameOver && (
+            <div className="game-over-overlay">
+              <h2>{gameOverTitle}</h2>
+              {lastResult?.isNewBest && <div className="new-best">New best!</div>}
+              <div className="game-over-stats">
+                <div>Score: {gameState.score}</div>
+                <div>Moves: {gameState.moveCount}</div>
+                <div>最大連鎖: {gameState.maxChain}</div>
+                {lastResult?.rank != null && <div>ランキング: {lastResult.rank + 1}位</div>}
+                {dailyRecorded && <div>連続記録: {streak}日</div>}
+                {mode.type === 'clear' && !isBoardCleared(gameState) && (
+                  <div className="assisted">盤面をクリアできませんでした（ハイスコア対象外）</div>
+                )}
+                {gameState.fromSharedLink && (
+                  <div className="assisted">共有された盤面から開始（ハイスコア対象外）</div>
+                )}
+                {gameState.autoPlayed && (
+                  <div className="assisted">AIが操作したゲーム（ハイスコア対象外）</div>
+                )}
+                {assists.length > 0 && (
+                  <div className="assisted">アシストあり（{assists.join('・')}）</div>
+                )}
+              </div>
+              <div className="game-over-actions">
+                <button onClick={() => initGame(params, randomSeed())}>同じ設定でもう一度</button>
+                {gameRecord && <button onClick={() => setReplayRecord(gameRecord)}>リプレイを見る</button>}
+                {dailyRecorded && <button onClick={handleCopyDailySummary}>結果をコピー</button>}
+              </div>
             </div>
-          );
-        })}
-        {gameState.chainCount !== undefined && gameState.chainCount > 0 && gameState.chainPosition && (
-          <div 
-            className="chain-counter"
-            style={{
-              gridColumn: Math.floor(gameState.chainPosition.col) + 1,
-              gridRow: Math.floor(gameState.chainPosition.row) + 1,
-            }}
-          >
-            {gameState.chainCount}連鎖!
-          </div>
+          )}
+        </Board>
+        {gameState.upcoming && (
+          <NextTiles
+            upcoming={gameState.upcoming}
+            held={gameState.held}
+            hasHold={params.holdInterval !== undefined}
+            canHold={canHold(gameState, params)}
+            holdIn={params.holdInterval !== undefined && gameState.holdMove !== undefined
+              ? params.holdInterval - (gameState.moveCount - gameState.holdMove)
+              : undefined}
+            onHold={handleHold}
+          />
         )}
       </div>
+
+      {breakdown && breakdown.moveCount === gameState.moveCount && (
+        <ScoreBreakdown scores={breakdown.scores} moveNumber={breakdown.moveCount} />
+      )}
       
-      <div style={{ display: 'flex', justifyContent: 'center', margin: '20px 0' }}>
+      <div style={{ display: 'flex', justifyContent: 'center', gap: '10px', margin: '20px 0' }}>
+        <button onClick={handleUndo} disabled={!canUndo(history, gameState, params)} title="Ctrl+Z">
+          元に戻す{remainingUndos !== null && ` (残り${remainingUndos})`}
+        </button>
         <button onClick={handleGenerateTile} className="generate-tile-button">タイル生成</button>
+        <button onClick={handleRedo} disabled={!canRedo(history)} title="Ctrl+Y">やり直す</button>
+      </div>
+
+      <div className="hint-controls">
+        <button onClick={handleHint} disabled={!canUseHint(gameState, params)} title="H">
+          ヒント{remainingHints !== null && ` (残り${remainingHints})`}
+        </button>
+        <label>
+          基準:
+          <select value={hintCriterion} onChange={(e) => setHintCriterion(e.target.value as HintCriterion)}>
+            <option value="score">スコア</option>
+            <option value="chain">連鎖</option>
+            <option value="cleared">消えるタイル数</option>
+          </select>
+        </label>
+        {activeHint && (
+          <span className="hint-text">
+            {activeHint.tileId === undefined ? '全体を' : `${gameState.tiles.find(t => t.id === activeHint.tileId)?.value}を`}
+            {DIRECTION_LABELS[activeHint.direction]}へ
+            （+{activeHint.score}点、{activeHint.chain}連鎖、{activeHint.cleared}枚消去）
+          </span>
+        )}
+      </div>
+
+      <div className="ai-controls">
+        <button onClick={() => setIsAiPlaying(!isAiPlaying)} className={isAiPlaying ? 'ai-playing' : undefined}>
+          {isAiPlaying ? 'AIプレイ停止' : 'AIプレイ'}
+        </button>
+        <label>
+          方式:
+          <select
+            value={aiOptions.strategy}
+            onChange={(e) => setAiOptions({ ...aiOptions, strategy: e.target.value as AiStrategy })}
+          >
+            <option value="expectimax">Expectimax</option>
+            <option value="montecarlo">モンテカルロ</option>
+          </select>
+        </label>
+        <label>
+          深さ:
+          <input
+            type="number"
+            min="1"
+            max="4"
+            value={aiOptions.depth}
+            onChange={(e) => setAiOptions({ ...aiOptions, depth: Math.max(1, parseInt(e.target.value) || 1) })}
+          />
+        </label>
+        {aiOptions.strategy === 'montecarlo' ? (
+          <label>
+            試行回数:
+            <input
+              type="number"
+              min="1"
+              max="500"
+              value={aiOptions.rollouts}
+              onChange={(e) => setAiOptions({ ...aiOptions, rollouts: Math.max(1, parseInt(e.target.value) || 1) })}
+            />
+          </label>
+        ) : (
+          <label>
+            出現サンプル数:
+            <input
+              type="number"
+              min="1"
+              max="20"
+              value={aiOptions.spawnSamples}
+              onChange={(e) => setAiOptions({ ...aiOptions, spawnSamples: Math.max(1, parseInt(e.target.value) || 1) })}
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="extra-modes">
+        <button onClick={handleDaily} title="毎日同じ盤面・同じ出現タイルで遊べます">
+          デイリー{streak > 0 && `（${streak}日連続）`}
+        </button>
+        <button onClick={() => setIsPuzzleOpen(true)}>パズル</button>
+      </div>
+
+      <div className="share-actions">
+        <button onClick={handleCopyBoardLink}>盤面リンクをコピー</button>
+        <button onClick={() => setReplayRecord(gameRecord)} disabled={!gameRecord}>リプレイ</button>
+        <button onClick={handleCopyReplay} disabled={!gameRecord}>リプレイをコピー</button>
+        <button onClick={handleLoadReplay}>リプレイを読み込む</button>
       </div>
       
       <div className="controls">
         <h2>パラメータ設定</h2>
         <div className="param">
           <label>
-            ボードサイズ (n): 
+            ボードの幅 (列): 
+            <input
+              type="number"
+              min={MIN_BOARD_SIZE}
+              max={MAX_BOARD_SIZE}
+              value={tempShape.width}
+              onChange={(e) => setTempShape(readBoardSize(e.target.value), tempShape.height, tempWalls)}
+            />
+          </label>
+        </div>
+        <div className="param">
+          <label>
+            ボードの高さ (行): 
             <input
               type="number"
-              min="3"
-              max="8"
-              value={tempParams.n}
-              onChange={(e) => setTempParams({...tempParams, n: parseInt(e.target.value) || 3})}
+              min={MIN_BOARD_SIZE}
+              max={MAX_BOARD_SIZE}
+              value={tempShape.height}
+              onChange={(e) => setTempShape(tempShape.width, readBoardSize(e.target.value), tempWalls)}
             />
           </label>
         </div>
+        <div className="param">
+          <label>
+            壁: 
+            <select
+              value={tempWalls ?? 'custom'}
+              onChange={(e) => setTempShape(tempShape.width, tempShape.height, e.target.value as WallPresetId)}
+            >
+              {(Object.keys(WALL_PRESET_LABELS) as WallPresetId[]).map(id => (
+                <option key={id} value={id}>{WALL_PRESET_LABELS[id]}</option>
+              ))}
+              {tempWalls === null && <option value="custom" disabled>カスタム</option>}
+            </select>
+          </label>
+        </div>
+        <div className="param">
+          <label>
+            隣接: 
+            <select
+              value={tempParams.adjacency ?? DEFAULT_ADJACENCY}
+              onChange={(e) => setTempParams({ ...tempParams, adjacency: e.target.value as AdjacencyId })}
+            >
+              {ADJACENCY_IDS.map(id => (
+                <option key={id} value={id}>{ADJACENCIES[id].label}</option>
+              ))}
+            </select>
+          </label>
+          {tempParams.adjacency === 'hex' && (
+            <div className="param-note">六角形の盤面は ← → と Q / E / A / D / Z / C キーで動かします</div>
+          )}
+        </div>
         <div className="param">
           <label>
             初期タイル数 (m): 
@@ -877,9 +817,176 @@ export default function Game() {
             <input
               type="number"
               min="2"
-              max="19"
+              max={MAX_PRIME}
               value={tempParams.p}
-              onChange={(e) => setTempParams({...tempParams, p: parseInt(e.target.value) || 2})}
+              onChange={(e) => setTempParams({...tempParams, p: Math.min(MAX_PRIME, Math.max(2, parseInt(e.target.value) || 2))})}
+            />
+          </label>
+        </div>
+        <div className="param">
+          <label>
+            タイルの出現: 
+            <select
+              value={tempParams.spawn ?? DEFAULT_SPAWN}
+              onChange={(e) => setTempParams({ ...tempParams, spawn: e.target.value as SpawnPresetId })}
+            >
+              {SPAWN_PRESET_IDS.map(id => (
+                <option key={id} value={id}>{SPAWN_PRESETS[id].label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="param-note">{getSpawnDistribution(tempParams.spawn).description}</div>
+        </div>
+        <div className="param">
+          <label>
+            次のタイルの予告: 
+            <select
+              value={tempParams.preview ?? ''}
+              onChange={(e) => setTempParams(e.target.value === ''
+                // The hold slot swaps a queued value, so it goes with the preview
+                ? { ...tempParams, preview: undefined, holdInterval: undefined }
+                : { ...tempParams, preview: parseInt(e.target.value) })}
+            >
+              <option value="">なし</option>
+              {Array.from({ length: MAX_PREVIEW }, (_, i) => i + 1).map(count => (
+                <option key={count} value={count}>{count}個</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="param">
+          <label>
+            保留の間隔 (空欄で保留なし): 
+            <input
+              type="number"
+              min="1"
+              max="99"
+              disabled={tempParams.preview === undefined}
+              value={tempParams.holdInterval ?? ''}
+              onChange={(e) => setTempParams({
+                ...tempParams,
+                holdInterval: e.target.value === '' ? undefined : Math.max(1, parseInt(e.target.value) || 1),
+              })}
+            />
+          </label>
+          <div className="param-note">保留はN手ごとに1回、次のタイルと入れ替えられます（Xキー）</div>
+        </div>
+        <div className="param">
+          <label>
+            特殊タイル: 
+            <input
+              type="checkbox"
+              checked={tempParams.specials ?? false}
+              onChange={(e) => setTempParams({ ...tempParams, specials: e.target.checked || undefined })}
+            />
+          </label>
+          <ul className="param-note">
+            {TILE_KINDS.map(kind => (
+              <li key={kind}>
+                {SPECIAL_TILES[kind].symbol} {SPECIAL_TILES[kind].label} ({SPECIAL_TILES[kind].spawnRate * 100}%):
+                {' '}{SPECIAL_TILES[kind].description}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="param">
+          <label>
+            合体ルール: 
+            <select
+              value={tempParams.mergeRule ?? DEFAULT_MERGE_RULE}
+              onChange={(e) => setTempParams({ ...tempParams, mergeRule: e.target.value as MergeRuleId })}
+            >
+              {MERGE_RULE_IDS.map(id => (
+                <option key={id} value={id}>{MERGE_RULES[id].label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="param-note">{getMergeRule(tempParams.mergeRule).description}</div>
+        </div>
+        <div className="param">
+          <label>
+            取り消し回数上限 (空欄で無制限): 
+            <input
+              type="number"
+              min="0"
+              max="99"
+              value={tempParams.undoLimit ?? ''}
+              onChange={(e) => setTempParams({
+                ...tempParams,
+                undoLimit: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0),
+              })}
+            />
+          </label>
+        </div>
+        <div className="param">
+          <label>
+            ヒント回数上限 (空欄で無制限): 
+            <input
+              type="number"
+              min="0"
+              max="99"
+              value={tempParams.hintLimit ?? ''}
+              onChange={(e) => setTempParams({
+                ...tempParams,
+                hintLimit: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0),
+              })}
+            />
+          </label>
+        </div>
+        <div className="param">
+          <label>
+            ゲームモード: 
+            <select
+              value={tempMode.type}
+              onChange={(e) => setTempParams({ ...tempParams, mode: createMode(e.target.value as GameModeType) })}
+            >
+              {(Object.keys(MODE_LABELS) as GameModeType[]).map(type => (
+                <option key={type} value={type}>{MODE_LABELS[type]}</option>
+              ))}
+            </select>
+            {tempMode.type === 'moves' && (
+              <select
+                value={tempMode.limit}
+                onChange={(e) => setTempParams({ ...tempParams, mode: { type: 'moves', limit: Number(e.target.value) } })}
+              >
+                {MOVE_LIMITS.map(limit => <option key={limit} value={limit}>{limit}手</option>)}
+              </select>
+            )}
+            {tempMode.type === 'timeAttack' && (
+              <select
+                value={tempMode.seconds}
+                onChange={(e) => setTempParams({
+                  ...tempParams,
+                  mode: { type: 'timeAttack', seconds: Number(e.target.value) },
+                })}
+              >
+                {TIME_ATTACK_SECONDS.map(seconds => <option key={seconds} value={seconds}>{seconds}秒</option>)}
+              </select>
+            )}
+          </label>
+        </div>
+        <div className="param">
+          <label>
+            採点ルール: 
+            <select
+              value={tempParams.scoring ?? DEFAULT_SCORING}
+              onChange={(e) => setTempParams({ ...tempParams, scoring: e.target.value as ScoringPresetId })}
+            >
+              {SCORING_PRESET_IDS.map(id => (
+                <option key={id} value={id}>{SCORING_PRESETS[id].label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="param-note">{getScoringRules(tempParams.scoring).description}</div>
+        </div>
+        <div className="param">
+          <label>
+            シード (空欄でランダム): 
+            <input
+              type="text"
+              className="seed-input"
+              value={tempSeed}
+              onChange={(e) => setTempSeed(e.target.value)}
             />
           </label>
         </div>
@@ -888,6 +995,11 @@ export default function Game() {
         </div>
       </div>
       
+      <HighScores tables={highScores} params={params} highlight={lastResult?.rank != null ? { key: lastResult.key, rank: lastResult.rank } : null} />
+      
+      {replayRecord && <ReplayViewer record={replayRecord} onClose={() => setReplayRecord(null)} />}
+      {isPuzzleOpen && <PuzzleMode onClose={() => setIsPuzzleOpen(false)} />}
+
       <div className="instructions">
         <h3>遊び方</h3>
         <p>矢印キーまたはスワイプでタイルを動かします。</p>
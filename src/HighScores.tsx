@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import './HighScores.css';
+import type { GameParams } from './types';
+import { getRules, getRulesKey } from './highScores';
+import type { HighScoreTables, HighScoreRules } from './highScores';
+import { getScoringRules } from './scoring';
+import { formatMode } from './gameModes';
+import { formatBoardSize } from './boardShape';
+import { DEFAULT_ADJACENCY, getAdjacency } from './adjacency';
+import { DEFAULT_SPAWN, getSpawnDistribution } from './spawnDistribution';
+import { DEFAULT_MERGE_RULE, getMergeRule } from './mergeRules';
+
+interface HighScoresProps {
+  tables: HighScoreTables;
+  params: GameParams; // Table shown by default
+  highlight?: { key: string; rank: number } | null; // Entry of the game that just ended
+}
+
+function formatRules(rules: HighScoreRules): string {
+  const scoring = getScoringRules(rules.scoring).label;
+  const adjacency = rules.adjacency && rules.adjacency !== DEFAULT_ADJACENCY ? ` / ${getAdjacency(rules.adjacency).label}` : '';
+  const spawn = rules.spawn && rules.spawn !== DEFAULT_SPAWN ? ` (出現: ${getSpawnDistribution(rules.spawn).label})` : '';
+  const preview = rules.preview !== undefined ? ` / 予告${rules.preview}` : '';
+  const hold = rules.holdInterval !== undefined ? ` / 保留${rules.holdInterval}手ごと` : '';
+  const specials = rules.specials ? ' / 特殊タイル' : '';
+  const mergeRule = rules.mergeRule && rules.mergeRule !== DEFAULT_MERGE_RULE ? ` / 合体: ${getMergeRule(rules.mergeRule).label}` : '';
+  const legacy = rules.beforePowerBonus ? '（旧採点: k乗ボーナス前）' : '';
+  return `${formatBoardSize(rules)}${adjacency} / m=${rules.m} / k=${rules.k} / p=${rules.p}${spawn}${preview}${hold}${specials}${mergeRule} / ${scoring} / ${formatMode(rules.mode)}${legacy}`;
+}
+
+export default function HighScores({ tables, params, highlight }: HighScoresProps) {
+  const currentKey = getRulesKey(params);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // Follow the current parameters until the player picks another table
+  const key = selectedKey ?? currentKey;
+  const table = tables[key];
+  const keys = Object.keys(tables);
+  if (!keys.includes(currentKey)) keys.unshift(currentKey);
+
+  return (
+    <details className="high-scores">
+      <summary>ハイスコア</summary>
+      <label className="high-scores-select">
+        設定:
+        <select value={key} onChange={(e) => setSelectedKey(e.target.value)}>
+          {keys.map(k => (
+            <option key={k} value={k}>
+              {tables[k] ? formatRules(tables[k].rules) : formatRules(getRules(params))}
+              {k === currentKey ? '（現在）' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+      {table && table.entries.length > 0 ? (
+        <table>
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>スコア</th>
+              <th>手数</th>
+              <th>最大連鎖</th>
+              <th>日付</th>
+              <th>シード</th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.entries.map((entry, index) => (
+              <tr
+                key={`${entry.date}-${index}`}
+                className={highlight?.key === key && highlight.rank === index ? 'high-score-latest' : undefined}
+              >
+                <td>{index + 1}</td>
+                <td>
+                  {entry.score}
+                  {entry.assisted && <span className="high-score-assisted" title="取り消し・ヒントを使用">※</span>}
+                </td>
+                <td>{entry.moveCount}</td>
+                <td>{entry.maxChain}</td>
+                <td>{new Date(entry.date).toLocaleDateString()}</td>
+                <td>{entry.seed}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="high-scores-empty">まだ記録がありません</p>
+      )}
+      <p className="high-scores-note">※ 取り消しやヒントを使ったゲーム（アシストあり）</p>
+    </details>
+  );
+}
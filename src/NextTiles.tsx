@@ -0,0 +1,35 @@
+import './NextTiles.css';
+
+interface NextTilesProps {
+  upcoming: number[]; // Values of the next spawns, next one first
+  held?: number; // Value in the hold slot
+  hasHold: boolean; // The game has a hold slot
+  canHold: boolean; // The hold slot can be used now
+  holdIn?: number; // Moves until the hold slot can be used again
+  onHold?: () => void;
+}
+
+export default function NextTiles({ upcoming, held, hasHold, canHold, holdIn, onHold }: NextTilesProps) {
+  return (
+    <div className="next-tiles">
+      <div className="next-tiles-title">次のタイル</div>
+      <ol className="next-tiles-queue">
+        {upcoming.map((value, index) => (
+          <li key={index} className={index === 0 ? 'next-tile next-tile-first' : 'next-tile'}>{value}</li>
+        ))}
+      </ol>
+      {hasHold && (
+        <div className="next-tiles-hold">
+          <div className="next-tiles-title">保留</div>
+          <div className={held === undefined ? 'next-tile next-tile-empty' : 'next-tile'}>{held ?? ''}</div>
+          {onHold && (
+            <button onClick={onHold} disabled={!canHold} title="X">
+              {held === undefined ? '保留する' : '入れ替え'}
+            </button>
+          )}
+          {!canHold && holdIn !== undefined && holdIn > 0 && <div className="next-tiles-wait">あと{holdIn}手</div>}
+        </div>
+      )}
+    </div>
+  );
+}
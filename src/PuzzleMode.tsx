@@ -0,0 +1,281 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import './PuzzleMode.css';
+import type { GameState, Direction, Tile } from './types';
+import { applyMove } from './gameEngine';
+import { createHistory, recordMove, undo, canUndo } from './history';
+import type { GameHistory } from './history';
+import { createPuzzleState, describeGoal, getPuzzleStatus, getStars, parseLevelPack } from './puzzles';
+import type { LevelPack, PuzzleLevel } from './puzzles';
+import {
+  getLevelKey,
+  getPackStars,
+  isLevelUnlocked,
+  loadPuzzleProgress,
+  recordLevelResult,
+  savePuzzleProgress,
+} from './puzzleProgress';
+import type { LevelResult, PuzzleProgress } from './puzzleProgress';
+import { ANIMATION_CLEANUP_MS, playMoveEvents, wait } from './moveAnimation';
+import { useSwipe } from './useSwipe';
+import Board from './Board';
+import { getBoardShape } from './boardShape';
+import { getAdjacency } from './adjacency';
+import levelPackData from './puzzleLevels.json';
+
+const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+// The bundled pack is checked when the puzzle screen opens; a broken pack
+// shows its problems instead of levels
+function loadLevelPack(): { pack: LevelPack | null; errors: string[] } {
+  const result = parseLevelPack(levelPackData);
+  if (!result.pack) console.error('Invalid level pack:', result.errors);
+  return result;
+}
+
+function formatStars(stars: number): string {
+  return '★'.repeat(stars) + '☆'.repeat(3 - stars);
+}
+
+interface PuzzlePlayProps {
+  level: PuzzleLevel;
+  best: LevelResult | undefined;
+  hasNext: boolean;
+  onSolved: (moveCount: number) => void;
+  onRestart: () => void;
+  onNext: () => void;
+  onBack: () => void;
+}
+
+// One attempt at a level; restarting mounts a fresh attempt
+function PuzzlePlay({ level, best, hasNext, onSolved, onRestart, onNext, onBack }: PuzzlePlayProps) {
+  const [state, setState] = useState<GameState>(() => createPuzzleState(level));
+  const [display, setDisplay] = useState<GameState>(state); // Board shown, including animation frames
+  const [history, setHistory] = useState<GameHistory>(createHistory);
+  const [isAnimating, setIsAnimating] = useState(false);
+  const isAnimatingRef = useRef(false);
+  const boardRef = useRef<HTMLDivElement>(null);
+  const tilesRef = useRef<Tile[]>([]);
+
+  useEffect(() => {
+    tilesRef.current = display.tiles;
+  }, [display.tiles]);
+
+  const status = getPuzzleStatus(level, state);
+
+  const moveTiles = useCallback(async (direction: Direction, tileId?: number) => {
+    if (isAnimatingRef.current || status !== 'playing') return;
+    const result = applyMove(state, direction, tileId, level.params);
+    if (!result.moved) return;
+
+    isAnimatingRef.current = true;
+    setIsAnimating(true);
+    setHistory(prev => recordMove(prev, state));
+    setDisplay(await playMoveEvents(state.tiles, result, setDisplay));
+    await wait(ANIMATION_CLEANUP_MS);
+
+    setState(result.state);
+    setDisplay(result.state);
+    isAnimatingRef.current = false;
+    setIsAnimating(false);
+    if (getPuzzleStatus(level, result.state) === 'solved') onSolved(result.state.moveCount);
+  }, [state, status, level, onSolved]);
+
+  // Undoing is always allowed in puzzles, also after failing
+  const handleUndo = useCallback(() => {
+    if (isAnimatingRef.current) return;
+    const result = undo(history, state, level.params);
+    if (!result) return;
+    setHistory(result.history);
+    setState(result.state);
+    setDisplay(result.state);
+  }, [history, state, level]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        handleUndo();
+        return;
+      }
+      const direction = ARROW_DIRECTIONS[e.key];
+      if (direction) {
+        e.preventDefault();
+        void moveTiles(direction);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [moveTiles, handleUndo]);
+
+  const shape = getBoardShape(level.params);
+  useSwipe(boardRef, shape.width, shape.height, getAdjacency(level.params.adjacency), tilesRef, moveTiles);
+
+  const stars = getStars(level, state.moveCount);
+
+  return (
+    <div className="puzzle-play">
+      <div className="puzzle-goal">{describeGoal(level)}</div>
+      <div className="game-info">
+        <div className="score">Score: {display.score}</div>
+        <div className="moves">Moves: {display.moveCount} / {level.moveLimit}</div>
+        <div className="puzzle-best">
+          ベスト: {best ? `${formatStars(best.stars)}（${best.bestMoves}手）` : '—'}
+        </div>
+      </div>
+
+      <Board
+        tiles={display.tiles}
+        shape={shape}
+        chainCount={display.chainCount}
+        chainPosition={display.chainPosition}
+        scorePopups={display.scorePopups}
+        boardRef={boardRef}
+        className="puzzle-board"
+      >
+        {!isAnimating && status !== 'playing' && (
+          <div className="game-over-overlay">
+            {status === 'solved' ? (
+              <>
+                <h2>クリア!</h2>
+                <div className="puzzle-stars">{formatStars(stars)}</div>
+                <div className="game-over-stats">
+                  <div>{state.moveCount}手でクリア</div>
+                  {stars < 3 && <div className="puzzle-star-hint">★3つは{level.stars[0]}手以内</div>}
+                </div>
+              </>
+            ) : (
+              <>
+                <h2>失敗</h2>
+                <div className="game-over-stats">
+                  <div>{state.isGameOver ? '動かせるタイルがありません' : `${level.moveLimit}手を使い切りました`}</div>
+                </div>
+              </>
+            )}
+            <div className="game-over-actions">
+              {status === 'solved' && hasNext && <button onClick={onNext}>次のレベルへ</button>}
+              <button onClick={onRestart}>もう一度</button>
+              {status === 'failed' && <button onClick={handleUndo}>元に戻す</button>}
+            </div>
+          </div>
+        )}
+      </Board>
+
+      <div className="puzzle-controls">
+        <button onClick={onBack}>レベル選択</button>
+        <button onClick={handleUndo} disabled={isAnimating || !canUndo(history, state, level.params)} title="Ctrl+Z">
+          元に戻す
+        </button>
+        <button onClick={onRestart}>やり直す</button>
+      </div>
+    </div>
+  );
+}
+
+interface PuzzleModeProps {
+  onClose: () => void;
+}
+
+export default function PuzzleMode({ onClose }: PuzzleModeProps) {
+  const [{ pack, errors }] = useState(loadLevelPack);
+  const [progress, setProgress] = useState<PuzzleProgress>(loadPuzzleProgress);
+  const [levelIndex, setLevelIndex] = useState<number | null>(null); // Level being played; null on the level select
+  const [attempt, setAttempt] = useState(0); // Bumped to restart the level
+
+  const level = pack && levelIndex !== null ? pack.levels[levelIndex] : null;
+  const index = levelIndex ?? 0;
+
+  const handleSolved = useCallback((moveCount: number) => {
+    if (!pack || !level) return;
+    const result = { stars: getStars(level, moveCount), bestMoves: moveCount };
+    const next = recordLevelResult(progress, getLevelKey(pack.id, level.id), result);
+    setProgress(next);
+    savePuzzleProgress(next);
+  }, [pack, level, progress]);
+
+  const openLevel = (next: number) => {
+    setLevelIndex(next);
+    setAttempt(attempt + 1);
+  };
+
+  // Escape leaves the level first, then the puzzle screen
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      if (levelIndex !== null) setLevelIndex(null);
+      else onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [levelIndex, onClose]);
+
+  return (
+    <div className="puzzle-mode" role="dialog" aria-label="パズル">
+      <div className="puzzle-panel">
+        <div className="puzzle-header">
+          <h2>{level ? `${index + 1}. ${level.name}` : 'パズル'}</h2>
+          <button className="puzzle-close" onClick={onClose} title="Esc">×</button>
+        </div>
+
+        {!pack && (
+          <div className="puzzle-errors">
+            <p>レベルパックを読み込めませんでした</p>
+            <ul>
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {pack && level && (
+          <PuzzlePlay
+            key={`${level.id}-${attempt}`}
+            level={level}
+            best={progress[getLevelKey(pack.id, level.id)]}
+            hasNext={index + 1 < pack.levels.length}
+            onSolved={handleSolved}
+            onRestart={() => setAttempt(attempt + 1)}
+            onNext={() => openLevel(index + 1)}
+            onBack={() => setLevelIndex(null)}
+          />
+        )}
+
+        {pack && !level && (
+          <>
+            <div className="puzzle-pack">
+              {pack.name}
+              <span className="puzzle-pack-stars">★ {getPackStars(pack, progress)} / {pack.levels.length * 3}</span>
+            </div>
+            <ol className="puzzle-levels">
+              {pack.levels.map((l, i) => {
+                const result = progress[getLevelKey(pack.id, l.id)];
+                const unlocked = isLevelUnlocked(pack, i, progress);
+                return (
+                  <li key={l.id}>
+                    <button
+                      className={result ? 'puzzle-level puzzle-level-solved' : 'puzzle-level'}
+                      disabled={!unlocked}
+                      onClick={() => openLevel(i)}
+                      title={describeGoal(l)}
+                    >
+                      <span className="puzzle-level-number">{i + 1}</span>
+                      <span className="puzzle-level-name">{l.name}</span>
+                      <span className="puzzle-level-stars">
+                        {unlocked ? formatStars(result?.stars ?? 0) : '🔒'}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { CSSProperties, Dispatch, SetStateAction } from 'react';
+import './ReplayViewer.css';
+import type { GameState } from './types';
+import { replayGame } from './replay';
+import type { GameRecord } from './replay';
+import { ANIMATION_CLEANUP_MS, playMoveEvents, wait } from './moveAnimation';
+import Board from './Board';
+import { formatBoardSize, getBoardShape } from './boardShape';
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayViewerProps {
+  record: GameRecord;
+  onClose: () => void;
+}
+
+export default function ReplayViewer({ record, onClose }: ReplayViewerProps) {
+  const [replay] = useState(() => replayGame(record));
+  const [position, setPosition] = useState(0); // Number of steps played
+  const [display, setDisplay] = useState<GameState>(replay.initial);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isAnimating, setIsAnimating] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  // Each animation run gets an ID; bumping it makes a running animation stop drawing
+  const runRef = useRef(0);
+
+  const total = replay.steps.length;
+
+  const stateAt = useCallback((index: number) => {
+    return index === 0 ? replay.initial : replay.steps[index - 1].result.state;
+  }, [replay]);
+
+  // Play the next step with the same animations as the game
+  const stepForward = useCallback(async () => {
+    const step = replay.steps[position];
+    if (!step || isAnimating) return;
+
+    const run = ++runRef.current;
+    const show: Dispatch<SetStateAction<GameState>> = update => {
+      if (runRef.current === run) setDisplay(update);
+    };
+
+    setIsAnimating(true);
+    setPosition(position + 1);
+    show(await playMoveEvents(step.before.tiles, step.result, show, speed));
+    await wait(ANIMATION_CLEANUP_MS / speed);
+
+    if (runRef.current !== run) return;
+    setDisplay(step.result.state);
+    setIsAnimating(false);
+    if (position + 1 >= total) setIsPlaying(false);
+  }, [replay, position, isAnimating, speed, total]);
+
+  // Jump to a step without animation, cancelling any step in progress
+  const jumpTo = useCallback((index: number) => {
+    runRef.current++;
+    setIsPlaying(false);
+    setIsAnimating(false);
+    setPosition(index);
+    setDisplay(stateAt(index));
+  }, [stateAt]);
+
+  const togglePlaying = useCallback(() => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing from the end starts over
+    if (position >= total) jumpTo(0);
+    setIsPlaying(true);
+  }, [isPlaying, position, total, jumpTo]);
+
+  // Advance automatically while playing
+  useEffect(() => {
+    if (!isPlaying || isAnimating || position >= total) return;
+    const timeout = setTimeout(() => void stepForward(), 0);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, isAnimating, position, total, stepForward]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'Escape':
+          onClose();
+          break;
+        case ' ':
+          e.preventDefault();
+          togglePlaying();
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          void stepForward();
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          jumpTo(Math.max(0, position - 1));
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, togglePlaying, stepForward, jumpTo, position]);
+
+  const { params } = record;
+
+  return (
+    <div className="replay-viewer" role="dialog" aria-label="リプレイ">
+      <div className="replay-panel" style={{ '--replay-speed': speed } as CSSProperties}>
+        <div className="replay-header">
+          <h2>リプレイ</h2>
+          <button className="replay-close" onClick={onClose} title="Esc">×</button>
+        </div>
+        <div className="replay-rules">
+          {formatBoardSize(params)} / m={params.m} / k={params.k} / p={params.p} / Seed: {record.seed}
+        </div>
+        <div className="game-info">
+          <div className="score">Score: {display.score}</div>
+          <div className="moves">Moves: {display.moveCount}</div>
+          <div className="replay-position">{position} / {total}</div>
+        </div>
+
+        <Board
+          tiles={display.tiles}
+          shape={getBoardShape(params)}
+          hex={params.adjacency === 'hex'}
+          chainCount={display.chainCount}
+          chainPosition={display.chainPosition}
+          scorePopups={display.scorePopups}
+          className="replay-board"
+        />
+
+        {replay.divergedAt !== null && (
+          <p className="replay-warning">
+            {replay.divergedAt + 1}手目が再現できなかったため、そこまでを再生します
+          </p>
+        )}
+
+        <div className="replay-controls">
+          <button onClick={() => jumpTo(0)} disabled={position === 0} title="最初へ">⏮</button>
+          <button onClick={() => jumpTo(position - 1)} disabled={position === 0} title="1手戻る (←)">◀</button>
+          <button onClick={togglePlaying} disabled={total === 0} title="再生/一時停止 (Space)">
+            {isPlaying ? '⏸' : '▶'}
+          </button>
+          <button onClick={() => void stepForward()} disabled={position >= total || isAnimating} title="1手進む (→)">▶▶</button>
+          <label className="replay-speed">
+            速度:
+            <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))}>
+              {SPEEDS.map(s => (
+                <option key={s} value={s}>×{s}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import './ScoreBreakdown.css';
+import type { ScoreEvent } from './gameEngine';
+import { getPowerBonus } from './scoring';
+
+interface ScoreBreakdownProps {
+  scores: ScoreEvent[]; // Score events of the move, in the order they happened
+  moveNumber: number;
+}
+
+const REASON_LABELS: Record<ScoreEvent['reason'], string> = {
+  division: '割り算',
+  elimination: '同値消滅',
+  factorization: '複数タイル因数分解',
+  reduction: '最大公約数で約分',
+  wildcard: 'ワイルドカード',
+  bomb: '素数爆弾',
+  gcd: 'GCDタイル',
+};
+
+const POWER_LABELS: Record<number, string> = {
+  2: '平方数',
+  3: '立方数',
+};
+
+function formatReason(score: ScoreEvent): string {
+  const reason = REASON_LABELS[score.reason];
+  if (score.powerType === null) return reason;
+  const power = POWER_LABELS[score.powerType] ?? `${score.powerType}乗数`;
+  return `${reason}（${power} 得点×${getPowerBonus(score.powerType)}）`;
+}
+
+export default function ScoreBreakdown({ scores, moveNumber }: ScoreBreakdownProps) {
+  const total = scores.reduce((sum, s) => sum + s.points, 0);
+
+  return (
+    <details className="score-breakdown">
+      <summary>スコア内訳（{moveNumber}手目: +{total}）</summary>
+      {scores.length > 0 ? (
+        <table>
+          <thead>
+            <tr>
+              <th>段階</th>
+              <th>反応</th>
+              <th>位置</th>
+              <th>得点</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scores.map((score, index) => (
+              <tr key={index}>
+                <td>{score.chainStep === 0 ? 'スライド' : `${score.chainStep}連鎖`}</td>
+                <td>{formatReason(score)}</td>
+                <td>{score.row + 1}行{score.col + 1}列</td>
+                <td className="score-breakdown-points">
+                  {score.multiplier > 1 ? `${score.points / score.multiplier} ×${score.multiplier} = ` : ''}
+                  +{score.points}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="score-breakdown-empty">この手では得点がありません</p>
+      )}
+    </details>
+  );
+}
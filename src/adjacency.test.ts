@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { getAdjacency, getSwipeDirection, isAdjacencyId, isDirection } from './adjacency';
+
+const byCell = (a: { row: number; col: number }, b: { row: number; col: number }) => a.row - b.row || a.col - b.col;
+
+describe('getAdjacency', () => {
+  it('should default to the four orthogonal neighbours', () => {
+    const adjacency = getAdjacency();
+
+    expect(adjacency.id).toBe('orthogonal');
+    expect(adjacency.neighbours(1, 1).sort(byCell)).toEqual([
+      { row: 0, col: 1 }, { row: 1, col: 0 }, { row: 1, col: 2 }, { row: 2, col: 1 },
+    ]);
+  });
+
+  it('should add the corners for diagonal adjacency but still slide four ways', () => {
+    const adjacency = getAdjacency('diagonal');
+
+    expect(adjacency.neighbours(1, 1)).toHaveLength(8);
+    expect(adjacency.neighbours(1, 1)).toContainEqual({ row: 0, col: 0 });
+    expect(adjacency.directions).toEqual(['up', 'down', 'left', 'right']);
+  });
+
+  it('should shift the diagonal neighbours of odd hex rows to the right', () => {
+    const hex = getAdjacency('hex');
+
+    expect(hex.neighbours(0, 1).sort(byCell)).toEqual([
+      { row: -1, col: 0 }, { row: -1, col: 1 }, { row: 0, col: 0 }, { row: 0, col: 2 }, { row: 1, col: 0 }, { row: 1, col: 1 },
+    ]);
+    expect(hex.neighbours(1, 1).sort(byCell)).toEqual([
+      { row: 0, col: 1 }, { row: 0, col: 2 }, { row: 1, col: 0 }, { row: 1, col: 2 }, { row: 2, col: 1 }, { row: 2, col: 2 },
+    ]);
+  });
+
+  it('should map letter keys to the hex directions', () => {
+    const hex = getAdjacency('hex');
+
+    expect(hex.keys.q).toBe('upLeft');
+    expect(hex.keys.c).toBe('downRight');
+    expect(hex.keys.ArrowUp).toBeUndefined();
+  });
+});
+
+describe('getSwipeDirection', () => {
+  it('should pick the nearest of the four directions on a square grid', () => {
+    const adjacency = getAdjacency();
+
+    expect(getSwipeDirection(adjacency, 30, -5)).toBe('right');
+    expect(getSwipeDirection(adjacency, -10, 40)).toBe('down');
+  });
+
+  it('should pick the nearest of the six directions on a hex grid', () => {
+    const hex = getAdjacency('hex');
+
+    expect(getSwipeDirection(hex, -20, -35)).toBe('upLeft');
+    expect(getSwipeDirection(hex, 20, 35)).toBe('downRight');
+    expect(getSwipeDirection(hex, 40, 2)).toBe('right');
+  });
+});
+
+describe('isAdjacencyId and isDirection', () => {
+  it('should accept only known values', () => {
+    expect(isAdjacencyId('hex')).toBe(true);
+    expect(isAdjacencyId('toString')).toBe(false);
+    expect(isDirection('downLeft')).toBe(true);
+    expect(isDirection('north')).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Adjacency - Which cells neighbour each other, and which ways tiles slide
+ *
+ * - orthogonal: the four cells above, below, left and right (the original game)
+ * - diagonal: all eight surrounding cells react; tiles still slide four ways
+ * - hex: a hex grid stored as rows, every odd row drawn half a cell to the
+ *   right; each cell has six neighbours and tiles slide in those six directions
+ *
+ * Chain reactions and multi-tile factorization look at the neighbours of the
+ * adjacency, so a tile can be factored by up to 8 (diagonal) or 6 (hex)
+ * partners at once. The adjacency is a game parameter (orthogonal when unset).
+ */
+
+import type { Direction, Position } from './types';
+
+export type AdjacencyId = 'orthogonal' | 'diagonal' | 'hex';
+
+export interface Adjacency {
+  id: AdjacencyId;
+  label: string;
+  directions: Direction[]; // Ways tiles can slide
+  keys: Record<string, Direction>; // Keyboard keys (KeyboardEvent.key) for each slide direction
+  neighbours(row: number, col: number): Position[]; // Cells whose tiles react with a tile on this cell
+  step(row: number, col: number, direction: Direction): Position; // Next cell when sliding one step
+}
+
+export const DEFAULT_ADJACENCY: AdjacencyId = 'orthogonal';
+
+// Every direction any adjacency slides in
+export const ALL_DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right', 'upLeft', 'upRight', 'downLeft', 'downRight'];
+
+const GRID_DELTAS: Record<Direction, { dr: number; dc: number }> = {
+  up: { dr: -1, dc: 0 },
+  down: { dr: 1, dc: 0 },
+  left: { dr: 0, dc: -1 },
+  right: { dr: 0, dc: 1 },
+  upLeft: { dr: -1, dc: -1 },
+  upRight: { dr: -1, dc: 1 },
+  downLeft: { dr: 1, dc: -1 },
+  downRight: { dr: 1, dc: 1 },
+};
+
+// Angle on screen of each direction, clockwise from the right in degrees.
+// Diagonal directions are only slid on the hex grid, where they point 60° off the row.
+const SCREEN_ANGLES: Record<Direction, number> = {
+  right: 0,
+  downRight: 60,
+  down: 90,
+  downLeft: 120,
+  left: 180,
+  upLeft: 240,
+  up: 270,
+  upRight: 300,
+};
+
+const ARROW_KEYS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+function gridStep(row: number, col: number, direction: Direction): Position {
+  const { dr, dc } = GRID_DELTAS[direction];
+  return { row: row + dr, col: col + dc };
+}
+
+// On the hex grid an odd row sits half a cell right of the rows around it, so
+// the column of a diagonal neighbour depends on the row
+function hexStep(row: number, col: number, direction: Direction): Position {
+  const { dr, dc } = GRID_DELTAS[direction];
+  if (dr === 0) return { row, col: col + dc };
+  const shift = row % 2 === 0 ? (dc < 0 ? -1 : 0) : (dc < 0 ? 0 : 1);
+  return { row: row + dr, col: col + shift };
+}
+
+const ORTHOGONAL_DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+const HEX_DIRECTIONS: Direction[] = ['upLeft', 'upRight', 'left', 'right', 'downLeft', 'downRight'];
+
+export const ADJACENCIES: Record<AdjacencyId, Adjacency> = {
+  orthogonal: {
+    id: 'orthogonal',
+    label: '上下左右（4方向）',
+    directions: ORTHOGONAL_DIRECTIONS,
+    keys: ARROW_KEYS,
+    neighbours: (row, col) => ORTHOGONAL_DIRECTIONS.map(d => gridStep(row, col, d)),
+    step: gridStep,
+  },
+  diagonal: {
+    id: 'diagonal',
+    label: '斜めを含む（8方向）',
+    directions: ORTHOGONAL_DIRECTIONS,
+    keys: ARROW_KEYS,
+    neighbours: (row, col) => ALL_DIRECTIONS.map(d => gridStep(row, col, d)),
+    step: gridStep,
+  },
+  hex: {
+    id: 'hex',
+    label: '六角形（6方向）',
+    directions: HEX_DIRECTIONS,
+    keys: {
+      ArrowLeft: 'left',
+      ArrowRight: 'right',
+      q: 'upLeft',
+      e: 'upRight',
+      a: 'left',
+      d: 'right',
+      z: 'downLeft',
+      c: 'downRight',
+    },
+    neighbours: (row, col) => HEX_DIRECTIONS.map(d => hexStep(row, col, d)),
+    step: hexStep,
+  },
+};
+
+export const ADJACENCY_IDS = Object.keys(ADJACENCIES) as AdjacencyId[];
+
+export function isAdjacencyId(value: unknown): value is AdjacencyId {
+  return typeof value === 'string' && Object.hasOwn(ADJACENCIES, value);
+}
+
+export function isDirection(value: unknown): value is Direction {
+  return typeof value === 'string' && (ALL_DIRECTIONS as string[]).includes(value);
+}
+
+export function getAdjacency(id: AdjacencyId = DEFAULT_ADJACENCY): Adjacency {
+  return ADJACENCIES[id];
+}
+
+/**
+ * The slide direction closest to a drag on screen (dy grows downwards)
+ */
+export function getSwipeDirection(adjacency: Adjacency, dx: number, dy: number): Direction {
+  const angle = (Math.atan2(dy, dx) * 180 / Math.PI + 360) % 360;
+  const distance = (direction: Direction) => {
+    const diff = Math.abs(SCREEN_ANGLES[direction] - angle);
+    return Math.min(diff, 360 - diff);
+  };
+  return adjacency.directions.reduce((best, d) => distance(d) < distance(best) ? d : best);
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { chooseMove, evaluatePosition, DEFAULT_AI_OPTIONS } from './ai';
+import type { AiOptions } from './ai';
+import { applyMove, createInitialState } from './gameEngine';
+import { getGameRecord, replayGame } from './replay';
+import type { GameState, GameParams, Tile } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7 };
+
+const FAST: AiOptions = { strategy: 'expectimax', depth: 1, rollouts: 4, spawnSamples: 1, maxNodes: 10000 };
+
+function stateWith(tiles: Tile[], overrides: Partial<GameState> = {}): GameState {
+  return {
+    tiles,
+    score: 0,
+    moveCount: 0,
+    nextTileId: 100,
+    seed: 1,
+    rngState: 1,
+    maxChain: 0,
+    isGameOver: false,
+    undosUsed: 0,
+    hintsUsed: 0,
+    moves: [],
+    fromSharedLink: false,
+    autoPlayed: false,
+    elapsedMs: 0,
+    daily: null,
+    ...overrides,
+  };
+}
+
+// 5 can be swiped into 15 along the top row, and 2 sits next to 14
+const board = stateWith([
+  { id: 1, value: 15, row: 0, col: 0 },
+  { id: 2, value: 5, row: 0, col: 3 },
+  { id: 3, value: 2, row: 2, col: 1 },
+  { id: 4, value: 14, row: 3, col: 1 },
+  { id: 5, value: 7, row: 3, col: 3 },
+]);
+
+// Check the rules the merge logic must never break
+function expectValidBoard(state: GameState, params: GameParams) {
+  const cells = new Set(state.tiles.map(t => `${t.row},${t.col}`));
+  const ids = new Set(state.tiles.map(t => t.id));
+
+  expect(cells.size).toBe(state.tiles.length);
+  expect(ids.size).toBe(state.tiles.length);
+  for (const tile of state.tiles) {
+    expect(Number.isInteger(tile.value) && tile.value > 1).toBe(true);
+    expect(tile.row >= 0 && tile.row < params.n && tile.col >= 0 && tile.col < params.n).toBe(true);
+    expect(tile.id).toBeLessThan(state.nextTileId);
+  }
+}
+
+describe('chooseMove', () => {
+  it('should take an immediately scoring move', () => {
+    const move = chooseMove(board, PARAMS, FAST)!;
+
+    const result = applyMove(board, move.direction, move.tileId, PARAMS, () => 0);
+    expect(result.state.score).toBe(29);
+  });
+
+  it('should choose the same move for the same position', () => {
+    const state = createInitialState({ ...PARAMS, m: 6 }, 77);
+
+    expect(chooseMove(state, PARAMS, DEFAULT_AI_OPTIONS)).toEqual(chooseMove(state, PARAMS, DEFAULT_AI_OPTIONS));
+  });
+
+  it('should return a legal move with the Monte Carlo strategy', () => {
+    const state = createInitialState({ ...PARAMS, m: 6 }, 77);
+
+    const move = chooseMove(state, PARAMS, { ...FAST, strategy: 'montecarlo', depth: 3 })!;
+
+    expect(applyMove(state, move.direction, move.tileId, PARAMS).moved).toBe(true);
+  });
+
+  it('should settle for the last search that fit in the node budget', () => {
+    const state = createInitialState({ ...PARAMS, m: 8 }, 77);
+    const deep: AiOptions = { ...DEFAULT_AI_OPTIONS, depth: 4 };
+
+    // With no budget to spare, only the one-ply search counts
+    expect(chooseMove(state, PARAMS, { ...deep, maxNodes: 1 })).toEqual(chooseMove(state, PARAMS, { ...deep, depth: 1 }));
+    // A deep search still answers within the default budget
+    const move = chooseMove(state, PARAMS, deep)!;
+    expect(applyMove(state, move.direction, move.tileId, PARAMS).moved).toBe(true);
+  });
+
+  it('should play fewer rollouts when they do not fit in the node budget', () => {
+    const state = createInitialState({ ...PARAMS, m: 8 }, 77);
+    const options: AiOptions = { ...DEFAULT_AI_OPTIONS, strategy: 'montecarlo', depth: 4, rollouts: 500 };
+
+    expect(chooseMove(state, PARAMS, { ...options, maxNodes: 1 })).toEqual(chooseMove(state, PARAMS, { ...options, rollouts: 1 }));
+  });
+
+  it('should return null when the game is over', () => {
+    expect(chooseMove(stateWith([], { isGameOver: true }), PARAMS, FAST)).toBeNull();
+  });
+});
+
+describe('evaluatePosition', () => {
+  it('should value free cells and penalize a finished game', () => {
+    const empty = stateWith([], { score: 10 });
+
+    expect(evaluatePosition(empty, PARAMS)).toBeGreaterThan(evaluatePosition(board, PARAMS));
+    expect(evaluatePosition({ ...empty, isGameOver: true }, PARAMS)).toBeLessThan(evaluatePosition(empty, PARAMS));
+  });
+});
+
+// The AI doubles as a stress test: whole games must keep the board consistent
+describe('AI self-play', () => {
+  it.each([11, 2024, 31337])('should keep the board valid through a game with seed %i', (seed) => {
+    const params = { ...PARAMS, k: 2 };
+    let state = createInitialState(params, seed);
+
+    for (let i = 0; i < 120 && !state.isGameOver; i++) {
+      const move = chooseMove(state, params, FAST);
+      expect(move).not.toBeNull();
+
+      const result = applyMove(state, move!.direction, move!.tileId, params);
+      expect(result.moved).toBe(true);
+      expect(result.state.score).toBeGreaterThanOrEqual(state.score);
+      state = result.state;
+      expectValidBoard(state, params);
+    }
+
+    const replay = replayGame(getGameRecord(params, state)!);
+    expect(replay.steps[replay.steps.length - 1].result.state).toEqual(state);
+  });
+});
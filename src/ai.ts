@@ -0,0 +1,236 @@
+/**
+ * AI Player - Chooses moves by searching over moves and random spawns
+ *
+ * Two strategies are available:
+ * - expectimax: tries every move, then whole-board moves to a fixed depth;
+ *   after a move that spawns a tile, the outcome is averaged over sampled
+ *   spawns
+ * - montecarlo: plays random games (rollouts) after each candidate move and
+ *   picks the move with the best average result
+ *
+ * Every search is limited to maxNodes applied moves, so the worker always
+ * answers. Expectimax deepens one ply at a time and keeps the choice of the
+ * deepest search that finished within the budget (depth 1 always does); Monte
+ * Carlo plays fewer rollouts when all of them would not fit.
+ *
+ * Spawns are sampled by injecting the AI's own random source into the move
+ * engine, so they follow exactly the distribution of generateRandomTileValue
+ * and never advance the game's RNG. The AI's generator is seeded from the
+ * game state, so the same position always gets the same move.
+ */
+
+import type { GameState, GameParams } from './types';
+import { applyMove, listMoves } from './gameEngine';
+import type { PlayerMove } from './gameEngine';
+import { getEmptyPositions } from './gameLogic';
+import { getBoardShape } from './boardShape';
+import { getAdjacency } from './adjacency';
+import type { RandomSource } from './gameLogic';
+import { createSeededRandom } from './random';
+
+export type AiStrategy = 'expectimax' | 'montecarlo';
+
+export interface AiOptions {
+  strategy: AiStrategy;
+  depth: number; // expectimax: moves to look ahead; montecarlo: moves per rollout
+  rollouts: number; // montecarlo: random games played per candidate move
+  spawnSamples: number; // expectimax: spawns sampled after each move that spawns a tile
+  maxNodes: number; // Moves the search may apply before it settles for what it has
+}
+
+export const DEFAULT_AI_OPTIONS: AiOptions = {
+  strategy: 'expectimax',
+  depth: 2,
+  rollouts: 20,
+  spawnSamples: 3,
+  maxNodes: 10000,
+};
+
+// Messages exchanged with ai.worker.ts
+export interface AiRequest {
+  id: number;
+  state: GameState;
+  params: GameParams;
+  options: AiOptions;
+}
+
+export interface AiResponse {
+  id: number;
+  move: PlayerMove | null;
+}
+
+// Heuristic weights: free cells keep the game alive, a finished game is a loss
+const EMPTY_CELL_WEIGHT = 5;
+const GAME_OVER_PENALTY = 1000;
+
+/**
+ * Heuristic value of a position
+ */
+export function evaluatePosition(state: GameState, params: GameParams): number {
+  const empty = getEmptyPositions(state.tiles, getBoardShape(params)).length;
+  return state.score + EMPTY_CELL_WEIGHT * empty - (state.isGameOver ? GAME_OVER_PENALTY : 0);
+}
+
+// Moves a search may still apply; once none are left, positions are evaluated
+// as they are and the search is marked as cut short
+interface SearchBudget {
+  nodes: number;
+  exhausted: boolean;
+}
+
+// Whether applying this move spawns a tile, in which case the result depends on the random source
+function spawnsTile(result: ReturnType<typeof applyMove>): boolean {
+  return result.events.some(e => e.type === 'spawn');
+}
+
+function applyCounted(
+  state: GameState,
+  move: PlayerMove,
+  params: GameParams,
+  random: RandomSource,
+  budget: SearchBudget
+): ReturnType<typeof applyMove> {
+  budget.nodes--;
+  return applyMove(state, move.direction, move.tileId, params, random);
+}
+
+// Below the root only whole-board moves are searched: single-tile swipes
+// would multiply every ply by the number of tiles
+function expectimax(
+  state: GameState,
+  depth: number,
+  params: GameParams,
+  options: AiOptions,
+  random: RandomSource,
+  budget: SearchBudget
+): number {
+  if (depth === 0 || state.isGameOver) return evaluatePosition(state, params);
+  if (budget.nodes <= 0) {
+    budget.exhausted = true;
+    return evaluatePosition(state, params);
+  }
+
+  let best = -Infinity;
+  for (const direction of getAdjacency(params.adjacency).directions) {
+    const value = expectMove(state, { direction }, depth, params, options, random, budget);
+    if (value !== null && value > best) best = value;
+  }
+  return best === -Infinity ? evaluatePosition(state, params) : best;
+}
+
+// Expected value of a move: averaged over sampled spawns when the move spawns a tile
+// Returns null when the move changes nothing
+function expectMove(
+  state: GameState,
+  move: PlayerMove,
+  depth: number,
+  params: GameParams,
+  options: AiOptions,
+  random: RandomSource,
+  budget: SearchBudget
+): number | null {
+  const first = applyCounted(state, move, params, random, budget);
+  if (!first.moved) return null;
+
+  if (!spawnsTile(first)) {
+    return expectimax(first.state, depth - 1, params, options, random, budget);
+  }
+
+  let total = expectimax(first.state, depth - 1, params, options, random, budget);
+  for (let i = 1; i < options.spawnSamples; i++) {
+    const sample = applyCounted(state, move, params, random, budget);
+    total += expectimax(sample.state, depth - 1, params, options, random, budget);
+  }
+  return total / Math.max(1, options.spawnSamples);
+}
+
+// Play up to depth random whole-board moves and evaluate where the game ends up
+function rollout(
+  state: GameState,
+  depth: number,
+  params: GameParams,
+  random: RandomSource
+): number {
+  const { directions } = getAdjacency(params.adjacency);
+  let current = state;
+  for (let i = 0; i < depth && !current.isGameOver; i++) {
+    const start = Math.floor(random() * directions.length);
+    let moved = false;
+    for (let j = 0; j < directions.length && !moved; j++) {
+      const direction = directions[(start + j) % directions.length];
+      const result = applyMove(current, direction, undefined, params, random);
+      if (result.moved) {
+        current = result.state;
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+  return evaluatePosition(current, params);
+}
+
+function monteCarlo(
+  state: GameState,
+  move: PlayerMove,
+  params: GameParams,
+  rollouts: number,
+  depth: number,
+  random: RandomSource
+): number | null {
+  if (!applyMove(state, move.direction, move.tileId, params, random).moved) return null;
+
+  let total = 0;
+  for (let i = 0; i < rollouts; i++) {
+    const result = applyMove(state, move.direction, move.tileId, params, random);
+    total += rollout(result.state, depth, params, random);
+  }
+  return total / rollouts;
+}
+
+// Best of the candidate moves by the given value; null values are moves that change nothing
+function pickBest(moves: PlayerMove[], valueOf: (move: PlayerMove) => number | null): PlayerMove | null {
+  let best: PlayerMove | null = null;
+  let bestValue = -Infinity;
+  for (const move of moves) {
+    const value = valueOf(move);
+    // Strictly better only, so whole-board moves win ties
+    if (value !== null && value > bestValue) {
+      best = move;
+      bestValue = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Choose the next move for the given position
+ * Returns null when no move is possible
+ */
+export function chooseMove(
+  state: GameState,
+  params: GameParams,
+  options: AiOptions = DEFAULT_AI_OPTIONS
+): PlayerMove | null {
+  if (state.isGameOver) return null;
+
+  const { random } = createSeededRandom((state.rngState ^ 0x9e3779b9) >>> 0);
+  const depth = Math.max(1, options.depth);
+  const moves = listMoves(state, params);
+
+  if (options.strategy === 'montecarlo') {
+    // Each rollout applies the candidate move and up to depth moves after it
+    const affordable = Math.floor(options.maxNodes / (moves.length * (depth + 1)));
+    const rollouts = Math.max(1, Math.min(options.rollouts, affordable));
+    return pickBest(moves, move => monteCarlo(state, move, params, rollouts, depth, random));
+  }
+
+  // Deepen one ply at a time; a search cut short by the budget is discarded
+  const budget: SearchBudget = { nodes: options.maxNodes, exhausted: false };
+  let best = pickBest(moves, move => expectMove(state, move, 1, params, options, random, budget));
+  for (let d = 2; d <= depth && budget.nodes > 0; d++) {
+    const deeper = pickBest(moves, move => expectMove(state, move, d, params, options, random, budget));
+    if (budget.exhausted) break;
+    best = deeper;
+  }
+  return best;
+}
@@ -0,0 +1,12 @@
+/**
+ * AI Worker - Runs the move search off the main thread so the UI stays responsive
+ */
+
+import { chooseMove } from './ai';
+import type { AiRequest, AiResponse } from './ai';
+
+self.onmessage = (event: MessageEvent<AiRequest>) => {
+  const { id, state, params, options } = event.data;
+  const response: AiResponse = { id, move: chooseMove(state, params, options) };
+  self.postMessage(response);
+};
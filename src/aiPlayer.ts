@@ -0,0 +1,55 @@
+/**
+ * AI Player Client - Requests moves from the AI worker
+ *
+ * Requests are answered in order; a request's promise resolves with null if
+ * the worker fails. Where workers are unavailable (e.g. tests), the search
+ * runs on the calling thread instead.
+ */
+
+import type { GameState, GameParams } from './types';
+import type { PlayerMove } from './gameEngine';
+import { chooseMove } from './ai';
+import type { AiOptions, AiRequest, AiResponse } from './ai';
+
+export interface AiPlayer {
+  requestMove(state: GameState, params: GameParams, options: AiOptions): Promise<PlayerMove | null>;
+  dispose(): void;
+}
+
+export function createAiPlayer(): AiPlayer {
+  if (typeof Worker === 'undefined') {
+    return {
+      requestMove: async (state, params, options) => chooseMove(state, params, options),
+      dispose: () => {},
+    };
+  }
+
+  const worker = new Worker(new URL('./ai.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, (move: PlayerMove | null) => void>();
+  let nextId = 0;
+
+  worker.onmessage = (event: MessageEvent<AiResponse>) => {
+    pending.get(event.data.id)?.(event.data.move);
+    pending.delete(event.data.id);
+  };
+  worker.onerror = (event) => {
+    console.error('AI worker failed:', event.message);
+    pending.forEach(resolve => resolve(null));
+    pending.clear();
+  };
+
+  return {
+    requestMove(state, params, options) {
+      const request: AiRequest = { id: nextId++, state, params, options };
+      return new Promise(resolve => {
+        pending.set(request.id, resolve);
+        worker.postMessage(request);
+      });
+    },
+    dispose() {
+      worker.terminate();
+      pending.forEach(resolve => resolve(null));
+      pending.clear();
+    },
+  };
+}
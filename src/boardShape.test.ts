@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countOpenCells,
+  findWallPreset,
+  formatBoardSize,
+  getBoardShape,
+  getWallPreset,
+  isOpenCell,
+  withBoardShape,
+} from './boardShape';
+import type { GameParams } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7 };
+
+describe('getBoardShape', () => {
+  it('should read a plain board as n × n without walls', () => {
+    expect(getBoardShape(PARAMS)).toEqual({ width: 4, height: 4, blocked: [] });
+  });
+
+  it('should use width, height and walls when given', () => {
+    const shape = getBoardShape({ ...PARAMS, n: 5, width: 5, height: 3, blocked: [{ row: 1, col: 2 }] });
+
+    expect(shape).toEqual({ width: 5, height: 3, blocked: [{ row: 1, col: 2 }] });
+    expect(countOpenCells(shape)).toBe(14);
+  });
+});
+
+describe('isOpenCell', () => {
+  const shape = { width: 5, height: 3, blocked: [{ row: 1, col: 2 }] };
+
+  it('should reject cells outside the board and walls', () => {
+    expect(isOpenCell(shape, 2, 4)).toBe(true);
+    expect(isOpenCell(shape, 3, 0)).toBe(false);
+    expect(isOpenCell(shape, 0, 5)).toBe(false);
+    expect(isOpenCell(shape, -1, 0)).toBe(false);
+    expect(isOpenCell(shape, 1, 2)).toBe(false);
+  });
+});
+
+describe('withBoardShape', () => {
+  it('should keep a plain square as n alone', () => {
+    const params = withBoardShape({ ...PARAMS, width: 5, height: 3, blocked: [{ row: 0, col: 0 }] }, 6, 6);
+
+    expect(params).toEqual({ ...PARAMS, n: 6 });
+  });
+
+  it('should set width, height and sorted walls otherwise', () => {
+    const params = withBoardShape(PARAMS, 5, 3, [{ row: 2, col: 0 }, { row: 0, col: 4 }]);
+
+    expect(params).toEqual({
+      ...PARAMS,
+      n: 5,
+      width: 5,
+      height: 3,
+      blocked: [{ row: 0, col: 4 }, { row: 2, col: 0 }],
+    });
+  });
+});
+
+describe('wall presets', () => {
+  it('should block the corners or the middle of the board', () => {
+    expect(getWallPreset('corners', 5, 3)).toEqual([
+      { row: 0, col: 0 }, { row: 0, col: 4 }, { row: 2, col: 0 }, { row: 2, col: 4 },
+    ]);
+    expect(getWallPreset('center', 5, 3)).toEqual([{ row: 1, col: 2 }]);
+    expect(getWallPreset('center', 4, 3)).toEqual([{ row: 1, col: 1 }, { row: 1, col: 2 }]);
+  });
+
+  it('should find the preset a board was made with', () => {
+    expect(findWallPreset(PARAMS)).toBe('none');
+    expect(findWallPreset(withBoardShape(PARAMS, 5, 3, getWallPreset('corners', 5, 3)))).toBe('corners');
+    expect(findWallPreset({ ...PARAMS, blocked: [{ row: 0, col: 1 }] })).toBeNull();
+  });
+});
+
+describe('formatBoardSize', () => {
+  it('should show the size and the number of walls', () => {
+    expect(formatBoardSize(PARAMS)).toBe('4×4');
+    expect(formatBoardSize({ ...PARAMS, n: 5, width: 5, height: 3, blocked: [{ row: 1, col: 2 }] })).toBe('5×3 (壁1)');
+  });
+});
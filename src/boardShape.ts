@@ -0,0 +1,119 @@
+/**
+ * Board Shape - Rectangular boards with wall cells
+ *
+ * A board is params.n × params.n unless width and height say otherwise, and
+ * may have blocked (wall) cells. A wall holds no tile: tiles stop in front of
+ * it like at the edge of the board, and no tile is ever spawned onto it.
+ * Since only open cells hold tiles, adjacency never reaches through a wall.
+ *
+ * A square board without walls keeps only n in its params, so it is saved,
+ * linked and ranked exactly as before shapes existed.
+ */
+
+import type { GameParams, Position } from './types';
+
+export type BoardParams = Pick<GameParams, 'n' | 'width' | 'height' | 'blocked'>;
+
+export interface BoardShape {
+  width: number; // Columns
+  height: number; // Rows
+  blocked: Position[]; // Wall cells
+}
+
+// Board sizes (rows and columns) offered in the settings
+export const MIN_BOARD_SIZE = 3;
+export const MAX_BOARD_SIZE = 8;
+
+export type WallPresetId = 'none' | 'corners' | 'center';
+
+export const WALL_PRESET_LABELS: Record<WallPresetId, string> = {
+  none: 'なし',
+  corners: '四隅',
+  center: '中央',
+};
+
+export function getBoardShape(params: BoardParams): BoardShape {
+  return {
+    width: params.width ?? params.n,
+    height: params.height ?? params.n,
+    blocked: params.blocked ?? [],
+  };
+}
+
+/**
+ * A cell a tile may occupy: inside the board and not a wall
+ */
+export function isOpenCell(shape: BoardShape, row: number, col: number): boolean {
+  return row >= 0 && row < shape.height && col >= 0 && col < shape.width
+    && !shape.blocked.some(cell => cell.row === row && cell.col === col);
+}
+
+export function countOpenCells(shape: BoardShape): number {
+  return shape.width * shape.height - shape.blocked.length;
+}
+
+/**
+ * Set the size and walls of a board, keeping a plain square as n alone
+ * Walls are listed row by row
+ */
+export function withBoardShape<T extends BoardParams>(
+  params: T,
+  width: number,
+  height: number,
+  blocked: Position[] = []
+): T {
+  const next: T = {
+    ...params,
+    n: width,
+    width,
+    height,
+    blocked: [...blocked].sort((a, b) => a.row - b.row || a.col - b.col),
+  };
+  if (width === height) {
+    delete next.width;
+    delete next.height;
+  }
+  if (blocked.length === 0) delete next.blocked;
+  return next;
+}
+
+/**
+ * Walls of a preset shape on a width × height board
+ * The center preset blocks the middle cell, or the middle 2×2 on even sizes
+ */
+export function getWallPreset(id: WallPresetId, width: number, height: number): Position[] {
+  switch (id) {
+    case 'none':
+      return [];
+    case 'corners':
+      return [
+        { row: 0, col: 0 },
+        { row: 0, col: width - 1 },
+        { row: height - 1, col: 0 },
+        { row: height - 1, col: width - 1 },
+      ];
+    case 'center': {
+      const rows = height % 2 === 0 ? [height / 2 - 1, height / 2] : [(height - 1) / 2];
+      const cols = width % 2 === 0 ? [width / 2 - 1, width / 2] : [(width - 1) / 2];
+      return rows.flatMap(row => cols.map(col => ({ row, col })));
+    }
+  }
+}
+
+/**
+ * The preset a board's walls match, or null for walls of any other layout
+ */
+export function findWallPreset(params: BoardParams): WallPresetId | null {
+  const { width, height, blocked } = getBoardShape(params);
+  const key = (cells: Position[]) => cells.map(c => `${c.row},${c.col}`).sort().join(';');
+  const ids = Object.keys(WALL_PRESET_LABELS) as WallPresetId[];
+  return ids.find(id => key(getWallPreset(id, width, height)) === key(blocked)) ?? null;
+}
+
+/**
+ * Size of a board as shown to players, e.g. "4×4" or "5×3 (壁2)"
+ */
+export function formatBoardSize(params: BoardParams): string {
+  const { width, height, blocked } = getBoardShape(params);
+  return blocked.length > 0 ? `${width}×${height} (壁${blocked.length})` : `${width}×${height}`;
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import { processChainReactions } from './chainReactionLogic';
+import { getScoringRules } from './scoring';
+import type { Tile } from './types';
+
+describe('chain reaction records', () => {
+  it('should record a multi-tile factorization at the center tile', () => {
+    // Smaller factors would divide the center one by one, so use equal tiles:
+    // 4 = 2 × 2 with each factor taken from an adjacent 4
+    const tiles: Tile[] = [
+      { id: 1, value: 4, row: 1, col: 1 },
+      { id: 2, value: 4, row: 0, col: 1 },
+      { id: 3, value: 4, row: 1, col: 0 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(result.chainReactions[0]).toEqual([
+      { type: 'factorization', row: 1, col: 1, powerType: null, score: result.scoreGained, multiplier: 1 },
+    ]);
+  });
+
+  it('should record the power type of an equal-value elimination', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 9, row: 0, col: 0 },
+      { id: 2, value: 9, row: 0, col: 1 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(result.chainReactions).toEqual([
+      [{ type: 'elimination', row: 0, col: 0, powerType: 2, score: 36, multiplier: 1 }],
+    ]);
+  });
+
+  it('should record 64 as a 6th power with its bonus', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 64, row: 0, col: 0 },
+      { id: 2, value: 64, row: 0, col: 1 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(result.chainReactions[0][0]).toMatchObject({ type: 'elimination', powerType: 6, score: 768 });
+    expect(result.chainSteps[0].every(t => t.powerType === 6 && t.isPowerEliminating)).toBe(true);
+  });
+
+  it('should record one list of reactions per chain step with the step multiplier', () => {
+    // 3 divides 15 into 5, which then eliminates the adjacent 5
+    const tiles: Tile[] = [
+      { id: 1, value: 3, row: 0, col: 0 },
+      { id: 2, value: 15, row: 0, col: 1 },
+      { id: 3, value: 5, row: 0, col: 2 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(result.chainReactions).toHaveLength(result.chainSteps.length);
+    expect(result.chainReactions.map(step => step.map(r => r.type))).toEqual([['division'], ['elimination']]);
+    expect(result.chainReactions[1][0]).toMatchObject({ multiplier: 2, score: 20 });
+    expect(result.chainReactions.flat().reduce((sum, r) => sum + r.score, 0)).toBe(result.scoreGained);
+  });
+
+  it('should score every step with the given scoring rules', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 3, row: 0, col: 0 },
+      { id: 2, value: 15, row: 0, col: 1 },
+      { id: 3, value: 5, row: 0, col: 2 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10, getScoringRules('primeCount'));
+
+    // 15 has two prime factors; then each 5 has one, doubled on the second step
+    expect(result.chainReactions.flat().map(r => r.score)).toEqual([20, 40]);
+    expect(result.scoreGained).toBe(60);
+  });
+});
+
+describe('large primes', () => {
+  it('should divide and eliminate products of primes near 97 exactly', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 97, row: 0, col: 0 },
+      { id: 2, value: 97 * 89 * 83, row: 0, col: 1 },
+      { id: 3, value: 89 * 83, row: 0, col: 2 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(result.tiles).toEqual([]);
+    expect(result.chainReactions.map(step => step.map(r => r.type))).toEqual([['division'], ['elimination']]);
+  });
+
+  it('should find the square of a large product', () => {
+    const value = (97 * 89 * 83) ** 2; // Over 500 billion
+    const tiles: Tile[] = [
+      { id: 1, value, row: 0, col: 0 },
+      { id: 2, value, row: 1, col: 0 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(result.chainReactions[0][0]).toMatchObject({ type: 'elimination', powerType: 2 });
+  });
+});
+
+describe('special tiles', () => {
+  const values = (tiles: Tile[]) => tiles.map(t => ({ value: t.value, row: t.row, col: t.col, kind: t.kind }));
+
+  it('should divide the largest neighbour of a wildcard by its largest prime factor', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 30, row: 0, col: 0 },
+      { id: 2, value: 1, row: 0, col: 1, kind: 'wildcard' },
+      { id: 3, value: 14, row: 0, col: 2 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(values(result.tiles)).toEqual([
+      { value: 6, row: 0, col: 0, kind: undefined },
+      { value: 14, row: 0, col: 2, kind: undefined },
+    ]);
+    expect(result.chainReactions).toEqual([
+      [{ type: 'wildcard', row: 0, col: 1, powerType: null, score: 30, multiplier: 1 }],
+    ]);
+  });
+
+  it('should strip the largest prime factor from every neighbour of a bomb', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 1, row: 1, col: 1, kind: 'bomb' },
+      { id: 2, value: 30, row: 0, col: 1 },
+      { id: 3, value: 7, row: 1, col: 0 },
+      { id: 4, value: 12, row: 1, col: 2 },
+      { id: 5, value: 25, row: 2, col: 1 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(values(result.tiles).sort((a, b) => a.row - b.row || a.col - b.col)).toEqual([
+      { value: 6, row: 0, col: 1, kind: undefined },
+      { value: 4, row: 1, col: 2, kind: undefined },
+      { value: 5, row: 2, col: 1, kind: undefined },
+    ]);
+    expect(result.chainReactions[0]).toEqual([
+      { type: 'bomb', row: 1, col: 1, powerType: null, score: 30 + 7 + 12 + 25, multiplier: 1 },
+    ]);
+  });
+
+  it('should divide the neighbours of a GCD tile by their shared factor', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 6, row: 0, col: 1, kind: 'gcd' },
+      { id: 2, value: 10, row: 0, col: 0 },
+      { id: 3, value: 35, row: 0, col: 2 },
+      { id: 4, value: 9, row: 1, col: 1 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(values(result.tiles).sort((a, b) => a.row - b.row || a.col - b.col)).toEqual([
+      { value: 5, row: 0, col: 0, kind: undefined },
+      { value: 35, row: 0, col: 2, kind: undefined },
+      { value: 3, row: 1, col: 1, kind: undefined },
+    ]);
+    expect(result.chainReactions.flat().map(r => r.type)).toEqual(['gcd']);
+  });
+
+  it('should never merge a special tile like a value', () => {
+    // 5 divides 15 and two wildcards are equal, but special tiles only act by their own rule
+    const tiles: Tile[] = [
+      { id: 1, value: 5, row: 0, col: 0, kind: 'gcd' },
+      { id: 2, value: 15, row: 0, col: 1 },
+      { id: 3, value: 1, row: 2, col: 2, kind: 'wildcard' },
+      { id: 4, value: 1, row: 2, col: 3, kind: 'wildcard' },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(result.chainReactions.flat().map(r => r.type)).toEqual(['gcd']);
+    expect(values(result.tiles)).toContainEqual({ value: 3, row: 0, col: 1, kind: undefined });
+    expect(result.tiles.filter(t => t.kind === 'wildcard')).toHaveLength(2);
+  });
+
+  it('should keep a special tile with nothing to reduce', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 6, row: 0, col: 0, kind: 'gcd' },
+      { id: 2, value: 35, row: 0, col: 1 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(result.chainCount).toBe(0);
+    expect(result.tiles).toEqual(tiles);
+  });
+
+  it('should unlock a locked tile once a neighbour merges with it', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 15, row: 0, col: 0, kind: 'locked' },
+      { id: 2, value: 5, row: 0, col: 1 },
+      { id: 3, value: 35, row: 3, col: 3, kind: 'locked' },
+    ];
+
+    const result = processChainReactions(tiles, 1, 10);
+
+    expect(values(result.tiles)).toEqual([
+      { value: 3, row: 0, col: 0, kind: undefined },
+      { value: 35, row: 3, col: 3, kind: 'locked' },
+    ]);
+  });
+});
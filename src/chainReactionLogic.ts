@@ -6,28 +6,47 @@
  */
 
 import type { Tile } from './types';
-import { isDivisor, checkPerfectPowerElimination, checkEqualValueElimination, checkMultiTileFactorization } from './gameLogic';
+import { isDivisor, checkPerfectPowerElimination, checkEqualValueElimination, checkMultiTileFactorization, gcd, largestPrimeFactor } from './gameLogic';
+import type { PowerType } from './gameLogic';
 import { createCleanTile } from './utils/tileHelpers';
+import { getScoringRules, scoreDivision, scoreElimination, scoreFactorization, scoreReduction } from './scoring';
+import type { ScoringRules } from './scoring';
+import { getAdjacency } from './adjacency';
+import type { Adjacency } from './adjacency';
+import { isActionTile } from './specialTiles';
+import type { ActionTileKind } from './specialTiles';
+import { getMergeRule } from './mergeRules';
+import type { MergeRule } from './mergeRules';
 
 /**
- * Get all tiles adjacent to a given tile
+ * One reaction within a chain iteration, positioned at the tile that reacted
+ * - factorization: a tile divided by two or more adjacent factors at once
+ * - elimination: two equal tiles removed each other (powerType set to the exponent
+ *   of a perfect power)
+ * - division: a tile divided an adjacent multiple
+ * - reduction: two tiles sharing a factor were both divided by it (gcd merge rule)
+ * - wildcard, bomb, gcd: a special tile reduced its neighbours and vanished
+ */
+export interface ChainReaction {
+  type: 'factorization' | 'elimination' | 'division' | 'reduction' | ActionTileKind;
+  row: number;
+  col: number;
+  powerType: PowerType | null;
+  score: number; // Points including the chain multiplier
+  multiplier: number;
+}
+
+/**
+ * Get all tiles adjacent to a given tile under the game's adjacency
  */
 function getAdjacentTiles(
   tile: { row: number; col: number },
-  allTiles: Tile[]
+  allTiles: Tile[],
+  adjacency: Adjacency
 ): Tile[] {
   const adjacent: Tile[] = [];
-  const directions = [
-    { dr: -1, dc: 0 },  // up
-    { dr: 1, dc: 0 },   // down
-    { dr: 0, dc: -1 },  // left
-    { dr: 0, dc: 1 },   // right
-  ];
-
-  for (const { dr, dc } of directions) {
-    const adjRow = tile.row + dr;
-    const adjCol = tile.col + dc;
-    
+
+  for (const { row: adjRow, col: adjCol } of adjacency.neighbours(tile.row, tile.col)) {
     for (const otherTile of allTiles) {
       if (otherTile.row === adjRow && otherTile.col === adjCol) {
         adjacent.push(otherTile);
@@ -39,6 +58,29 @@ function getAdjacentTiles(
   return adjacent;
 }
 
+/**
+ * The neighbours a wildcard, bomb or GCD tile reduces, each with its divisor
+ * - wildcard: the largest neighbour, by its largest prime factor
+ * - bomb: every neighbour, by its largest prime factor
+ * - gcd: every neighbour sharing a factor with the tile, by that shared factor
+ */
+function getSpecialTargets(tile: Tile, neighbours: Tile[]): Array<{ target: Tile; divisor: number }> {
+  switch (tile.kind) {
+    case 'wildcard': {
+      const largest = [...neighbours].sort((a, b) => b.value - a.value)[0];
+      return largest ? [{ target: largest, divisor: largestPrimeFactor(largest.value) }] : [];
+    }
+    case 'bomb':
+      return neighbours.map(target => ({ target, divisor: largestPrimeFactor(target.value) }));
+    case 'gcd':
+      return neighbours
+        .map(target => ({ target, divisor: gcd(tile.value, target.value) }))
+        .filter(({ divisor }) => divisor > 1);
+    default:
+      return [];
+  }
+}
+
 /**
  * Process a single iteration of chain reactions
  * Returns: { tiles: new tile array, changed: whether any merge occurred, score: points gained }
@@ -46,8 +88,11 @@ function getAdjacentTiles(
 function processSingleIteration(
   tiles: Tile[],
   nextTileId: number,
-  chainMultiplier: number
-): { tiles: Tile[]; changed: boolean; score: number; nextTileId: number } {
+  chainMultiplier: number,
+  rules: ScoringRules,
+  adjacency: Adjacency,
+  mergeRule: MergeRule
+): { tiles: Tile[]; changed: boolean; score: number; nextTileId: number; reactions: ChainReaction[] } {
   // Sort tiles by value (smallest first) as per spec
   const sortedTiles = [...tiles].sort((a, b) => a.value - b.value);
   
@@ -56,6 +101,7 @@ function processSingleIteration(
   let changed = false;
   let scoreGained = 0;
   let currentTileId = nextTileId;
+  const reactions: ChainReaction[] = [];
 
   for (const tile of sortedTiles) {
     // Skip tiles with value 0 (already disappearing)
@@ -70,10 +116,63 @@ function processSingleIteration(
     }
 
     // Get adjacent tiles that haven't been processed and have value > 0
-    const adjacentTiles = getAdjacentTiles(tile, tiles).filter(
-      t => !processedIds.has(t.id) && t.value > 0
+    // Wildcard, bomb and GCD tiles never merge; they only act by their own rule
+    const adjacentTiles = getAdjacentTiles(tile, tiles, adjacency).filter(
+      t => !processedIds.has(t.id) && t.value > 0 && !isActionTile(t)
     );
 
+    // STEP 0: A special tile reduces its neighbours and vanishes
+    if (isActionTile(tile)) {
+      const targets = getSpecialTargets(tile, adjacentTiles);
+      if (targets.length === 0) {
+        result.push(tile);
+        continue;
+      }
+
+      changed = true;
+      processedIds.add(tile.id);
+      const specialScore = targets.reduce(
+        (sum, { target }) => sum + scoreDivision(rules, target.value, chainMultiplier),
+        0
+      );
+      scoreGained += specialScore;
+
+      result.push(createCleanTile(tile, {
+        id: currentTileId++,
+        value: 0,
+        kind: tile.kind,
+        scoreValue: tile.value,
+        isDisappearing: true,
+        isChaining: true,
+        mergeHighlight: true,
+      }));
+
+      for (const { target, divisor } of targets) {
+        processedIds.add(target.id);
+        const newValue = target.value / divisor;
+        result.push(createCleanTile(target, {
+          id: currentTileId++,
+          value: newValue === 1 ? 0 : newValue,
+          scoreValue: target.value,
+          isDisappearing: newValue === 1,
+          isChaining: true,
+          isDividing: true,
+          mergeHighlight: true,
+        }));
+      }
+
+      reactions.push({
+        type: tile.kind,
+        row: tile.row,
+        col: tile.col,
+        powerType: null,
+        score: specialScore,
+        multiplier: chainMultiplier,
+      });
+
+      continue;
+    }
+
     // STEP 1: Check for multi-tile factorization
     // Only consider adjacent tiles that DIVIDE the center (are factors)
     const factorTiles = adjacentTiles.filter(adj => isDivisor(adj.value, tile.value));
@@ -97,9 +196,13 @@ function processSingleIteration(
 
         const product = factorResult.factorTiles.reduce((acc, ft) => acc * ft.divisor, 1);
         const centerNewValue = tile.value / product;
-
-        // Score for center tile
-        scoreGained += tile.value * chainMultiplier;
+        const factorizationScore = scoreFactorization(
+          rules,
+          tile.value,
+          factorResult.factorTiles.map(ft => ft.value),
+          chainMultiplier
+        );
+        scoreGained += factorizationScore;
 
         // Update center tile
         if (centerNewValue === 1) {
@@ -130,9 +233,6 @@ function processSingleIteration(
           processedIds.add(adjacentTile.id);
           const newValue = factorTile.value / factorTile.divisor;
 
-          // Score for adjacent tile
-          scoreGained += factorTile.value * chainMultiplier;
-
           if (newValue === 1) {
             // Adjacent tile disappears
             result.push(createCleanTile(adjacentTile, {
@@ -154,6 +254,15 @@ function processSingleIteration(
           }
         }
 
+        reactions.push({
+          type: 'factorization',
+          row: tile.row,
+          col: tile.col,
+          powerType: null,
+          score: factorizationScore,
+          multiplier: chainMultiplier,
+        });
+
         continue;  // Skip regular merge checks
       }
     }
@@ -166,11 +275,10 @@ function processSingleIteration(
         processedIds.add(tile.id);
         processedIds.add(adjacentTile.id);
 
-        const mergedScore = tile.value + adjacentTile.value;
-        scoreGained += mergedScore * chainMultiplier;
-
-        // Check if they form a perfect power for animation purposes
+        // A perfect power earns its bonus and its own animation
         const powerType = checkPerfectPowerElimination(tile.value, adjacentTile.value);
+        const mergedScore = scoreElimination(rules, tile.value, adjacentTile.value, chainMultiplier, powerType);
+        scoreGained += mergedScore;
 
         // Both tiles disappear
         result.push(createCleanTile(tile, {
@@ -195,6 +303,15 @@ function processSingleIteration(
           mergeHighlight: true,
         }));
 
+        reactions.push({
+          type: 'elimination',
+          row: tile.row,
+          col: tile.col,
+          powerType,
+          score: mergedScore,
+          multiplier: chainMultiplier,
+        });
+
         break;  // Stop checking other adjacent tiles
       }
     }
@@ -221,7 +338,8 @@ function processSingleIteration(
         processedIds.add(adjacentTile.id);
 
         const newValue = adjacentTile.value / tile.value;
-        scoreGained += adjacentTile.value * chainMultiplier;
+        const mergedScore = scoreDivision(rules, adjacentTile.value, chainMultiplier);
+        scoreGained += mergedScore;
 
         // Current tile (smaller) disappears
         result.push(createCleanTile(tile, {
@@ -258,10 +376,60 @@ function processSingleIteration(
           }));
         }
 
+        reactions.push({
+          type: 'division',
+          row: adjacentTile.row,
+          col: adjacentTile.col,
+          powerType: null,
+          score: mergedScore,
+          multiplier: chainMultiplier,
+        });
+
         break;  // Only merge with one adjacent tile per iteration
       }
     }
 
+    // STEP 4: GCD reduction (gcd merge rule only)
+    // Pair with the neighbour sharing the largest factor; both tiles are divided by it
+    const reductionPartner = !processedIds.has(tile.id) && mergeRule.gcdReduction
+      ? adjacentTiles
+        .filter(adj => !processedIds.has(adj.id))
+        .map(adj => ({ adjacentTile: adj, divisor: gcd(tile.value, adj.value) }))
+        .filter(({ divisor }) => divisor > 1)
+        .sort((a, b) => b.divisor - a.divisor || b.adjacentTile.value - a.adjacentTile.value)[0]
+      : undefined;
+
+    if (reductionPartner) {
+      const { adjacentTile, divisor } = reductionPartner;
+      changed = true;
+      processedIds.add(tile.id);
+      processedIds.add(adjacentTile.id);
+
+      const reductionScore = scoreReduction(rules, tile.value, adjacentTile.value, chainMultiplier);
+      scoreGained += reductionScore;
+
+      // Earlier steps take every pair where one value divides the other, so both stay above 1
+      for (const source of [tile, adjacentTile]) {
+        result.push(createCleanTile(source, {
+          id: currentTileId++,
+          value: source.value / divisor,
+          scoreValue: source.value,
+          isChaining: true,
+          isDividing: true,
+          mergeHighlight: true,
+        }));
+      }
+
+      reactions.push({
+        type: 'reduction',
+        row: tile.row,
+        col: tile.col,
+        powerType: null,
+        score: reductionScore,
+        multiplier: chainMultiplier,
+      });
+    }
+
     // If tile wasn't processed, keep it as-is
     if (!processedIds.has(tile.id)) {
       result.push(tile);
@@ -273,28 +441,36 @@ function processSingleIteration(
     changed,
     score: scoreGained,
     nextTileId: currentTileId,
+    reactions,
   };
 }
 
 /**
  * Process complete chain reaction
  * Iterates until no more merges are possible
+ * Step i of the chain scores with chainMultiplier × rules.chainMultiplier(i)
+ * The merge rule decides whether tiles sharing a factor react (see mergeRules.ts)
  */
 export function processChainReactions(
   tiles: Tile[],
   chainMultiplier: number = 1,
-  startTileId: number
+  startTileId: number,
+  rules: ScoringRules = getScoringRules(),
+  adjacency: Adjacency = getAdjacency(),
+  mergeRule: MergeRule = getMergeRule()
 ): {
   tiles: Tile[];
   scoreGained: number;
   chainCount: number;
   chainSteps: Tile[][];
+  chainReactions: ChainReaction[][]; // Reactions of each step, parallel to chainSteps
   nextTileId: number;
 } {
   let currentTiles = tiles;
   let totalScore = 0;
   let chainCount = 0;
   const chainSteps: Tile[][] = [];
+  const chainReactions: ChainReaction[][] = [];
   let currentTileId = startTileId;
 
   // Keep iterating while changes occur
@@ -302,7 +478,10 @@ export function processChainReactions(
     const iteration = processSingleIteration(
       currentTiles,
       currentTileId,
-      chainMultiplier * Math.pow(2, chainCount)
+      chainMultiplier * rules.chainMultiplier(chainCount),
+      rules,
+      adjacency,
+      mergeRule
     );
 
     if (!iteration.changed) {
@@ -318,6 +497,7 @@ export function processChainReactions(
 
     // Store this step for animation (include all tiles, even disappearing ones)
     chainSteps.push([...currentTiles]);
+    chainReactions.push(iteration.reactions);
   }
 
   // Filter out tiles with value 0 from final result
@@ -328,6 +508,7 @@ export function processChainReactions(
     scoreGained: totalScore,
     chainCount,
     chainSteps,
+    chainReactions,
     nextTileId: currentTileId,
   };
 }
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatDailySummary,
+  getDailyKey,
+  getDailyParams,
+  getDailySeed,
+  getStreak,
+  parseDailyResults,
+  recordDailyResult,
+  DAILY_MOVE_LIMIT,
+} from './daily';
+import type { DailyResult } from './daily';
+
+const RESULT: DailyResult = { score: 120, moveCount: 50, maxChain: 3, assisted: false };
+
+describe('getDailyKey', () => {
+  it('should use the local date', () => {
+    expect(getDailyKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    expect(getDailyKey(new Date(2026, 11, 31, 0, 0))).toBe('2026-12-31');
+  });
+});
+
+describe('daily game', () => {
+  it('should give the same seed and parameters all day', () => {
+    expect(getDailySeed('2026-10-19')).toBe(getDailySeed('2026-10-19'));
+    expect(getDailyParams('2026-10-19')).toEqual(getDailyParams('2026-10-19'));
+  });
+
+  it('should change from day to day', () => {
+    const days = ['2026-10-19', '2026-10-20', '2026-10-21'];
+
+    expect(new Set(days.map(getDailySeed)).size).toBe(3);
+  });
+
+  it('should always be a move-limited game', () => {
+    for (let day = 1; day <= 28; day++) {
+      const params = getDailyParams(`2026-02-${String(day).padStart(2, '0')}`);
+      expect(params.mode).toEqual({ type: 'moves', limit: DAILY_MOVE_LIMIT });
+      expect([4, 5]).toContain(params.n);
+    }
+  });
+});
+
+describe('recordDailyResult', () => {
+  it('should keep the best result of the day', () => {
+    let results = recordDailyResult({}, '2026-10-19', RESULT);
+    results = recordDailyResult(results, '2026-10-19', { ...RESULT, score: 80 });
+    expect(results['2026-10-19'].score).toBe(120);
+
+    results = recordDailyResult(results, '2026-10-19', { ...RESULT, score: 150 });
+    expect(results['2026-10-19'].score).toBe(150);
+  });
+});
+
+describe('getStreak', () => {
+  const results = {
+    '2026-09-29': RESULT,
+    '2026-09-30': RESULT,
+    '2026-10-01': RESULT,
+    '2026-10-03': RESULT,
+  };
+
+  it('should count consecutive days across a month boundary', () => {
+    expect(getStreak(results, new Date(2026, 9, 1, 12))).toBe(3);
+  });
+
+  it('should keep yesterday\'s streak until today is over', () => {
+    expect(getStreak(results, new Date(2026, 9, 2, 12))).toBe(3);
+    expect(getStreak(results, new Date(2026, 9, 4, 12))).toBe(1);
+    expect(getStreak(results, new Date(2026, 9, 5, 12))).toBe(0);
+  });
+});
+
+describe('formatDailySummary', () => {
+  it('should list the result and the streak', () => {
+    expect(formatDailySummary('2026-10-19', RESULT, 4)).toBe(
+      '素因数分解ゲーム デイリー 2026-10-19\nスコア: 120\n手数: 50\n最大連鎖: 3\n連続記録: 4日'
+    );
+    expect(formatDailySummary('2026-10-19', { ...RESULT, assisted: true }, 1)).toContain('（アシストあり）');
+  });
+});
+
+describe('parseDailyResults', () => {
+  it('should drop days that cannot be read', () => {
+    const raw = JSON.stringify({
+      version: 1,
+      results: { '2026-10-19': RESULT, 'yesterday': RESULT, '2026-10-18': { score: 'high' } },
+    });
+
+    expect(parseDailyResults(raw)).toEqual({ '2026-10-19': RESULT });
+    expect(parseDailyResults('not json')).toEqual({});
+  });
+});
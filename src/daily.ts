@@ -0,0 +1,164 @@
+/**
+ * Daily Challenge - One game a day, the same for everyone
+ *
+ * The seed and the parameters of a day's game are derived from its date
+ * (local time), so every player gets the same board and spawns without a
+ * server. The best result of each day is kept in local storage; playing on
+ * consecutive days builds a streak, and a result can be copied as text.
+ */
+
+import type { GameState, GameParams } from './types';
+import { createSeededRandom, hashSeed } from './random';
+import { getDefaultStorage } from './storage';
+import type { KeyValueStorage } from './storage';
+
+export const DAILY_KEY = 'prime-factorization-game:daily';
+export const DAILY_VERSION = 1;
+
+// Every daily game is a race for points over this many moves
+export const DAILY_MOVE_LIMIT = 50;
+
+// The day's parameters are drawn from these
+const DAILY_BOARD_SIZES = [4, 5];
+const DAILY_SPAWN_INTERVALS = [2, 3, 4];
+const DAILY_MAX_PRIMES = [5, 7, 11];
+
+export interface DailyResult {
+  score: number;
+  moveCount: number;
+  maxChain: number;
+  assisted: boolean; // Undo or hints were used during the game
+}
+
+export type DailyResults = Record<string, DailyResult>; // By date key
+
+/**
+ * The day of a date as YYYY-MM-DD, in local time
+ */
+export function getDailyKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function isDailyKey(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+export function getDailySeed(key: string): number {
+  return hashSeed(`daily-${key}`);
+}
+
+export function getDailyParams(key: string): GameParams {
+  // A generator of its own, so the parameters never shift the game's spawns
+  const { random } = createSeededRandom(hashSeed(`daily-params-${key}`));
+  const pick = (values: number[]) => values[Math.floor(random() * values.length)];
+  return {
+    n: pick(DAILY_BOARD_SIZES),
+    m: 2,
+    k: pick(DAILY_SPAWN_INTERVALS),
+    p: pick(DAILY_MAX_PRIMES),
+    mode: { type: 'moves', limit: DAILY_MOVE_LIMIT },
+  };
+}
+
+export function createDailyResult(state: GameState): DailyResult {
+  return {
+    score: state.score,
+    moveCount: state.moveCount,
+    maxChain: state.maxChain,
+    assisted: state.undosUsed > 0 || state.hintsUsed > 0,
+  };
+}
+
+/**
+ * Record a finished daily game, keeping the best result of the day
+ * (higher score; ties go to the shorter game)
+ */
+export function recordDailyResult(results: DailyResults, key: string, result: DailyResult): DailyResults {
+  const previous = results[key];
+  if (previous && (previous.score > result.score
+    || (previous.score === result.score && previous.moveCount <= result.moveCount))) {
+    return results;
+  }
+  return { ...results, [key]: result };
+}
+
+/**
+ * Consecutive days played up to today
+ * A streak that reached yesterday still counts until today is over
+ */
+export function getStreak(results: DailyResults, today: Date): number {
+  const day = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  if (!(getDailyKey(day) in results)) day.setDate(day.getDate() - 1);
+
+  let streak = 0;
+  while (getDailyKey(day) in results) {
+    streak++;
+    day.setDate(day.getDate() - 1);
+  }
+  return streak;
+}
+
+/**
+ * Text to share a daily result
+ */
+export function formatDailySummary(key: string, result: DailyResult, streak: number): string {
+  return [
+    `素因数分解ゲーム デイリー ${key}${result.assisted ? '（アシストあり）' : ''}`,
+    `スコア: ${result.score}`,
+    `手数: ${result.moveCount}`,
+    `最大連鎖: ${result.maxChain}`,
+    `連続記録: ${streak}日`,
+  ].join('\n');
+}
+
+function isValidResult(value: unknown): value is DailyResult {
+  if (typeof value !== 'object' || value === null) return false;
+  const result = value as Record<string, unknown>;
+  return typeof result.score === 'number'
+    && typeof result.moveCount === 'number'
+    && typeof result.maxChain === 'number'
+    && typeof result.assisted === 'boolean';
+}
+
+/**
+ * Read saved daily results, dropping any day that cannot be read
+ */
+export function parseDailyResults(raw: string | null): DailyResults {
+  if (raw === null) return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+
+  if (typeof data !== 'object' || data === null) return {};
+  const { version, results } = data as { version?: unknown; results?: unknown };
+  if (version !== DAILY_VERSION || typeof results !== 'object' || results === null) return {};
+
+  const days = Object.entries(results as Record<string, unknown>);
+  return Object.fromEntries(days.filter(([key, result]) => isDailyKey(key) && isValidResult(result))) as DailyResults;
+}
+
+export function loadDailyResults(storage: KeyValueStorage | null = getDefaultStorage()): DailyResults {
+  try {
+    return parseDailyResults(storage?.getItem(DAILY_KEY) ?? null);
+  } catch (error) {
+    console.warn('Failed to load daily results:', error);
+    return {};
+  }
+}
+
+export function saveDailyResults(
+  results: DailyResults,
+  storage: KeyValueStorage | null = getDefaultStorage()
+): void {
+  try {
+    storage?.setItem(DAILY_KEY, JSON.stringify({ version: DAILY_VERSION, results }));
+  } catch (error) {
+    console.warn('Failed to save daily results:', error);
+  }
+}
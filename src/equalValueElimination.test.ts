@@ -68,7 +68,7 @@ describe('Equal Value Elimination - New Feature', () => {
     // Both tiles should disappear
     expect(result.tiles).toHaveLength(0);
     expect(result.chainCount).toBe(1);
-    expect(result.scoreGained).toBe(8); // 4 + 4
+    expect(result.scoreGained).toBe(16); // (4 + 4) × 2 for the square
   });
 
   it('should still work with perfect powers (cubes)', () => {
@@ -83,7 +83,7 @@ describe('Equal Value Elimination - New Feature', () => {
     // Both tiles should disappear
     expect(result.tiles).toHaveLength(0);
     expect(result.chainCount).toBe(1);
-    expect(result.scoreGained).toBe(16); // 8 + 8
+    expect(result.scoreGained).toBe(48); // (8 + 8) × 3 for the cube
   });
 
   it('should not eliminate tiles with different values', () => {
@@ -0,0 +1,643 @@
+import { describe, it, expect } from 'vitest';
+import { applyMove, canHold, createInitialState, holdTile, spawnTile, hasAvailableMove, isGameOver } from './gameEngine';
+import type { GameState, GameParams, Tile } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7 };
+
+// Always picks the first option, so spawns are predictable
+const firstChoice = () => 0;
+
+function stateWith(tiles: Tile[], overrides: Partial<GameState> = {}): GameState {
+  return {
+    tiles,
+    score: 0,
+    moveCount: 0,
+    nextTileId: 100,
+    seed: 1,
+    rngState: 1,
+    maxChain: 0,
+    isGameOver: false,
+    undosUsed: 0,
+    hintsUsed: 0,
+    moves: [],
+    fromSharedLink: false,
+    autoPlayed: false,
+    elapsedMs: 0,
+    daily: null,
+    ...overrides,
+  };
+}
+
+describe('createInitialState', () => {
+  it('should place m tiles on distinct cells', () => {
+    const state = createInitialState({ ...PARAMS, m: 5 });
+
+    expect(state.tiles).toHaveLength(5);
+    expect(new Set(state.tiles.map(t => `${t.row},${t.col}`)).size).toBe(5);
+    expect(state.nextTileId).toBe(5);
+    expect(state.score).toBe(0);
+    expect(state.moveCount).toBe(0);
+  });
+
+  it('should produce the same board for the same seed', () => {
+    const a = createInitialState({ ...PARAMS, m: 4 }, 175);
+    const b = createInitialState({ ...PARAMS, m: 4 }, 175);
+
+    expect(a).toEqual(b);
+    expect(a.seed).toBe(175);
+  });
+});
+
+describe('spawnTile', () => {
+  it('should place a tile on the first empty cell with the injected random source', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }]);
+
+    const result = spawnTile(state, PARAMS, firstChoice);
+
+    expect(result.tile).toEqual({ id: 100, value: 2, row: 0, col: 1 });
+    expect(result.state.tiles).toHaveLength(2);
+    expect(result.state.nextTileId).toBe(101);
+  });
+
+  it('should return the state unchanged when the board is full', () => {
+    const tiles: Tile[] = [];
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        tiles.push({ id: row * 3 + col, value: 7, row, col });
+      }
+    }
+    const state = stateWith(tiles);
+
+    const result = spawnTile(state, { ...PARAMS, n: 3 }, firstChoice);
+
+    expect(result.tile).toBeNull();
+    expect(result.state).toBe(state);
+  });
+});
+
+describe('applyMove', () => {
+  it('should report no movement when nothing can slide', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+
+    expect(result.moved).toBe(false);
+    expect(result.events).toEqual([]);
+    expect(result.state).toBe(state);
+  });
+
+  it('should slide a tile to the wall and record its path', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }]);
+
+    const result = applyMove(state, 'right', undefined, PARAMS, firstChoice);
+
+    expect(result.moved).toBe(true);
+    expect(result.state.tiles).toEqual([{ id: 1, value: 6, row: 0, col: 3 }]);
+    expect(result.state.moveCount).toBe(1);
+
+    const slide = result.events.find(e => e.type === 'slide');
+    expect(slide).toBeDefined();
+    if (slide?.type === 'slide') {
+      expect(slide.paths).toEqual([{
+        tileId: 1,
+        path: [
+          { row: 0, col: 0 },
+          { row: 0, col: 1 },
+          { row: 0, col: 2 },
+          { row: 0, col: 3 },
+        ],
+      }]);
+      expect(slide.frames).toHaveLength(3);
+    }
+  });
+
+  it('should divide 15 by 5 when 5 slides into it', () => {
+    const state = stateWith([
+      { id: 1, value: 15, row: 0, col: 0 },
+      { id: 2, value: 5, row: 0, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+
+    const values = result.state.tiles.map(t => t.value).sort((a, b) => a - b);
+    expect(values).toContain(3);
+    expect(values).not.toContain(15);
+    expect(values).not.toContain(5);
+    expect(result.state.score).toBe(15);
+    expect(result.events).toContainEqual({
+      type: 'merge', row: 0, col: 0, divisor: 5, dividend: 15, value: 3, score: 15,
+    });
+  });
+
+  it('should score slide collisions with the scoring preset of the params', () => {
+    const state = stateWith([
+      { id: 1, value: 15, row: 0, col: 0 },
+      { id: 2, value: 5, row: 0, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, { ...PARAMS, scoring: 'primeCount' }, firstChoice);
+
+    expect(result.state.score).toBe(20);
+  });
+
+  it('should eliminate equal tiles and spawn a new tile', () => {
+    const state = stateWith([
+      { id: 1, value: 7, row: 0, col: 0 },
+      { id: 2, value: 7, row: 0, col: 2 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+
+    expect(result.state.score).toBe(14);
+    // Both 7s are gone, only the spawned tile remains
+    expect(result.state.tiles).toHaveLength(1);
+    expect(result.events.map(e => e.type)).toEqual(['slide', 'eliminate', 'score', 'settle', 'spawn']);
+  });
+
+  it('should only move the selected tile when tileId is given', () => {
+    const state = stateWith([
+      { id: 1, value: 6, row: 0, col: 0 },
+      { id: 2, value: 35, row: 1, col: 0 },
+    ]);
+
+    const result = applyMove(state, 'right', 2, PARAMS, firstChoice);
+
+    expect(result.state.tiles).toContainEqual({ id: 1, value: 6, row: 0, col: 0 });
+    expect(result.state.tiles).toContainEqual({ id: 2, value: 35, row: 1, col: 3 });
+  });
+
+  it('should run chain reactions triggered by the slide', () => {
+    // 3 slides next to 147; the chain divides 147 into 49
+    const state = stateWith([
+      { id: 1, value: 147, row: 0, col: 0 },
+      { id: 2, value: 3, row: 1, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+    const values = result.state.tiles.map(t => t.value);
+
+    expect(result.events.filter(e => e.type === 'chain')).toHaveLength(1);
+    expect(values).toContain(49);
+    expect(values).not.toContain(147);
+    expect(result.state.score).toBe(147);
+  });
+
+  it('should emit a score event for every reaction, adding up to the points gained', () => {
+    // 5 slides into 15 on the bottom row; 3 slides under 147 and divides it in the chain
+    const state = stateWith([
+      { id: 1, value: 147, row: 0, col: 0 },
+      { id: 2, value: 3, row: 1, col: 3 },
+      { id: 3, value: 15, row: 3, col: 0 },
+      { id: 4, value: 5, row: 3, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+    const scores = result.events.filter(e => e.type === 'score');
+
+    expect(scores).toEqual([
+      { type: 'score', reason: 'division', row: 3, col: 0, points: 15, multiplier: 1, chainStep: 0, powerType: null },
+      { type: 'score', reason: 'division', row: 0, col: 0, points: 147, multiplier: 1, chainStep: 1, powerType: null },
+    ]);
+    expect(scores.reduce((sum, s) => sum + s.points, 0)).toBe(result.state.score);
+    // Each score event follows the event it belongs to
+    expect(result.events.map(e => e.type)).toEqual(['slide', 'merge', 'score', 'settle', 'chain', 'score', 'spawn']);
+  });
+
+  it('should spawn a tile every k moves', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }], { moveCount: 2 });
+
+    const result = applyMove(state, 'right', undefined, PARAMS, firstChoice);
+
+    expect(result.state.moveCount).toBe(3);
+    expect(result.state.tiles).toHaveLength(2);
+    expect(result.events[result.events.length - 1].type).toBe('spawn');
+  });
+
+  it('should return plain tiles without animation flags', () => {
+    const state = stateWith([
+      { id: 1, value: 15, row: 0, col: 0 },
+      { id: 2, value: 5, row: 0, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+
+    for (const tile of result.state.tiles) {
+      expect(Object.keys(tile).sort()).toEqual(['col', 'id', 'row', 'value']);
+    }
+  });
+});
+
+// Fill an n x n board in a checkerboard of two values
+function checkerboard(n: number, a: number, b: number): Tile[] {
+  const tiles: Tile[] = [];
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      tiles.push({ id: row * n + col, value: (row + col) % 2 === 0 ? a : b, row, col });
+    }
+  }
+  return tiles;
+}
+
+describe('game over detection', () => {
+  it('should have moves while the board has an empty cell', () => {
+    const tiles = checkerboard(4, 6, 35).slice(1);
+
+    expect(hasAvailableMove(stateWith(tiles), PARAMS)).toBe(true);
+  });
+
+  it('should have no moves on a full board where no neighbours interact', () => {
+    // 6 and 35 never divide each other, and equal values are only diagonal
+    expect(hasAvailableMove(stateWith(checkerboard(4, 6, 35)), PARAMS)).toBe(false);
+  });
+
+  it('should find a single-tile merge on an otherwise stuck board', () => {
+    const tiles = checkerboard(4, 6, 35);
+    tiles[1] = { ...tiles[1], value: 3 }; // 3 divides its neighbour 6
+
+    expect(hasAvailableMove(stateWith(tiles), PARAMS)).toBe(true);
+  });
+
+  it('should end the game when a spawn fills the last cell of a stuck board', () => {
+    const tiles = checkerboard(4, 6, 35).filter(t => !(t.row === 3 && t.col === 2));
+    // firstChoice spawns a 2 in the last cell; 2 divides its 6 neighbours
+    const withMove = spawnTile(stateWith(tiles), PARAMS, firstChoice);
+    expect(withMove.state.isGameOver).toBe(false);
+
+    // With p=3 and a random of 0.99 the spawn is 3*3*3 = 27, which interacts with nothing
+    const stuck = spawnTile(stateWith(tiles), { ...PARAMS, p: 3 }, () => 0.99);
+    expect(stuck.tile?.value).toBe(27);
+    expect(stuck.state.isGameOver).toBe(true);
+  });
+
+  it('should reject moves once the game is over', () => {
+    const state = stateWith(checkerboard(4, 6, 35), { isGameOver: true });
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+
+    expect(result.moved).toBe(false);
+    expect(result.state).toBe(state);
+  });
+
+  it('should track the longest chain of the game', () => {
+    const state = stateWith([
+      { id: 1, value: 147, row: 0, col: 0 },
+      { id: 2, value: 3, row: 1, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+
+    expect(result.state.maxChain).toBe(1);
+  });
+});
+
+describe('game modes', () => {
+  it('should end a moves game when the limit is reached', () => {
+    const params: GameParams = { ...PARAMS, mode: { type: 'moves', limit: 30 } };
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }], { moveCount: 29 });
+
+    const result = applyMove(state, 'right', undefined, params, firstChoice);
+
+    expect(result.state.moveCount).toBe(30);
+    expect(result.state.isGameOver).toBe(true);
+  });
+
+  it('should end a clear game on an empty board without spawning', () => {
+    const params: GameParams = { ...PARAMS, k: 1, mode: { type: 'clear' } };
+    const state = stateWith([
+      { id: 1, value: 6, row: 0, col: 0 },
+      { id: 2, value: 6, row: 0, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, params, firstChoice);
+
+    expect(result.state.tiles.filter(t => t.value !== 0)).toEqual([]);
+    expect(result.events.some(e => e.type === 'spawn')).toBe(false);
+    expect(result.state.isGameOver).toBe(true);
+  });
+
+  it('should end a time-attack game when the clock reaches the limit', () => {
+    const params: GameParams = { ...PARAMS, mode: { type: 'timeAttack', seconds: 60 } };
+    const tiles = [{ id: 1, value: 6, row: 0, col: 0 }];
+
+    expect(isGameOver(stateWith(tiles, { elapsedMs: 59_999 }), params)).toBe(false);
+    expect(isGameOver(stateWith(tiles, { elapsedMs: 60_000 }), params)).toBe(true);
+  });
+});
+
+describe('seeded games', () => {
+  it('should replay identically from the same seed and the same moves', () => {
+    const moves: Array<'up' | 'down' | 'left' | 'right'> = ['left', 'up', 'right', 'down', 'left', 'up'];
+
+    const play = () => {
+      let state = createInitialState({ ...PARAMS, m: 3 }, 3147);
+      for (const direction of moves) {
+        state = applyMove(state, direction, undefined, PARAMS).state;
+      }
+      return state;
+    };
+
+    expect(play()).toEqual(play());
+  });
+
+  it('should advance the RNG state only when drawing from the game generator', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }], { moveCount: 2, rngState: 42 });
+
+    const seeded = applyMove(state, 'right', undefined, PARAMS);
+    const injected = applyMove(state, 'right', undefined, PARAMS, firstChoice);
+
+    expect(seeded.state.rngState).not.toBe(42);
+    expect(injected.state.rngState).toBe(42);
+  });
+});
+
+describe('move log', () => {
+  it('should record slides, single-tile slides and manual spawns', () => {
+    let state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }, { id: 2, value: 7, row: 3, col: 3 }]);
+
+    state = applyMove(state, 'right', undefined, PARAMS, firstChoice).state;
+    state = applyMove(state, 'down', 1, PARAMS, firstChoice).state;
+    state = spawnTile(state, PARAMS, firstChoice).state;
+
+    expect(state.moves).toEqual([['right'], ['down', 1], ['spawn']]);
+  });
+
+  it('should not record a move that changed nothing', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }]);
+
+    expect(applyMove(state, 'left', undefined, PARAMS).state.moves).toEqual([]);
+  });
+
+  it('should keep an incomplete log incomplete', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }], { moves: null });
+
+    expect(applyMove(state, 'right', undefined, PARAMS).state.moves).toBeNull();
+  });
+});
+
+describe('scripted spawns', () => {
+  const SCRIPTED: GameParams = { ...PARAMS, k: 1 };
+
+  it('should place the next queued tile instead of a random one', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 3 }], {
+      spawnQueue: [{ row: 2, col: 2, value: 35 }, { row: 3, col: 3, value: 2 }],
+    });
+
+    const result = applyMove(state, 'left', undefined, SCRIPTED, () => 0.99);
+
+    expect(result.state.tiles).toContainEqual({ id: 100, value: 35, row: 2, col: 2 });
+    expect(result.state.spawnQueue).toEqual([{ row: 3, col: 3, value: 2 }]);
+  });
+
+  it('should use the first empty cell when the queued cell is taken', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 3 }], {
+      spawnQueue: [{ row: 0, col: 0, value: 35 }],
+    });
+
+    const result = applyMove(state, 'left', undefined, SCRIPTED);
+
+    expect(result.state.tiles).toContainEqual({ id: 100, value: 35, row: 0, col: 1 });
+  });
+
+  it('should spawn nothing once the queue is used up', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 3 }], { spawnQueue: [] });
+
+    const result = applyMove(state, 'left', undefined, SCRIPTED);
+
+    expect(result.events.some(e => e.type === 'spawn')).toBe(false);
+    expect(result.state.tiles).toEqual([{ id: 1, value: 6, row: 0, col: 0 }]);
+  });
+});
+
+describe('board shapes', () => {
+  // 5 columns, 3 rows, with a wall in the middle
+  const WALLED: GameParams = { ...PARAMS, n: 5, width: 5, height: 3, blocked: [{ row: 1, col: 2 }] };
+
+  it('should spawn only on open cells of a rectangular board', () => {
+    const state = createInitialState({ ...WALLED, m: 14 }, 7);
+
+    expect(state.tiles).toHaveLength(14);
+    expect(state.tiles.every(t => t.row < 3 && t.col < 5)).toBe(true);
+    expect(state.tiles.some(t => t.row === 1 && t.col === 2)).toBe(false);
+  });
+
+  it('should stop sliding tiles in front of a wall and at the far edge', () => {
+    const state = stateWith([
+      { id: 1, value: 6, row: 1, col: 0 },
+      { id: 2, value: 35, row: 1, col: 3 },
+      { id: 3, value: 11, row: 0, col: 0 },
+    ]);
+
+    const result = applyMove(state, 'right', undefined, { ...WALLED, k: 10 });
+
+    expect(result.state.tiles).toEqual(expect.arrayContaining([
+      { id: 1, value: 6, row: 1, col: 1 },
+      { id: 2, value: 35, row: 1, col: 4 },
+      { id: 3, value: 11, row: 0, col: 4 },
+    ]));
+  });
+
+  it('should not let a tile pass through a wall', () => {
+    const state = stateWith([
+      { id: 1, value: 3, row: 0, col: 1 },
+      { id: 2, value: 6, row: 2, col: 1 },
+    ]);
+
+    const result = applyMove(state, 'down', 1, { ...WALLED, n: 3, width: 3, blocked: [{ row: 1, col: 1 }], k: 10 });
+
+    expect(result.moved).toBe(false);
+  });
+
+  it('should not count an empty cell shut in by walls as a move', () => {
+    // Only cell (0, 0) is open apart from the stuck row below the walls
+    const params: GameParams = {
+      n: 3, m: 0, k: 1, p: 7,
+      blocked: [{ row: 0, col: 1 }, { row: 0, col: 2 }, { row: 1, col: 0 }],
+    };
+    const tiles = [
+      { id: 1, value: 6, row: 1, col: 1 },
+      { id: 2, value: 35, row: 1, col: 2 },
+      { id: 3, value: 6, row: 2, col: 0 },
+      { id: 4, value: 35, row: 2, col: 1 },
+      { id: 5, value: 6, row: 2, col: 2 },
+    ];
+
+    expect(hasAvailableMove(stateWith(tiles), params)).toBe(false);
+    expect(hasAvailableMove(stateWith(tiles.slice(1)), params)).toBe(true);
+  });
+});
+
+describe('spawn distribution', () => {
+  it('should spawn with the distribution of the params', () => {
+    const params: GameParams = { ...PARAMS, m: 12, p: 97, spawn: 'gentle' };
+
+    const state = createInitialState(params, 3);
+
+    expect(state.tiles).toHaveLength(12);
+    expect(state.tiles.every(t => t.value <= 100)).toBe(true);
+  });
+
+  it('should keep the uniform preset on the same board as no preset', () => {
+    expect(createInitialState({ ...PARAMS, spawn: 'uniform' }, 42)).toEqual(createInitialState(PARAMS, 42));
+  });
+});
+
+describe('preview queue', () => {
+  const PREVIEW: GameParams = { ...PARAMS, preview: 3 };
+
+  it('should draw the queue after the starting tiles', () => {
+    const state = createInitialState(PREVIEW, 8);
+
+    expect(state.upcoming).toHaveLength(3);
+    expect(state.tiles).toEqual(createInitialState(PARAMS, 8).tiles);
+    expect(createInitialState(PARAMS, 8).upcoming).toBeUndefined();
+  });
+
+  it('should spawn the first queued value and queue a new one', () => {
+    const state = stateWith([{ id: 1, value: 7, row: 0, col: 3 }], { upcoming: [6, 35, 10] });
+
+    const result = applyMove(state, 'left', undefined, { ...PREVIEW, k: 1 });
+
+    const spawn = result.events.find(e => e.type === 'spawn');
+    expect(spawn).toMatchObject({ tile: { value: 6 } });
+    expect(result.state.upcoming).toEqual([35, 10, expect.any(Number)]);
+    expect(result.state.rngState).not.toBe(state.rngState);
+  });
+
+  it('should put the next value in an empty hold slot and refill the queue', () => {
+    const params: GameParams = { ...PREVIEW, holdInterval: 3 };
+    const state = stateWith([{ id: 1, value: 7, row: 0, col: 0 }], { upcoming: [6, 35, 10], moveCount: 4 });
+
+    const held = holdTile(state, params)!;
+
+    expect(held.held).toBe(6);
+    expect(held.upcoming).toEqual([35, 10, expect.any(Number)]);
+    expect(held.holdMove).toBe(4);
+    expect(held.moves).toEqual([['hold']]);
+  });
+
+  it('should swap a full hold slot once every holdInterval moves', () => {
+    const params: GameParams = { ...PREVIEW, holdInterval: 3 };
+    const state = stateWith([{ id: 1, value: 7, row: 0, col: 0 }], {
+      upcoming: [6, 35, 10], held: 15, holdMove: 2, moveCount: 4,
+    });
+
+    expect(canHold(state, params)).toBe(false);
+    expect(holdTile(state, params)).toBeNull();
+
+    const swapped = holdTile({ ...state, moveCount: 5 }, params)!;
+    expect(swapped.held).toBe(6);
+    expect(swapped.upcoming).toEqual([15, 35, 10]);
+    expect(swapped.rngState).toBe(state.rngState);
+  });
+
+  it('should have no hold slot without a hold interval', () => {
+    const state = stateWith([], { upcoming: [6, 35, 10] });
+
+    expect(canHold(state, PREVIEW)).toBe(false);
+  });
+});
+
+describe('special tiles', () => {
+  const SPECIALS: GameParams = { ...PARAMS, specials: true };
+
+  it('should roll the kind of a spawn last, with its own rate', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }]);
+
+    expect(spawnTile(state, SPECIALS, () => 0).tile).toEqual({ id: 100, value: 1, row: 0, col: 1, kind: 'wildcard' });
+    expect(spawnTile(state, SPECIALS, () => 0.04).tile).toMatchObject({ value: 1, kind: 'bomb' });
+    expect(spawnTile(state, SPECIALS, () => 0.06).tile).toMatchObject({ value: 2, kind: 'locked' });
+    expect(spawnTile(state, SPECIALS, () => 0.5).tile).not.toHaveProperty('kind');
+    expect(spawnTile(state, PARAMS, () => 0).tile).toEqual({ id: 100, value: 2, row: 0, col: 1 });
+  });
+
+  it('should keep a locked tile in place while others stop against it', () => {
+    const state = stateWith([
+      { id: 1, value: 7, row: 0, col: 1, kind: 'locked' },
+      { id: 2, value: 11, row: 0, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+
+    expect(result.state.tiles).toContainEqual({ id: 1, value: 7, row: 0, col: 1, kind: 'locked' });
+    expect(result.state.tiles).toContainEqual({ id: 2, value: 11, row: 0, col: 2 });
+    expect(applyMove(state, 'right', 1, PARAMS).moved).toBe(false);
+  });
+
+  it('should unlock a locked tile when a sliding tile merges with it', () => {
+    const state = stateWith([
+      { id: 1, value: 15, row: 0, col: 0, kind: 'locked' },
+      { id: 2, value: 5, row: 0, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+
+    expect(result.events).toContainEqual(expect.objectContaining({ type: 'merge', divisor: 5, dividend: 15 }));
+    expect(result.state.tiles).toEqual([{ id: 100, value: 3, row: 0, col: 0 }]);
+  });
+
+  it('should stop a wildcard on collision and let it act in the chain reaction', () => {
+    const state = stateWith([
+      { id: 1, value: 30, row: 0, col: 0 },
+      { id: 2, value: 1, row: 0, col: 3, kind: 'wildcard' },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, firstChoice);
+
+    expect(result.events.some(e => e.type === 'merge' || e.type === 'eliminate')).toBe(false);
+    expect(result.events).toContainEqual(expect.objectContaining({ type: 'score', reason: 'wildcard', chainStep: 1 }));
+    expect(result.state.tiles).toContainEqual(expect.objectContaining({ value: 6, row: 0, col: 0 }));
+    expect(result.state.tiles.some(t => t.kind === 'wildcard')).toBe(false);
+  });
+
+  it('should not count an empty cell that only locked tiles could slide into', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 7, row: 0, col: 0, kind: 'locked' },
+      { id: 2, value: 11, row: 1, col: 1, kind: 'locked' },
+    ];
+    const params = { ...PARAMS, n: 2 };
+
+    expect(hasAvailableMove(stateWith(tiles), params)).toBe(false);
+    expect(hasAvailableMove(stateWith([tiles[0], { ...tiles[1], kind: undefined }]), params)).toBe(true);
+  });
+});
+
+describe('adjacency', () => {
+  // The 3 slides in beside the 7 and diagonally below the 6
+  const tiles: Tile[] = [
+    { id: 1, value: 6, row: 0, col: 0 },
+    { id: 2, value: 7, row: 1, col: 0 },
+    { id: 3, value: 3, row: 1, col: 3 },
+  ];
+
+  it('should leave diagonal tiles alone with orthogonal adjacency', () => {
+    const result = applyMove(stateWith(tiles), 'left', 3, { ...PARAMS, k: 10 });
+
+    expect(result.state.tiles).toContainEqual({ id: 1, value: 6, row: 0, col: 0 });
+    expect(result.state.tiles).toContainEqual({ id: 3, value: 3, row: 1, col: 1 });
+  });
+
+  it('should react with diagonal neighbours with diagonal adjacency', () => {
+    const result = applyMove(stateWith(tiles), 'left', 3, { ...PARAMS, k: 10, adjacency: 'diagonal' });
+
+    expect(result.state.tiles.some(t => t.value === 6)).toBe(false);
+    expect(result.state.tiles).toContainEqual(expect.objectContaining({ value: 2, row: 0, col: 0 }));
+  });
+
+  it('should slide along the six hex directions', () => {
+    const params: GameParams = { ...PARAMS, n: 3, k: 10, adjacency: 'hex' };
+    const state = stateWith([
+      { id: 1, value: 5, row: 1, col: 1 },
+      { id: 2, value: 7, row: 0, col: 1 },
+    ]);
+
+    expect(applyMove(state, 'upRight', 1, params).state.tiles).toContainEqual({ id: 1, value: 5, row: 0, col: 2 });
+    expect(applyMove(state, 'downLeft', 2, params).state.tiles).toContainEqual({ id: 2, value: 7, row: 2, col: 0 });
+  });
+
+  it('should reject directions the adjacency does not slide in', () => {
+    const state = stateWith([{ id: 1, value: 5, row: 1, col: 1 }]);
+
+    expect(applyMove(state, 'up', undefined, { ...PARAMS, adjacency: 'hex' }).moved).toBe(false);
+    expect(applyMove(state, 'upLeft', undefined, PARAMS).moved).toBe(false);
+  });
+});
@@ -0,0 +1,825 @@
+/**
+ * Game Engine - Pure, headless implementation of a single move
+ *
+ * This module owns the rules for sliding, slide collisions, chain reactions
+ * and tile spawning. It never touches React state or timers: a move is
+ * computed in one go and returned as the final state plus a list of events
+ * that the UI replays as animation.
+ */
+
+import type { Tile, GameState, GameParams, Direction, Position, RecordedMove, ScriptedSpawn } from './types';
+import { generateRandomTileValue, getEmptyPositions, checkPerfectPowerElimination, checkEqualValueElimination, isDivisor, gcd } from './gameLogic';
+import type { PowerType, RandomSource } from './gameLogic';
+import { processChainReactions } from './chainReactionLogic';
+import type { ChainReaction } from './chainReactionLogic';
+import { createCleanTile } from './utils/tileHelpers';
+import { getScoringRules, scoreDivision, scoreElimination, scoreReduction } from './scoring';
+import { getMode, isBoardCleared, isModeFinished } from './gameModes';
+import type { ScoringRules } from './scoring';
+import { createSeededRandom, randomSeed } from './random';
+import { getBoardShape, isOpenCell } from './boardShape';
+import type { BoardShape } from './boardShape';
+import { getAdjacency } from './adjacency';
+import type { Adjacency } from './adjacency';
+import { getSpawnDistribution } from './spawnDistribution';
+import { isActionTile, rollTileKind } from './specialTiles';
+import { getMergeRule } from './mergeRules';
+import type { MergeRule } from './mergeRules';
+
+/**
+ * Cells visited by a tile while sliding, starting at its original position
+ */
+export interface TilePath {
+  tileId: number;
+  path: Position[];
+}
+
+/**
+ * Points awarded by one reaction, at the cell where it happened
+ * chainStep is 0 for collisions during the slide and the chain step otherwise;
+ * points already include the multiplier
+ */
+export interface ScoreEvent {
+  type: 'score';
+  reason: ChainReaction['type'];
+  row: number;
+  col: number;
+  points: number;
+  multiplier: number;
+  chainStep: number;
+  powerType: PowerType | null;
+}
+
+export type MoveEvent =
+  // Tiles slid across the board; frames are the intermediate boards, one per step
+  | { type: 'slide'; paths: TilePath[]; frames: Tile[][] }
+  // A sliding tile collided with a tile it divides (or that divides it)
+  | { type: 'merge'; row: number; col: number; divisor: number; dividend: number; value: number; score: number }
+  // A sliding tile collided with a tile sharing a factor and both were divided by it (gcd merge rule)
+  | { type: 'reduce'; row: number; col: number; divisor: number; values: [number, number]; score: number }
+  // A sliding tile collided with a tile of equal value and both disappeared
+  | { type: 'eliminate'; row: number; col: number; value: number; powerType: PowerType | null; score: number }
+  // Board right after the slide, with merge/elimination animation flags set
+  | { type: 'settle'; tiles: Tile[]; score: number }
+  // One iteration of the chain reaction, with chaining animation flags set
+  | { type: 'chain'; step: number; tiles: Tile[]; reactions: ChainReaction[] }
+  // Follows each merge, eliminate and chain event, once per reaction that scored
+  | ScoreEvent
+  // A new tile was placed on the board
+  | { type: 'spawn'; tile: Tile };
+
+export interface MoveResult {
+  state: GameState;
+  events: MoveEvent[];
+  moved: boolean; // False when nothing could slide or merge; state is returned unchanged
+}
+
+export const DEFAULT_PARAMS: GameParams = {
+  n: 4,  // 4x4 board
+  m: 2,  // start with 2 tiles
+  k: 3,  // new tile every 3 moves
+  p: 7,  // primes up to 7 (2, 3, 5, 7)
+};
+
+// Longest preview queue of upcoming tile values
+export const MAX_PREVIEW = 3;
+
+// Longest move log; a longer game stops recording, since replaying it would take too long
+export const MAX_RECORDED_MOVES = 5000;
+
+/**
+ * A move a player can make: a whole-board slide, or a swipe of one tile
+ */
+export interface PlayerMove {
+  direction: Direction;
+  tileId?: number;
+}
+
+/**
+ * Strip animation flags so that only the essential tile properties remain
+ */
+function toPlainTiles(tiles: Tile[]): Tile[] {
+  return tiles
+    .filter(t => t.value !== 0)
+    .map(t => ({ id: t.id, value: t.value, row: t.row, col: t.col, ...(t.kind && { kind: t.kind }) }));
+}
+
+/**
+ * Use the injected random source if given, otherwise the game's own seeded
+ * generator. rngState() is the generator state to store in the next GameState.
+ */
+function resolveRandom(
+  state: GameState,
+  random: RandomSource | undefined
+): { random: RandomSource; rngState: () => number } {
+  if (random) {
+    return { random, rngState: () => state.rngState };
+  }
+  const seeded = createSeededRandom(state.rngState);
+  return { random: seeded.random, rngState: seeded.getState };
+}
+
+/**
+ * Create the starting state for a new game with params.m random tiles
+ * The same seed always produces the same starting board
+ */
+export function createInitialState(params: GameParams, seed: number = randomSeed()): GameState {
+  const { random, getState } = createSeededRandom(seed);
+  const distribution = getSpawnDistribution(params.spawn);
+  const tiles: Tile[] = [];
+  const emptyPositions = getEmptyPositions([], getBoardShape(params));
+
+  for (let i = 0; i < params.m && emptyPositions.length > 0; i++) {
+    const randomIndex = Math.floor(random() * emptyPositions.length);
+    const pos = emptyPositions.splice(randomIndex, 1)[0];
+
+    tiles.push({
+      id: i,
+      value: generateRandomTileValue(params.p, random, distribution, tiles.map(t => t.value)),
+      row: pos.row,
+      col: pos.col,
+    });
+  }
+
+  // The preview queue is drawn right after the starting tiles
+  const upcoming = params.preview === undefined
+    ? undefined
+    : Array.from({ length: params.preview }, () => (
+      generateRandomTileValue(params.p, random, distribution, tiles.map(t => t.value))
+    ));
+
+  return {
+    tiles,
+    score: 0,
+    moveCount: 0,
+    nextTileId: params.m,
+    seed,
+    rngState: getState(),
+    maxChain: 0,
+    isGameOver: false,
+    undosUsed: 0,
+    hintsUsed: 0,
+    moves: [],
+    fromSharedLink: false,
+    autoPlayed: false,
+    elapsedMs: 0,
+    daily: null,
+    ...(upcoming !== undefined && { upcoming }),
+  };
+}
+
+/**
+ * Append a move to the log, unless the log is already incomplete or full
+ */
+function appendMove(state: GameState, move: RecordedMove): RecordedMove[] | null {
+  return state.moves && state.moves.length < MAX_RECORDED_MOVES ? [...state.moves, move] : null;
+}
+
+/**
+ * Place the next tile of a puzzle's spawn queue
+ * Returns the state unchanged and a null tile when the queue is used up or the board is full
+ */
+function placeScriptedTile(
+  state: GameState,
+  params: GameParams,
+  queue: ScriptedSpawn[]
+): { state: GameState; tile: Tile | null } {
+  const emptyPositions = getEmptyPositions(state.tiles, getBoardShape(params));
+
+  if (queue.length === 0 || emptyPositions.length === 0) return { state, tile: null };
+
+  const [next, ...rest] = queue;
+  // Empty cells are listed row by row, so the first one is the fallback
+  const pos = emptyPositions.find(p => p.row === next.row && p.col === next.col) ?? emptyPositions[0];
+  const tile: Tile = { id: state.nextTileId, value: next.value, row: pos.row, col: pos.col };
+
+  const nextState: GameState = {
+    ...state,
+    tiles: [...state.tiles, tile],
+    nextTileId: state.nextTileId + 1,
+    spawnQueue: rest,
+  };
+
+  return {
+    state: { ...nextState, isGameOver: isGameOver(nextState, params) },
+    tile,
+  };
+}
+
+/**
+ * Place one random tile on a random empty cell, or the next scripted tile
+ * when the game has a spawn queue
+ * With params.specials, the tile's kind is rolled last; wildcards and bombs
+ * take the value 1 in place of the drawn value
+ * Returns the state unchanged and a null tile when the board is full
+ */
+function placeRandomTile(
+  state: GameState,
+  params: GameParams,
+  random?: RandomSource
+): { state: GameState; tile: Tile | null } {
+  if (state.spawnQueue) return placeScriptedTile(state, params, state.spawnQueue);
+
+  const emptyPositions = getEmptyPositions(state.tiles, getBoardShape(params));
+
+  if (emptyPositions.length === 0) return { state, tile: null };
+
+  const rng = resolveRandom(state, random);
+  const randomIndex = Math.floor(rng.random() * emptyPositions.length);
+  const pos = emptyPositions[randomIndex];
+  const distribution = getSpawnDistribution(params.spawn);
+
+  // With a preview, the tile takes the first queued value and a new value joins the end of the queue
+  const [queued, ...rest] = state.upcoming ?? [];
+  const value = queued ?? generateRandomTileValue(params.p, rng.random, distribution, state.tiles.map(t => t.value));
+  const upcoming = state.upcoming && [
+    ...rest,
+    generateRandomTileValue(params.p, rng.random, distribution, [...state.tiles.map(t => t.value), value]),
+  ];
+  const kind = params.specials ? rollTileKind(rng.random) : undefined;
+  const tile: Tile = {
+    id: state.nextTileId,
+    value: kind === 'wildcard' || kind === 'bomb' ? 1 : value,
+    row: pos.row,
+    col: pos.col,
+    ...(kind && { kind }),
+  };
+
+  const nextState: GameState = {
+    ...state,
+    tiles: [...state.tiles, tile],
+    nextTileId: state.nextTileId + 1,
+    ...(upcoming && { upcoming }),
+    rngState: rng.rngState(),
+  };
+
+  return {
+    state: { ...nextState, isGameOver: isGameOver(nextState, params) },
+    tile,
+  };
+}
+
+/**
+ * Generate a tile on demand, outside the regular spawn rule
+ * The spawn is recorded in the move log so replays can reproduce it
+ */
+export function spawnTile(
+  state: GameState,
+  params: GameParams,
+  random?: RandomSource
+): { state: GameState; tile: Tile | null } {
+  const spawn = placeRandomTile(state, params, random);
+  if (!spawn.tile) return spawn;
+  return { state: { ...spawn.state, moves: appendMove(state, ['spawn']) }, tile: spawn.tile };
+}
+
+/**
+ * Whether the hold slot can be used now: the game has one, a value is
+ * queued, and params.holdInterval moves have passed since it was last used
+ */
+export function canHold(state: GameState, params: GameParams): boolean {
+  if (params.holdInterval === undefined || !state.upcoming?.length || state.isGameOver) return false;
+  return state.holdMove === undefined || state.moveCount - state.holdMove >= params.holdInterval;
+}
+
+/**
+ * Swap the next spawn with the hold slot
+ * An empty slot takes the next value and the queue draws a new one at its
+ * end; a full slot trades places with the next value. Recorded in the move
+ * log, since drawing a value advances the generator.
+ * Returns null when the hold slot cannot be used now
+ */
+export function holdTile(state: GameState, params: GameParams): GameState | null {
+  if (!canHold(state, params)) return null;
+
+  const [next, ...rest] = state.upcoming!;
+  const base = { ...state, holdMove: state.moveCount, moves: appendMove(state, ['hold']) };
+  if (state.held !== undefined) {
+    return { ...base, held: next, upcoming: [state.held, ...rest] };
+  }
+
+  const rng = resolveRandom(state, undefined);
+  const drawn = generateRandomTileValue(
+    params.p,
+    rng.random,
+    getSpawnDistribution(params.spawn),
+    state.tiles.map(t => t.value)
+  );
+  return { ...base, held: next, upcoming: [...rest, drawn], rngState: rng.rngState() };
+}
+
+/**
+ * Slide tiles in a direction, resolving collisions with the tile they run into
+ * If tileId is given, only that tile moves and every other tile acts as an obstacle
+ * Locked tiles never move; they are obstacles that sliding tiles can still merge with
+ * Under the gcd merge rule, a tile that shares a factor with the tile it runs
+ * into stops in front of it, and both are divided by their gcd
+ */
+function slideTiles(
+  tiles: Tile[],
+  direction: Direction,
+  tileId: number | undefined,
+  shape: BoardShape,
+  adjacency: Adjacency,
+  startTileId: number,
+  rules: ScoringRules,
+  mergeRule: MergeRule
+): {
+  tiles: Tile[];
+  paths: Map<number, Position[]>;
+  collisions: MoveEvent[];
+  moved: boolean;
+  score: number;
+  nextTileId: number;
+} {
+  let currentTileId = startTileId;
+  let moved = false;
+
+  // If tileId is specified, only move that tile
+  const isFixed = (t: Tile) => t.kind === 'locked' || (tileId !== undefined && t.id !== tileId);
+  const tilesToMove = tiles.filter(t => !isFixed(t));
+
+  // Sort tiles based on direction so the tile closest to the wall moves first
+  // (on the hex grid, tiles sliding diagonally go row by row)
+  const sorted = [...tilesToMove].sort((a, b) => {
+    switch (direction) {
+      case 'up':
+      case 'upLeft':
+      case 'upRight': return a.row - b.row;
+      case 'down':
+      case 'downLeft':
+      case 'downRight': return b.row - a.row;
+      case 'left': return a.col - b.col;
+      case 'right': return b.col - a.col;
+    }
+  });
+
+  const movedTiles: Tile[] = [];
+  const occupiedPositions = new Map<string, Tile>();
+  const mergedTileIds = new Set<number>(); // Track original IDs of tiles that merged
+  const collisions: MoveEvent[] = [];
+  let scoreGained = 0;
+
+  // Mark non-moving tiles as occupied
+  tiles.filter(isFixed).forEach(t => {
+    occupiedPositions.set(`${t.row},${t.col}`, t);
+  });
+
+  // Store intermediate positions for each tile
+  const tileMovementPaths = new Map<number, Position[]>();
+
+  for (const tile of sorted) {
+    // Skip tiles that have already been merged
+    if (mergedTileIds.has(tile.id)) {
+      continue;
+    }
+
+    let newRow = tile.row;
+    let newCol = tile.col;
+    const path: Position[] = [{ row: newRow, col: newCol }];
+
+    // Move as far as possible
+    while (true) {
+      const { row: nextRow, col: nextCol } = adjacency.step(newRow, newCol, direction);
+
+      // Stop at the edge of the board or in front of a wall
+      if (!isOpenCell(shape, nextRow, nextCol)) {
+        break;
+      }
+
+      const posKey = `${nextRow},${nextCol}`;
+      const occupant = occupiedPositions.get(posKey);
+
+      if (occupant) {
+        // A collision consumes the occupant, so it must not stay on the board
+        // as a placed tile (this left the original 15 behind after 15÷5=3)
+        const removeOccupant = () => {
+          const placedIndex = movedTiles.indexOf(occupant);
+          if (placedIndex !== -1) movedTiles.splice(placedIndex, 1);
+          occupiedPositions.delete(posKey);
+        };
+
+        // Wildcard, bomb and GCD tiles never merge on collision; they act in the chain reaction
+        if (isActionTile(tile) || isActionTile(occupant)) {
+          break;
+        }
+
+        // First check for equal value elimination (includes perfect powers)
+        if (checkEqualValueElimination(tile.value, occupant.value)) {
+          // Both tiles disappear; award score for both tiles
+          // A perfect power earns its bonus and its own animation
+          const powerType = checkPerfectPowerElimination(tile.value, occupant.value);
+          const mergedScore = scoreElimination(rules, tile.value, occupant.value, 1, powerType);
+          scoreGained += mergedScore;
+
+          removeOccupant();
+          path.push({ row: nextRow, col: nextCol });
+
+          mergedTileIds.add(tile.id);
+          mergedTileIds.add(occupant.id);
+
+          for (const source of [tile, occupant]) {
+            movedTiles.push(createCleanTile(source, {
+              id: currentTileId++,
+              value: 0,
+              scoreValue: source.value,
+              row: nextRow,
+              col: nextCol,
+              isDisappearing: true,
+              isPowerEliminating: powerType !== null,
+              powerType: powerType || undefined,
+              mergeHighlight: true, // Highlight merge (Issue #22)
+            }));
+          }
+
+          collisions.push({
+            type: 'eliminate',
+            row: nextRow,
+            col: nextCol,
+            value: tile.value,
+            powerType,
+            score: mergedScore,
+          }, {
+            type: 'score',
+            reason: 'elimination',
+            row: nextRow,
+            col: nextCol,
+            points: mergedScore,
+            multiplier: 1,
+            chainStep: 0,
+            powerType,
+          });
+
+          moved = true;
+          break;
+        }
+
+        // Check if they can merge normally (one divides the other)
+        const tileDividesOccupant = isDivisor(tile.value, occupant.value);
+        if (tileDividesOccupant || isDivisor(occupant.value, tile.value)) {
+          const divisor = tileDividesOccupant ? tile.value : occupant.value;
+          const dividend = tileDividesOccupant ? occupant.value : tile.value;
+          // The surviving tile keeps the identity of the dividend
+          const survivor = tileDividesOccupant ? occupant : tile;
+          const newValue = dividend / divisor;
+          const mergedScore = scoreDivision(rules, dividend);
+
+          scoreGained += mergedScore;
+
+          removeOccupant();
+          path.push({ row: nextRow, col: nextCol });
+
+          mergedTileIds.add(tile.id);
+          mergedTileIds.add(occupant.id);
+
+          const mergedTileId = currentTileId++;
+
+          if (newValue === 1) {
+            // Tile disappears - mark with isDisappearing
+            movedTiles.push(createCleanTile(tile, {
+              id: mergedTileId, // Assign unique ID to merged tile
+              value: 0, // Mark for removal
+              scoreValue: mergedScore,
+              row: nextRow,
+              col: nextCol,
+              isDividing: true, // Mark for division effect
+              isDisappearing: true, // Mark for disappear animation
+              mergeHighlight: true, // Highlight merge (Issue #22)
+            }));
+          } else {
+            const mergedTile = createCleanTile(survivor, {
+              id: mergedTileId, // Assign unique ID to merged tile
+              value: newValue,
+              scoreValue: mergedScore,
+              row: nextRow,
+              col: nextCol,
+              isDividing: true, // Mark for division effect
+              mergeHighlight: true, // Highlight merge (Issue #22)
+            });
+            movedTiles.push(mergedTile);
+            occupiedPositions.set(posKey, mergedTile);
+          }
+
+          // Store path for the new merged tile ID
+          if (path.length > 1) {
+            tileMovementPaths.set(mergedTileId, path);
+          }
+
+          collisions.push({
+            type: 'merge',
+            row: nextRow,
+            col: nextCol,
+            divisor,
+            dividend,
+            value: newValue,
+            score: mergedScore,
+          }, {
+            type: 'score',
+            reason: 'division',
+            row: nextRow,
+            col: nextCol,
+            points: mergedScore,
+            multiplier: 1,
+            chainStep: 0,
+            powerType: null,
+          });
+
+          moved = true;
+          break;
+        }
+
+        // Check if they share a factor (gcd merge rule only); neither divides the other here
+        const commonFactor = mergeRule.gcdReduction ? gcd(tile.value, occupant.value) : 1;
+        if (commonFactor > 1) {
+          const mergedScore = scoreReduction(rules, tile.value, occupant.value);
+          scoreGained += mergedScore;
+
+          removeOccupant();
+          mergedTileIds.add(tile.id);
+          mergedTileIds.add(occupant.id);
+
+          // The occupant is reduced in place and the sliding tile stops in front of it
+          const reducedOccupant = createCleanTile(occupant, {
+            id: currentTileId++,
+            value: occupant.value / commonFactor,
+            scoreValue: occupant.value,
+            isDividing: true,
+            mergeHighlight: true,
+          });
+          const reducedTile = createCleanTile(tile, {
+            id: currentTileId++,
+            value: tile.value / commonFactor,
+            scoreValue: tile.value,
+            row: newRow,
+            col: newCol,
+            isDividing: true,
+            mergeHighlight: true,
+          });
+          movedTiles.push(reducedOccupant, reducedTile);
+          occupiedPositions.set(posKey, reducedOccupant);
+          occupiedPositions.set(`${newRow},${newCol}`, reducedTile);
+
+          if (path.length > 1) {
+            tileMovementPaths.set(reducedTile.id, path);
+          }
+
+          collisions.push({
+            type: 'reduce',
+            row: nextRow,
+            col: nextCol,
+            divisor: commonFactor,
+            values: [tile.value, occupant.value],
+            score: mergedScore,
+          }, {
+            type: 'score',
+            reason: 'reduction',
+            row: nextRow,
+            col: nextCol,
+            points: mergedScore,
+            multiplier: 1,
+            chainStep: 0,
+            powerType: null,
+          });
+
+          moved = true;
+          break;
+        }
+
+        // Can't merge, stop here
+        break;
+      }
+
+      // Move to next position
+      newRow = nextRow;
+      newCol = nextCol;
+      path.push({ row: newRow, col: newCol });
+    }
+
+    if (newRow !== tile.row || newCol !== tile.col) {
+      moved = true;
+    }
+
+    // Place tile at final position if it hasn't merged
+    if (!mergedTileIds.has(tile.id)) {
+      const posKey = `${newRow},${newCol}`;
+      if (!occupiedPositions.has(posKey)) {
+        const finalTile = createCleanTile(tile, {
+          row: newRow,
+          col: newCol,
+          isMoving: true,
+        });
+        movedTiles.push(finalTile);
+        occupiedPositions.set(posKey, finalTile);
+      }
+    }
+
+    // Store the path for this tile
+    if (path.length > 1) {
+      tileMovementPaths.set(tile.id, path);
+    }
+  }
+
+  // Include tiles that didn't move or merge
+  const movedTileIds = new Set(movedTiles.map(t => t.id));
+  movedTiles.push(...tiles.filter(t => !movedTileIds.has(t.id) && !mergedTileIds.has(t.id)));
+
+  return {
+    tiles: movedTiles,
+    paths: tileMovementPaths,
+    collisions,
+    moved,
+    score: scoreGained,
+    nextTileId: currentTileId,
+  };
+}
+
+/**
+ * Build the intermediate boards shown while tiles slide, one per step
+ */
+function buildSlideFrames(tiles: Tile[], paths: Map<number, Position[]>): Tile[][] {
+  const pathLengths = Array.from(paths.values()).map(p => p.length);
+  const maxPathLength = pathLengths.length > 0 ? Math.max(...pathLengths) : 0;
+  const frames: Tile[][] = [];
+
+  for (let step = 1; step < maxPathLength; step++) {
+    frames.push(tiles.map(tile => {
+      const path = paths.get(tile.id);
+      if (path && step < path.length) {
+        return createCleanTile(tile, {
+          row: path[step].row,
+          col: path[step].col,
+          isMoving: true,
+        });
+      }
+      return tile;
+    }));
+  }
+
+  return frames;
+}
+
+/**
+ * The game ends when the mode's end condition is reached or no move is left
+ */
+export function isGameOver(state: GameState, params: GameParams): boolean {
+  return isModeFinished(state, params) || !hasAvailableMove(state, params);
+}
+
+/**
+ * Check whether any whole-board or single-tile slide would move or merge a tile
+ * A board without walls or locked tiles always has a move while a cell is
+ * empty, since some tile can slide into it; otherwise an empty cell may be
+ * shut off from every tile, so only an empty cell next to a tile that can
+ * slide counts
+ */
+export function hasAvailableMove(state: GameState, params: GameParams): boolean {
+  const shape = getBoardShape(params);
+  const adjacency = getAdjacency(params.adjacency);
+  const emptyPositions = getEmptyPositions(state.tiles, shape);
+  const reachable = shape.blocked.length === 0 && !state.tiles.some(t => t.kind === 'locked')
+    ? emptyPositions
+    : emptyPositions.filter(pos => adjacency.directions.some(direction => {
+      const cell = adjacency.step(pos.row, pos.col, direction);
+      return state.tiles.some(t => t.row === cell.row && t.col === cell.col && t.kind !== 'locked');
+    }));
+  if (reachable.length > 0) return true;
+
+  const rules = getScoringRules(params.scoring);
+  const mergeRule = getMergeRule(params.mergeRule);
+  for (const direction of adjacency.directions) {
+    if (slideTiles(state.tiles, direction, undefined, shape, adjacency, state.nextTileId, rules, mergeRule).moved) {
+      return true;
+    }
+    for (const tile of state.tiles) {
+      if (slideTiles(state.tiles, direction, tile.id, shape, adjacency, state.nextTileId, rules, mergeRule).moved) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Every move a player could try: the whole-board slides first (four, or six on
+ * the hex grid), then a swipe of each tile in each direction. Moves that change
+ * nothing are included.
+ */
+export function listMoves(state: GameState, params: GameParams): PlayerMove[] {
+  const { directions } = getAdjacency(params.adjacency);
+  const moves: PlayerMove[] = directions.map(direction => ({ direction }));
+  for (const direction of directions) {
+    for (const tile of state.tiles) {
+      moves.push({ direction, tileId: tile.id });
+    }
+  }
+  return moves;
+}
+
+/**
+ * Apply one move to the game state
+ *
+ * Slides the tiles, resolves collisions and chain reactions, and spawns a new
+ * tile every params.k moves or whenever a tile disappeared (in puzzles, the
+ * next tile of the spawn queue). The returned state
+ * only contains plain tiles; animation flags live in the events.
+ *
+ * Spawns draw from the game's seeded generator unless a random source is
+ * injected (e.g. to sample possible spawns without advancing the game's RNG).
+ */
+export function applyMove(
+  state: GameState,
+  direction: Direction,
+  tileId: number | undefined,
+  params: GameParams,
+  random?: RandomSource
+): MoveResult {
+  // A finished game accepts no more moves, and tiles only slide the ways the adjacency allows
+  const adjacency = getAdjacency(params.adjacency);
+  if (state.isGameOver || !adjacency.directions.includes(direction)) {
+    return { state, events: [], moved: false };
+  }
+
+  // Filter out any stale tiles (disappearing tiles with value 0)
+  const tiles = state.tiles.filter(t => t.value !== 0 && !t.isDisappearing);
+  const rules = getScoringRules(params.scoring);
+  const mergeRule = getMergeRule(params.mergeRule);
+  const slide = slideTiles(tiles, direction, tileId, getBoardShape(params), adjacency, state.nextTileId, rules, mergeRule);
+
+  if (!slide.moved) {
+    return { state, events: [], moved: false };
+  }
+
+  let currentTileId = slide.nextTileId;
+  const movedTiles = slide.tiles;
+  const events: MoveEvent[] = [];
+
+  events.push({
+    type: 'slide',
+    paths: Array.from(slide.paths, ([id, path]) => ({ tileId: id, path })),
+    frames: buildSlideFrames(movedTiles, slide.paths),
+  });
+  events.push(...slide.collisions);
+  events.push({ type: 'settle', tiles: movedTiles, score: state.score + slide.score });
+
+  // Process chain reactions after initial merges
+  // Tiles that already merged during movement keep their result for this move;
+  // chain reactions only process new adjacent possibilities created by movement
+  const activeTiles = movedTiles.filter(t =>
+    t.value !== 0 &&
+    !t.mergeHighlight &&
+    !t.isDividing &&
+    !t.isPowerEliminating
+  );
+  const filteredMergedTiles = movedTiles.filter(t =>
+    t.value !== 0 &&
+    (t.mergeHighlight || t.isDividing || t.isPowerEliminating)
+  );
+  // Initial chain multiplier is 1 (the scoring rules grow it with each chain iteration)
+  const chainResult = processChainReactions(activeTiles, 1, currentTileId, rules, adjacency, mergeRule);
+  currentTileId = chainResult.nextTileId;
+
+  chainResult.chainSteps.forEach((stepTiles, i) => {
+    const reactions = chainResult.chainReactions[i];
+    events.push({ type: 'chain', step: i + 1, tiles: stepTiles, reactions });
+    for (const reaction of reactions) {
+      events.push({
+        type: 'score',
+        reason: reaction.type,
+        row: reaction.row,
+        col: reaction.col,
+        points: reaction.score,
+        multiplier: reaction.multiplier,
+        chainStep: i + 1,
+        powerType: reaction.powerType,
+      });
+    }
+  });
+
+  const moveCount = state.moveCount + 1;
+  let nextState: GameState = {
+    ...state,
+    tiles: toPlainTiles([...chainResult.tiles, ...filteredMergedTiles]),
+    score: state.score + slide.score + chainResult.scoreGained,
+    moveCount,
+    nextTileId: currentTileId,
+    maxChain: Math.max(state.maxChain, chainResult.chainCount),
+    moves: appendMove(state, tileId !== undefined ? [direction, tileId] : [direction]),
+  };
+
+  // Add new tile every k moves, or whenever a tile disappeared
+  // A board cleared in clear mode is the goal, so nothing is placed on it
+  const hasDisappearing = movedTiles.some(t => t.value === 0) || chainResult.scoreGained > 0;
+  const clearedGoal = getMode(params).type === 'clear' && isBoardCleared(nextState);
+  if ((moveCount % params.k === 0 || hasDisappearing) && !clearedGoal) {
+    const spawn = placeRandomTile(nextState, params, random);
+    nextState = spawn.state;
+    if (spawn.tile) {
+      events.push({ type: 'spawn', tile: spawn.tile });
+    }
+  }
+
+  nextState = { ...nextState, isGameOver: isGameOver(nextState, params) };
+
+  return { state: nextState, events, moved: true };
+}
@@ -6,7 +6,12 @@ import {
   getEmptyPositions,
   isPerfectSquare,
   isPerfectCube,
+  isPerfectPower,
+  factorize,
+  largestPrimeFactor,
+  gcd,
   checkPerfectPowerElimination,
+  getPerfectPowerExponent,
   checkMultiTileFactorization,
 } from './gameLogic';
 
@@ -69,6 +74,26 @@ describe('generateRandomTileValue', () => {
       expect(value).toBeLessThanOrEqual(343);
     }
   });
+
+  it('should use primes up to 97', () => {
+    let random = 0;
+    // Steps through every choice, so the largest prime is drawn too
+    const sweep = () => (random = (random + 0.0137) % 1);
+
+    const values = Array.from({ length: 500 }, () => generateRandomTileValue(97, sweep));
+
+    expect(values.every(v => [...factorize(v).keys()].every(prime => prime <= 97))).toBe(true);
+    expect(values.some(v => v % 97 === 0)).toBe(true);
+    expect(Math.max(...values)).toBeLessThanOrEqual(97 ** 3);
+  });
+
+  it('should leave out a prime that would make the value unsafe', () => {
+    // Three of the largest prime below 300000 would pass Number.MAX_SAFE_INTEGER
+    const value = generateRandomTileValue(300000, () => 0.9999999);
+
+    expect(Number.isSafeInteger(value)).toBe(true);
+    expect(value).toBe(299993 * 299993);
+  });
 });
 
 describe('isDivisor', () => {
@@ -129,6 +154,43 @@ describe('getEmptyPositions', () => {
     const empty = getEmptyPositions(tiles, 3);
     expect(empty).toHaveLength(8);
   });
+
+  it('should list the open cells of a shaped board row by row', () => {
+    const shape = { width: 3, height: 2, blocked: [{ row: 0, col: 1 }] };
+    const empty = getEmptyPositions([{ row: 1, col: 2 }], shape);
+    expect(empty).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 2 },
+      { row: 1, col: 0 },
+      { row: 1, col: 1 },
+    ]);
+  });
+});
+
+describe('factorize', () => {
+  it('should map each prime to its exponent', () => {
+    expect(factorize(360)).toEqual(new Map([[2, 3], [3, 2], [5, 1]]));
+    expect(factorize(97 * 89 * 89)).toEqual(new Map([[89, 2], [97, 1]]));
+    expect(factorize(1)).toEqual(new Map());
+  });
+});
+
+describe('largestPrimeFactor', () => {
+  it('should return the largest prime dividing the value', () => {
+    expect(largestPrimeFactor(360)).toBe(5);
+    expect(largestPrimeFactor(97 * 2)).toBe(97);
+    expect(largestPrimeFactor(7)).toBe(7);
+    expect(largestPrimeFactor(1)).toBe(1);
+  });
+});
+
+describe('gcd', () => {
+  it('should return the greatest common divisor', () => {
+    expect(gcd(12, 18)).toBe(6);
+    expect(gcd(35, 6)).toBe(1);
+    expect(gcd(7, 7)).toBe(7);
+    expect(gcd(97 * 89, 89 * 83)).toBe(89);
+  });
 });
 
 describe('isPerfectSquare', () => {
@@ -196,6 +258,47 @@ describe('isPerfectCube', () => {
   });
 });
 
+describe('isPerfectPower', () => {
+  it('should be exact next to the largest safe integer', () => {
+    const root = 94906265; // root² is just below Number.MAX_SAFE_INTEGER
+
+    expect(isPerfectPower(root * root, 2)).toBe(true);
+    expect(isPerfectPower(root * root - 1, 2)).toBe(false);
+    expect(isPerfectPower(root * root + 1, 2)).toBe(false);
+    expect(isPerfectPower(208063 ** 3, 3)).toBe(true);
+    expect(isPerfectPower(208063 ** 3 - 1, 3)).toBe(false);
+    expect(isPerfectPower(97 ** 8, 8)).toBe(true);
+  });
+
+  it('should reject values that are not safe positive integers', () => {
+    expect(isPerfectPower(2.25, 2)).toBe(false);
+    expect(isPerfectPower(2 ** 60, 2)).toBe(false);
+  });
+});
+
+describe('getPerfectPowerExponent', () => {
+  it('should find any exponent', () => {
+    expect(getPerfectPowerExponent(16)).toBe(4); // 2^4
+    expect(getPerfectPowerExponent(32)).toBe(5); // 2^5
+    expect(getPerfectPowerExponent(81)).toBe(4); // 3^4
+    expect(getPerfectPowerExponent(49)).toBe(2); // 7^2
+    expect(getPerfectPowerExponent(2 ** 52)).toBe(52);
+  });
+
+  it('should take the gcd of the prime exponents', () => {
+    expect(getPerfectPowerExponent(2 ** 4 * 3 ** 6)).toBe(2); // (2^2 × 3^3)^2
+    expect(getPerfectPowerExponent(2 ** 6 * 5 ** 9)).toBe(3); // (2^2 × 5^3)^3
+    expect(getPerfectPowerExponent(2 ** 2 * 3 ** 3)).toBeNull(); // 108
+  });
+
+  it('should return null for values that are no perfect powers', () => {
+    expect(getPerfectPowerExponent(1)).toBeNull();
+    expect(getPerfectPowerExponent(0)).toBeNull();
+    expect(getPerfectPowerExponent(12)).toBeNull();
+    expect(getPerfectPowerExponent(97)).toBeNull();
+  });
+});
+
 describe('checkPerfectPowerElimination', () => {
   it('should return null for different values', () => {
     expect(checkPerfectPowerElimination(4, 9)).toBeNull();
@@ -203,26 +306,26 @@ describe('checkPerfectPowerElimination', () => {
     expect(checkPerfectPowerElimination(8, 27)).toBeNull();
   });
 
-  it('should return "square" for equal perfect squares', () => {
-    expect(checkPerfectPowerElimination(4, 4)).toBe('square');
-    expect(checkPerfectPowerElimination(9, 9)).toBe('square');
-    expect(checkPerfectPowerElimination(16, 16)).toBe('square');
-    expect(checkPerfectPowerElimination(25, 25)).toBe('square');
+  it('should return 2 for equal perfect squares', () => {
+    expect(checkPerfectPowerElimination(4, 4)).toBe(2);
+    expect(checkPerfectPowerElimination(9, 9)).toBe(2);
+    expect(checkPerfectPowerElimination(36, 36)).toBe(2);
+    expect(checkPerfectPowerElimination(25, 25)).toBe(2);
   });
 
-  it('should return "cube" for equal perfect cubes that are not squares', () => {
-    expect(checkPerfectPowerElimination(8, 8)).toBe('cube');
-    expect(checkPerfectPowerElimination(27, 27)).toBe('cube');
-    expect(checkPerfectPowerElimination(125, 125)).toBe('cube');
-    expect(checkPerfectPowerElimination(216, 216)).toBe('cube');
+  it('should return 3 for equal perfect cubes that are not squares', () => {
+    expect(checkPerfectPowerElimination(8, 8)).toBe(3);
+    expect(checkPerfectPowerElimination(27, 27)).toBe(3);
+    expect(checkPerfectPowerElimination(125, 125)).toBe(3);
+    expect(checkPerfectPowerElimination(216, 216)).toBe(3);
   });
 
-  it('should prioritize square over cube for 64', () => {
-    // 64 is both 8^2 and 4^3, should return 'square'
-    expect(checkPerfectPowerElimination(64, 64)).toBe('square');
+  it('should return the largest exponent for 64', () => {
+    // 64 is 8^2 and 4^3, but most of all 2^6
+    expect(checkPerfectPowerElimination(64, 64)).toBe(6);
   });
 
-  it('should return null for equal values that are neither square nor cube', () => {
+  it('should return null for equal values that are not perfect powers', () => {
     expect(checkPerfectPowerElimination(2, 2)).toBeNull();
     expect(checkPerfectPowerElimination(3, 3)).toBeNull();
     expect(checkPerfectPowerElimination(5, 5)).toBeNull();
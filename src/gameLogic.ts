@@ -1,3 +1,24 @@
+/**
+ * Game Logic - Tile values and the number theory behind merges
+ *
+ * Tile values are always safe integers (Number.isSafeInteger): spawned values
+ * are multiplied in BigInt and never leave that range, and saves, links and
+ * level packs reject anything else. Merges only divide a value by one of its
+ * divisors, so every later value is exact too. A given power is tested with
+ * an integer root in BigInt, while the exponent of a perfect power and the
+ * divisors come from the prime factorization, so nothing depends on floating
+ * point rounding however large a value gets.
+ */
+
+import type { BoardShape } from './boardShape';
+import { getSpawnDistribution } from './spawnDistribution';
+import type { SpawnDistribution } from './spawnDistribution';
+
+// Largest max prime p; the settings, saves, links and replays accept no larger
+export const MAX_PRIME = 97;
+
+const MAX_SAFE_VALUE = BigInt(Number.MAX_SAFE_INTEGER);
+
 // Generate primes up to max using Sieve of Eratosthenes
 export function generatePrimes(max: number): number[] {
   if (max < 2) return [];
@@ -18,21 +39,54 @@ export function generatePrimes(max: number): number[] {
     .filter(num => num !== -1);
 }
 
+// Source of uniformly distributed numbers in [0, 1), compatible with Math.random
+export type RandomSource = () => number;
+
+// Pick an index with a chance proportional to its weight
+// With equal weights this is exactly Math.floor(random() * weights.length)
+function pickWeighted(weights: number[], random: RandomSource): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  
+  for (let i = 0; i < weights.length - 1; i++) {
+    target -= weights[i];
+    if (target < 0) return i;
+  }
+  
+  return weights.length - 1;
+}
+
 // Generate a random tile value as a product of primes up to maxPrime
-export function generateRandomTileValue(maxPrime: number): number {
-  const primes = generatePrimes(maxPrime);
+// The distribution weighs the primes and the number of factors; boardValues
+// are the tiles already on the board, for its board-aware bias
+export function generateRandomTileValue(
+  maxPrime: number,
+  random: RandomSource = Math.random,
+  distribution: SpawnDistribution = getSpawnDistribution(),
+  boardValues: number[] = []
+): number {
+  const cap = distribution.maxValue === null ? MAX_SAFE_VALUE : BigInt(distribution.maxValue);
+  const primes = generatePrimes(Math.min(maxPrime, distribution.maxValue ?? maxPrime));
   if (primes.length === 0) return 2;
   
-  // Generate a random product of 1-3 primes
-  const numPrimes = Math.floor(Math.random() * 3) + 1;
-  let value = 1;
+  const weights = primes.map(prime => {
+    const onBoard = distribution.boardBias > 0 && boardValues.some(value => value > 0 && value % prime === 0);
+    return distribution.primeWeight(prime) * (onBoard ? 1 + distribution.boardBias : 1);
+  });
+  
+  // Generate a random product of primes
+  const numPrimes = pickWeighted(distribution.factorCountWeights, random) + 1;
+  let value = 1n;
   
   for (let i = 0; i < numPrimes; i++) {
-    const randomPrime = primes[Math.floor(Math.random() * primes.length)];
-    value *= randomPrime;
+    const randomPrime = BigInt(primes[pickWeighted(weights, random)]);
+    // A prime that would take the value past the cap or the safe integer range is left out
+    if (value * randomPrime <= cap && value * randomPrime <= MAX_SAFE_VALUE) {
+      value *= randomPrime;
+    }
   }
   
-  return value;
+  return Number(value);
 }
 
 // Check if a is a divisor of b
@@ -40,16 +94,18 @@ export function isDivisor(a: number, b: number): boolean {
   return b % a === 0;
 }
 
-// Get all empty positions on the board
+// Get all empty positions on the board, row by row
+// The board is boardSize × boardSize, or a shape whose wall cells are never empty
 export function getEmptyPositions(
   tiles: Array<{ row: number; col: number }>,
-  boardSize: number
+  board: number | BoardShape
 ): Array<{ row: number; col: number }> {
-  const occupied = new Set(tiles.map(t => `${t.row},${t.col}`));
+  const shape = typeof board === 'number' ? { width: board, height: board, blocked: [] } : board;
+  const occupied = new Set([...tiles, ...shape.blocked].map(t => `${t.row},${t.col}`));
   const empty: Array<{ row: number; col: number }> = [];
   
-  for (let row = 0; row < boardSize; row++) {
-    for (let col = 0; col < boardSize; col++) {
+  for (let row = 0; row < shape.height; row++) {
+    for (let col = 0; col < shape.width; col++) {
       if (!occupied.has(`${row},${col}`)) {
         empty.push({ row, col });
       }
@@ -59,25 +115,67 @@ export function getEmptyPositions(
   return empty;
 }
 
-// Epsilon for floating point precision comparisons
-const FLOAT_PRECISION_EPSILON = 0.0001;
+// Prime factorization as prime → exponent, e.g. 360 → 2³ × 3² × 5 is {2: 3, 3: 2, 5: 1}
+// Tile values are products of small primes, so the trial division ends early
+export function factorize(n: number): Map<number, number> {
+  const factors = new Map<number, number>();
+  let rest = n;
+  
+  for (let divisor = 2; divisor * divisor <= rest; divisor++) {
+    while (rest % divisor === 0) {
+      factors.set(divisor, (factors.get(divisor) ?? 0) + 1);
+      rest /= divisor;
+    }
+  }
+  if (rest > 1) {
+    factors.set(rest, (factors.get(rest) ?? 0) + 1);
+  }
+  
+  return factors;
+}
+
+// Largest prime dividing n (1 has none and gives 1)
+export function largestPrimeFactor(n: number): number {
+  return Math.max(1, ...factorize(n).keys());
+}
+
+// Greatest common divisor by Euclid's algorithm
+export function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+// Largest r with r^k <= n, by Newton's method in BigInt so no rounding creeps in
+function integerRoot(n: bigint, k: bigint): bigint {
+  if (n < 2n) return n;
+  
+  // Start above the root and step down until the estimate stops shrinking
+  let root = 1n << BigInt(Math.ceil(n.toString(2).length / Number(k)));
+  while (true) {
+    const next = ((k - 1n) * root + n / root ** (k - 1n)) / k;
+    if (next >= root) return root;
+    root = next;
+  }
+}
+
+// Check if a number is a perfect k-th power (r^k for a whole number r)
+export function isPerfectPower(n: number, k: number): boolean {
+  if (!Number.isSafeInteger(n) || n <= 0) return false;
+  const value = BigInt(n);
+  const exponent = BigInt(k);
+  return integerRoot(value, exponent) ** exponent === value;
+}
 
 // Check if a number is a perfect square (n²)
 export function isPerfectSquare(n: number): boolean {
-  if (n <= 0) return false;
-  const sqrt = Math.sqrt(n);
-  // Use epsilon to handle floating point precision
-  const rounded = Math.round(sqrt);
-  return Math.abs(rounded * rounded - n) < FLOAT_PRECISION_EPSILON;
+  return isPerfectPower(n, 2);
 }
 
 // Check if a number is a perfect cube (n³)
 export function isPerfectCube(n: number): boolean {
-  if (n <= 0) return false;
-  const cbrt = Math.cbrt(n);
-  // Use a small epsilon to handle floating point precision
-  const rounded = Math.round(cbrt);
-  return Math.abs(rounded ** 3 - n) < FLOAT_PRECISION_EPSILON;
+  return isPerfectPower(n, 3);
 }
 
 // Check if two tiles should eliminate each other (equal values)
@@ -86,45 +184,43 @@ export function checkEqualValueElimination(value1: number, value2: number): bool
   return value1 === value2;
 }
 
-// Check if two equal numbers form a perfect power (square or cube)
-// Returns the type of power if they do, null otherwise
-export function checkPerfectPowerElimination(value1: number, value2: number): 'square' | 'cube' | null {
+// Exponent k ≥ 2 of a perfect k-th power elimination (2 is a square, 3 a cube)
+export type PowerType = number;
+
+// Largest k ≥ 2 with n a perfect k-th power, or null when n is no perfect power
+// n = p₁^e₁ × … × pᵢ^eᵢ is a k-th power exactly when k divides every exponent,
+// so the largest k is their gcd: 64 = 2⁶ is a 6th power, 36 = 2² × 3² a square
+export function getPerfectPowerExponent(n: number): PowerType | null {
+  if (!Number.isSafeInteger(n) || n <= 1) return null;
+  const exponent = [...factorize(n).values()].reduce(gcd);
+  return exponent >= 2 ? exponent : null;
+}
+
+// Check if two equal numbers form a perfect power
+// Returns its largest exponent if they do (see getPerfectPowerExponent), null otherwise
+export function checkPerfectPowerElimination(value1: number, value2: number): PowerType | null {
   // Only check if both values are equal
   if (value1 !== value2) return null;
   
-  // Check for perfect square (e.g., 4, 9, 16, 25)
-  if (isPerfectSquare(value1)) {
-    return 'square';
-  }
-  
-  // Check for perfect cube (e.g., 8, 27, 64, 125)
-  if (isPerfectCube(value1)) {
-    return 'cube';
-  }
-  
-  return null;
+  return getPerfectPowerExponent(value1);
 }
 
-// Get all divisors of a number (optimized to check only up to sqrt(n))
+// Get all divisors of a number above 1, built from its prime factorization
 function getDivisors(n: number): number[] {
-  const divisors: number[] = [];
-  const sqrt = Math.sqrt(n);
-  
-  for (let i = 2; i <= sqrt; i++) {
-    if (n % i === 0) {
-      divisors.push(i);
-      const complement = n / i;
-      if (complement !== i && complement !== n) {
-        divisors.push(complement);
+  let divisors = [1];
+  
+  for (const [prime, exponent] of factorize(n)) {
+    divisors = divisors.flatMap(divisor => {
+      const multiples = [divisor];
+      for (let i = 0; i < exponent; i++) {
+        multiples.push(multiples[i] * prime);
       }
-    }
+      return multiples;
+    });
   }
   
-  // Always add n itself as a divisor
-  divisors.push(n);
-  
   // Sort divisors in ascending order for consistent results
-  return divisors.sort((a, b) => a - b);
+  return divisors.filter(divisor => divisor > 1).sort((a, b) => a - b);
 }
 
 // Find all ways to factor a number into exactly 'count' factors (> 1)
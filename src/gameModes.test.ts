@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { getModeKey, parseModeKey, readMode, getRemainingMoves, getRemainingTime, isRankedResult } from './gameModes';
+import type { GameMode } from './gameModes';
+import { createInitialState } from './gameEngine';
+import type { GameParams } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7 };
+
+describe('getModeKey / parseModeKey', () => {
+  it('should read back every mode from its key', () => {
+    const modes: GameMode[] = [
+      { type: 'endless' },
+      { type: 'moves', limit: 50 },
+      { type: 'timeAttack', seconds: 120 },
+      { type: 'clear' },
+    ];
+
+    for (const mode of modes) {
+      expect(parseModeKey(getModeKey(mode))).toEqual(mode);
+    }
+  });
+
+  it('should reject invalid keys', () => {
+    expect(parseModeKey('')).toBeNull();
+    expect(parseModeKey('moves')).toBeNull();
+    expect(parseModeKey('moves-0')).toBeNull();
+    expect(parseModeKey('time-1.5')).toBeNull();
+    expect(parseModeKey('sprint-10')).toBeNull();
+  });
+});
+
+describe('readMode', () => {
+  it('should accept valid modes and reject anything else', () => {
+    expect(readMode({ type: 'moves', limit: 30 })).toEqual({ type: 'moves', limit: 30 });
+    expect(readMode({ type: 'clear', limit: 30 })).toEqual({ type: 'clear' });
+    expect(readMode({ type: 'timeAttack', seconds: -1 })).toBeNull();
+    expect(readMode({ type: 'moves' })).toBeNull();
+    expect(readMode('endless')).toBeNull();
+    expect(readMode(null)).toBeNull();
+  });
+});
+
+describe('mode progress', () => {
+  it('should count down moves and time only in their own modes', () => {
+    const state = { ...createInitialState(PARAMS, 1), moveCount: 12, elapsedMs: 45_000 };
+
+    expect(getRemainingMoves(state, { ...PARAMS, mode: { type: 'moves', limit: 30 } })).toBe(18);
+    expect(getRemainingTime(state, { ...PARAMS, mode: { type: 'timeAttack', seconds: 60 } })).toBe(15_000);
+    expect(getRemainingMoves(state, PARAMS)).toBeNull();
+    expect(getRemainingTime(state, PARAMS)).toBeNull();
+  });
+
+  it('should only rank clear games that emptied the board', () => {
+    const params: GameParams = { ...PARAMS, mode: { type: 'clear' } };
+    const state = createInitialState(PARAMS, 1);
+
+    expect(isRankedResult(state, params)).toBe(false);
+    expect(isRankedResult({ ...state, tiles: [] }, params)).toBe(true);
+    expect(isRankedResult(state, PARAMS)).toBe(true);
+  });
+});
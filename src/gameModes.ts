@@ -0,0 +1,147 @@
+/**
+ * Game Modes - End conditions and ranking for each way to play
+ *
+ * - endless: play until no move is left (the original game)
+ * - moves: score as much as possible within a fixed number of moves
+ * - timeAttack: score as much as possible before the clock runs out; the clock
+ *   starts with the first move and pauses while chain reactions play
+ * - clear: empty the board in as few moves as possible; no tile is spawned
+ *   onto a cleared board
+ *
+ * The mode is a game parameter, so every mode has its own high-score table.
+ * A mode is written as a short key (endless, moves-50, time-60, clear) in
+ * share links and high-score table keys.
+ */
+
+import type { GameState, GameParams } from './types';
+
+export type GameMode =
+  | { type: 'endless' }
+  | { type: 'moves'; limit: number }
+  | { type: 'timeAttack'; seconds: number }
+  | { type: 'clear' };
+
+export type GameModeType = GameMode['type'];
+
+export const ENDLESS_MODE: GameMode = { type: 'endless' };
+
+export const MOVE_LIMITS = [30, 50, 100];
+export const TIME_ATTACK_SECONDS = [60, 120, 180];
+
+export const MODE_LABELS: Record<GameModeType, string> = {
+  endless: 'エンドレス',
+  moves: '手数制限',
+  timeAttack: 'タイムアタック',
+  clear: '盤面クリア',
+};
+
+export function getMode(params: GameParams): GameMode {
+  return params.mode ?? ENDLESS_MODE;
+}
+
+/**
+ * The default variant of each mode type, used when switching modes in the settings
+ */
+export function createMode(type: GameModeType): GameMode {
+  switch (type) {
+    case 'endless': return ENDLESS_MODE;
+    case 'moves': return { type, limit: MOVE_LIMITS[1] };
+    case 'timeAttack': return { type, seconds: TIME_ATTACK_SECONDS[0] };
+    case 'clear': return { type };
+  }
+}
+
+export function getModeKey(mode: GameMode): string {
+  switch (mode.type) {
+    case 'endless': return 'endless';
+    case 'moves': return `moves-${mode.limit}`;
+    case 'timeAttack': return `time-${mode.seconds}`;
+    case 'clear': return 'clear';
+  }
+}
+
+/**
+ * Read a mode key; returns null for anything that is not a valid mode
+ */
+export function parseModeKey(key: string): GameMode | null {
+  if (key === 'endless') return ENDLESS_MODE;
+  if (key === 'clear') return { type: 'clear' };
+
+  const match = /^(moves|time)-([1-9]\d{0,5})$/.exec(key);
+  if (!match) return null;
+  const value = Number(match[2]);
+  return match[1] === 'moves' ? { type: 'moves', limit: value } : { type: 'timeAttack', seconds: value };
+}
+
+/**
+ * Validate a mode read from saved data; returns null if it is not a valid mode
+ */
+export function readMode(value: unknown): GameMode | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { type, limit, seconds } = value as Record<string, unknown>;
+  switch (type) {
+    case 'endless':
+    case 'clear':
+      return { type };
+    case 'moves':
+      return Number.isSafeInteger(limit) && (limit as number) > 0 ? { type, limit: limit as number } : null;
+    case 'timeAttack':
+      return Number.isSafeInteger(seconds) && (seconds as number) > 0 ? { type, seconds: seconds as number } : null;
+    default:
+      return null;
+  }
+}
+
+export function formatMode(mode: GameMode): string {
+  switch (mode.type) {
+    case 'endless':
+    case 'clear':
+      return MODE_LABELS[mode.type];
+    case 'moves': return `${MODE_LABELS.moves}（${mode.limit}手）`;
+    case 'timeAttack': return `${MODE_LABELS.timeAttack}（${mode.seconds}秒）`;
+  }
+}
+
+export function isBoardCleared(state: GameState): boolean {
+  return state.tiles.every(t => t.value === 0);
+}
+
+/**
+ * Moves left in a moves game; null in other modes
+ */
+export function getRemainingMoves(state: GameState, params: GameParams): number | null {
+  const mode = getMode(params);
+  if (mode.type !== 'moves') return null;
+  return Math.max(0, mode.limit - state.moveCount);
+}
+
+/**
+ * Milliseconds left on the clock of a time-attack game; null in other modes
+ */
+export function getRemainingTime(state: GameState, params: GameParams): number | null {
+  const mode = getMode(params);
+  if (mode.type !== 'timeAttack') return null;
+  return Math.max(0, mode.seconds * 1000 - state.elapsedMs);
+}
+
+/**
+ * Whether the mode's own end condition has been reached
+ * (running out of moves on the board ends every mode as well)
+ */
+export function isModeFinished(state: GameState, params: GameParams): boolean {
+  const mode = getMode(params);
+  switch (mode.type) {
+    case 'endless': return false;
+    case 'moves': return state.moveCount >= mode.limit;
+    case 'timeAttack': return state.elapsedMs >= mode.seconds * 1000;
+    case 'clear': return isBoardCleared(state);
+  }
+}
+
+/**
+ * Whether a finished game goes into the high-score table
+ * A clear game only counts when the board was actually cleared
+ */
+export function isRankedResult(state: GameState, params: GameParams): boolean {
+  return getMode(params).type !== 'clear' || isBoardCleared(state);
+}
@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import { processChainReactions } from './chainReactionLogic';
+import { getScoringRules } from './scoring';
+import { getAdjacency } from './adjacency';
+import { getMergeRule, isMergeRuleId } from './mergeRules';
+import { applyMove } from './gameEngine';
+import type { GameParams, GameState, Tile } from './types';
+
+const GCD_RULE = getMergeRule('gcd');
+
+// Chain reactions under the gcd merge rule with the default scoring and adjacency
+function processWithGcd(tiles: Tile[], startTileId: number) {
+  return processChainReactions(tiles, 1, startTileId, getScoringRules(), getAdjacency(), GCD_RULE);
+}
+
+describe('GCD Merge Rule - Chain Reactions', () => {
+  it('should divide 12 and 18 by their gcd 6', () => {
+    // 12 and 18 share the factor 6, but neither divides the other
+    const tiles: Tile[] = [
+      { id: 1, value: 12, row: 0, col: 0 },
+      { id: 2, value: 18, row: 0, col: 1 },
+    ];
+
+    const result = processWithGcd(tiles, 3);
+
+    // Both tiles stay, divided by 6
+    expect(result.tiles.map(t => ({ value: t.value, row: t.row, col: t.col }))).toEqual([
+      { value: 2, row: 0, col: 0 },
+      { value: 3, row: 0, col: 1 },
+    ]);
+    expect(result.chainCount).toBe(1);
+
+    // Score should be sum of both values
+    expect(result.scoreGained).toBe(30); // 12 + 18
+    expect(result.chainReactions[0]).toEqual([
+      { type: 'reduction', row: 0, col: 0, powerType: null, score: 30, multiplier: 1 },
+    ]);
+  });
+
+  it('should leave 12 and 18 alone under the default rule', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 12, row: 0, col: 0 },
+      { id: 2, value: 18, row: 0, col: 1 },
+    ];
+
+    const result = processChainReactions(tiles, 1, 3);
+
+    expect(result.tiles).toHaveLength(2);
+    expect(result.chainCount).toBe(0);
+    expect(result.scoreGained).toBe(0);
+  });
+
+  it('should not reduce coprime tiles', () => {
+    // 35 and 6 share no factor
+    const tiles: Tile[] = [
+      { id: 1, value: 35, row: 0, col: 0 },
+      { id: 2, value: 6, row: 0, col: 1 },
+    ];
+
+    const result = processWithGcd(tiles, 3);
+
+    expect(result.tiles).toHaveLength(2);
+    expect(result.chainCount).toBe(0);
+  });
+
+  it('should still divide a multiple instead of reducing', () => {
+    // 3 divides 147, so the division step applies first: 3 disappears and 147 becomes 49
+    const tiles: Tile[] = [
+      { id: 1, value: 3, row: 0, col: 0 },
+      { id: 2, value: 147, row: 0, col: 1 },
+    ];
+
+    const result = processWithGcd(tiles, 3);
+
+    expect(result.tiles).toHaveLength(1);
+    expect(result.tiles[0].value).toBe(49);
+    expect(result.chainReactions[0][0].type).toBe('division');
+  });
+
+  it('should still eliminate equal tiles instead of reducing', () => {
+    const tiles: Tile[] = [
+      { id: 1, value: 9, row: 0, col: 0 },
+      { id: 2, value: 9, row: 0, col: 1 },
+    ];
+
+    const result = processWithGcd(tiles, 3);
+
+    expect(result.tiles).toHaveLength(0);
+    expect(result.chainReactions[0][0]).toMatchObject({ type: 'elimination', powerType: 2 });
+  });
+
+  it('should factorize before reducing', () => {
+    // 4 = 2 × 2 with each factor taken from an adjacent 4; the 6 shares 2 with the center
+    const tiles: Tile[] = [
+      { id: 1, value: 4, row: 1, col: 1 },
+      { id: 2, value: 4, row: 0, col: 1 },
+      { id: 3, value: 4, row: 1, col: 0 },
+      { id: 4, value: 6, row: 1, col: 2 },
+    ];
+
+    const result = processWithGcd(tiles, 5);
+
+    expect(result.chainReactions[0].map(r => r.type)).toEqual(['factorization']);
+  });
+
+  it('should pair with the neighbour sharing the largest factor', () => {
+    // 12 shares 2 with 10 and 6 with 18
+    const tiles: Tile[] = [
+      { id: 1, value: 10, row: 0, col: 0 },
+      { id: 2, value: 12, row: 0, col: 1 },
+      { id: 3, value: 18, row: 0, col: 2 },
+    ];
+
+    const result = processWithGcd(tiles, 4);
+
+    // 10 is processed first and pairs with 12 (gcd 2) before 12 gets its turn
+    expect(result.chainReactions[0]).toHaveLength(1);
+    expect(result.chainReactions[0][0]).toMatchObject({ type: 'reduction', row: 0, col: 0 });
+
+    const tiles2: Tile[] = [
+      { id: 1, value: 12, row: 0, col: 1 },
+      { id: 2, value: 20, row: 0, col: 0 },
+      { id: 3, value: 18, row: 0, col: 2 },
+    ];
+    const result2 = processWithGcd(tiles2, 4);
+
+    // 12 is the smallest: gcd 4 with 20, gcd 6 with 18, so it pairs with 18 → 2 and 3
+    expect(result2.chainSteps[0].map(t => t.value).sort((a, b) => a - b)).toEqual([2, 3, 20]);
+    // Then the 2 divides the 20
+    expect(result2.tiles.map(t => t.value).sort((a, b) => a - b)).toEqual([3, 10]);
+  });
+
+  it('should continue the chain after a reduction', () => {
+    // [12] [18]      12 and 18 → 2 and 3 (15 is not next to 12 and 18 is taken)
+    //      [15]      then the new 3 divides 15
+    const tiles: Tile[] = [
+      { id: 1, value: 12, row: 0, col: 0 },
+      { id: 2, value: 18, row: 0, col: 1 },
+      { id: 3, value: 15, row: 1, col: 1 },
+    ];
+
+    const result = processWithGcd(tiles, 4);
+
+    expect(result.chainReactions.map(step => step.map(r => r.type))).toEqual([['reduction'], ['division']]);
+    expect(result.tiles.map(t => t.value).sort((a, b) => a - b)).toEqual([2, 5]);
+    expect(result.chainCount).toBe(2);
+  });
+});
+
+describe('GCD Merge Rule - Slide Collisions', () => {
+  const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7, mergeRule: 'gcd' };
+
+  function stateWith(tiles: Tile[]): GameState {
+    return {
+      tiles,
+      score: 0,
+      moveCount: 0,
+      nextTileId: 100,
+      seed: 1,
+      rngState: 1,
+      maxChain: 0,
+      isGameOver: false,
+      undosUsed: 0,
+      hintsUsed: 0,
+      moves: [],
+      fromSharedLink: false,
+      autoPlayed: false,
+      elapsedMs: 0,
+      daily: null,
+    };
+  }
+
+  it('should reduce both tiles and stop the sliding tile in front', () => {
+    const state = stateWith([
+      { id: 1, value: 12, row: 0, col: 0 },
+      { id: 2, value: 18, row: 0, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, PARAMS, () => 0.99);
+
+    expect(result.moved).toBe(true);
+    expect(result.events).toContainEqual({ type: 'reduce', row: 0, col: 0, divisor: 6, values: [18, 12], score: 30 });
+    expect(result.events).toContainEqual(expect.objectContaining({ type: 'score', reason: 'reduction', chainStep: 0 }));
+    expect(result.state.tiles).toEqual(expect.arrayContaining([
+      expect.objectContaining({ value: 2, row: 0, col: 0 }),
+      expect.objectContaining({ value: 3, row: 0, col: 1 }),
+    ]));
+    expect(result.state.score).toBe(30);
+  });
+
+  it('should only stop next to a tile sharing a factor under the default rule', () => {
+    const state = stateWith([
+      { id: 1, value: 12, row: 0, col: 0 },
+      { id: 2, value: 18, row: 0, col: 3 },
+    ]);
+
+    const result = applyMove(state, 'left', undefined, { ...PARAMS, mergeRule: undefined }, () => 0.99);
+
+    expect(result.events.some(e => e.type === 'reduce')).toBe(false);
+    expect(result.state.tiles).toContainEqual({ id: 2, value: 18, row: 0, col: 1 });
+    expect(result.state.score).toBe(0);
+  });
+
+  it('should count a reduction with an adjacent tile as a move', () => {
+    const state = stateWith([
+      { id: 1, value: 12, row: 0, col: 0 },
+      { id: 2, value: 18, row: 0, col: 1 },
+    ]);
+
+    expect(applyMove(state, 'left', 2, PARAMS, () => 0.99).moved).toBe(true);
+    expect(applyMove(state, 'left', 2, { ...PARAMS, mergeRule: 'divisor' }, () => 0.99).moved).toBe(false);
+  });
+});
+
+describe('merge rules', () => {
+  it('should default to the divisor rule', () => {
+    expect(getMergeRule().id).toBe('divisor');
+    expect(getMergeRule().gcdReduction).toBe(false);
+    expect(isMergeRuleId('gcd')).toBe(true);
+    expect(isMergeRuleId('toString')).toBe(false);
+  });
+});
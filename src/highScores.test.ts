@@ -0,0 +1,274 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addHighScore,
+  createHighScoreEntry,
+  getRulesKey,
+  parseHighScores,
+  loadHighScores,
+  saveHighScores,
+  MAX_ENTRIES_PER_TABLE,
+  HIGH_SCORES_VERSION,
+  HIGH_SCORES_KEY,
+} from './highScores';
+import type { HighScoreEntry, HighScoreTables } from './highScores';
+import { createInitialState } from './gameEngine';
+import type { GameParams } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7 };
+
+function entry(score: number, overrides: Partial<HighScoreEntry> = {}): HighScoreEntry {
+  return {
+    score,
+    moveCount: 10,
+    maxChain: 1,
+    date: '2026-01-01T00:00:00.000Z',
+    seed: 1,
+    assisted: false,
+    ...overrides,
+  };
+}
+
+describe('getRulesKey', () => {
+  it('should separate tables by every rule parameter', () => {
+    const keys = new Set([
+      getRulesKey(PARAMS),
+      getRulesKey({ ...PARAMS, n: 5 }),
+      getRulesKey({ ...PARAMS, m: 3 }),
+      getRulesKey({ ...PARAMS, k: 2 }),
+      getRulesKey({ ...PARAMS, p: 11 }),
+      getRulesKey({ ...PARAMS, scoring: 'linear' }),
+      getRulesKey({ ...PARAMS, mode: { type: 'moves', limit: 50 } }),
+      getRulesKey({ ...PARAMS, mode: { type: 'moves', limit: 30 } }),
+      getRulesKey({ ...PARAMS, mode: { type: 'timeAttack', seconds: 60 } }),
+      getRulesKey({ ...PARAMS, mode: { type: 'clear' } }),
+      getRulesKey({ ...PARAMS, width: 4, height: 3 }),
+      getRulesKey({ ...PARAMS, blocked: [{ row: 1, col: 1 }] }),
+      getRulesKey({ ...PARAMS, blocked: [{ row: 2, col: 2 }] }),
+    ]);
+
+    expect(keys.size).toBe(13);
+  });
+
+  it('should keep the key of classic endless tables from before scoring presets and modes', () => {
+    expect(getRulesKey({ ...PARAMS, scoring: 'classic', mode: { type: 'endless' } })).toBe('n4-m2-k3-p7');
+    expect(getRulesKey(PARAMS)).toBe('n4-m2-k3-p7');
+  });
+
+  it('should ignore the undo limit', () => {
+    expect(getRulesKey({ ...PARAMS, undoLimit: 3 })).toBe(getRulesKey(PARAMS));
+  });
+});
+
+describe('addHighScore', () => {
+  it('should rank clear games by fewest moves', () => {
+    const params: GameParams = { ...PARAMS, mode: { type: 'clear' } };
+    let tables: HighScoreTables = {};
+    tables = addHighScore(tables, params, entry(500, { moveCount: 20 })).tables;
+    const result = addHighScore(tables, params, entry(100, { moveCount: 12 }));
+
+    expect(result.rank).toBe(0);
+    expect(result.isNewBest).toBe(true);
+    expect(result.tables[getRulesKey(params)].entries.map(e => e.moveCount)).toEqual([12, 20]);
+  });
+
+  it('should report the first score as a new best', () => {
+    const result = addHighScore({}, PARAMS, entry(100));
+
+    expect(result.rank).toBe(0);
+    expect(result.isNewBest).toBe(true);
+    expect(result.tables[getRulesKey(PARAMS)].entries).toHaveLength(1);
+  });
+
+  it('should keep entries sorted by score, then by fewer moves', () => {
+    let tables: HighScoreTables = {};
+    tables = addHighScore(tables, PARAMS, entry(50)).tables;
+    tables = addHighScore(tables, PARAMS, entry(200)).tables;
+    const result = addHighScore(tables, PARAMS, entry(50, { moveCount: 5 }));
+
+    const entries = result.tables[getRulesKey(PARAMS)].entries;
+    expect(entries.map(e => e.score)).toEqual([200, 50, 50]);
+    expect(entries[1].moveCount).toBe(5);
+    expect(result.rank).toBe(1);
+    expect(result.isNewBest).toBe(false);
+  });
+
+  it('should not call a tie a new best', () => {
+    const tables = addHighScore({}, PARAMS, entry(100)).tables;
+
+    expect(addHighScore(tables, PARAMS, entry(100)).isNewBest).toBe(false);
+  });
+
+  it('should never mix scores from different parameters', () => {
+    let tables: HighScoreTables = {};
+    tables = addHighScore(tables, PARAMS, entry(1000)).tables;
+    const result = addHighScore(tables, { ...PARAMS, n: 6 }, entry(10));
+
+    expect(result.isNewBest).toBe(true);
+    expect(result.tables[getRulesKey(PARAMS)].entries).toHaveLength(1);
+    expect(result.tables[getRulesKey({ ...PARAMS, n: 6 })].entries).toHaveLength(1);
+  });
+
+  it('should cap each table and report scores that miss the cut', () => {
+    let tables: HighScoreTables = {};
+    for (let i = 0; i < MAX_ENTRIES_PER_TABLE; i++) {
+      tables = addHighScore(tables, PARAMS, entry(100 + i)).tables;
+    }
+
+    const result = addHighScore(tables, PARAMS, entry(1));
+
+    expect(result.rank).toBeNull();
+    expect(result.tables[getRulesKey(PARAMS)].entries).toHaveLength(MAX_ENTRIES_PER_TABLE);
+  });
+});
+
+describe('createHighScoreEntry', () => {
+  it('should flag games where undo was used as assisted', () => {
+    const state = { ...createInitialState(PARAMS, 42), score: 30, undosUsed: 2 };
+
+    const created = createHighScoreEntry(state, new Date('2026-10-19T00:00:00Z'));
+
+    expect(created).toEqual({
+      score: 30,
+      moveCount: 0,
+      maxChain: 0,
+      date: '2026-10-19T00:00:00.000Z',
+      seed: 42,
+      assisted: true,
+    });
+  });
+
+  it('should flag games where a hint was shown as assisted', () => {
+    const state = { ...createInitialState(PARAMS, 42), hintsUsed: 1 };
+
+    expect(createHighScoreEntry(state).assisted).toBe(true);
+  });
+});
+
+describe('persistence', () => {
+  it('should round-trip through storage', () => {
+    const data = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => { data.set(key, value); },
+      removeItem: (key: string) => { data.delete(key); },
+    };
+    const { tables } = addHighScore({}, PARAMS, entry(77));
+
+    saveHighScores(tables, storage);
+
+    expect(loadHighScores(storage)).toEqual(tables);
+  });
+
+  it('should read back tables of shaped boards', () => {
+    const params: GameParams = { ...PARAMS, width: 4, height: 3, blocked: [{ row: 1, col: 1 }] };
+    const { tables } = addHighScore({}, params, entry(40));
+
+    expect(getRulesKey(params)).toBe('n4-m2-k3-p7-4x3-walls-1-1');
+    expect(parseHighScores(JSON.stringify({ version: HIGH_SCORES_VERSION, tables }))).toEqual(tables);
+  });
+
+  it('should keep separate tables for each adjacency', () => {
+    expect(getRulesKey({ ...PARAMS, adjacency: 'orthogonal' })).toBe(getRulesKey(PARAMS));
+    expect(getRulesKey({ ...PARAMS, adjacency: 'hex' })).toBe('n4-m2-k3-p7-hex');
+
+    const { tables } = addHighScore({}, { ...PARAMS, adjacency: 'diagonal' }, entry(12));
+    expect(parseHighScores(JSON.stringify({ version: HIGH_SCORES_VERSION, tables }))).toEqual(tables);
+  });
+
+  it('should keep separate tables for each spawn distribution', () => {
+    expect(getRulesKey({ ...PARAMS, spawn: 'uniform' })).toBe(getRulesKey(PARAMS));
+    expect(getRulesKey({ ...PARAMS, spawn: 'smallPrimes' })).toBe('n4-m2-k3-p7-spawn-smallPrimes');
+
+    const { tables } = addHighScore({}, { ...PARAMS, spawn: 'dense' }, entry(12));
+    expect(parseHighScores(JSON.stringify({ version: HIGH_SCORES_VERSION, tables }))).toEqual(tables);
+  });
+
+  it('should keep separate tables for the preview and the hold slot', () => {
+    expect(getRulesKey({ ...PARAMS, preview: 2, holdInterval: 5 })).toBe('n4-m2-k3-p7-next2-hold5');
+
+    const { tables } = addHighScore({}, { ...PARAMS, preview: 1 }, entry(12));
+    expect(parseHighScores(JSON.stringify({ version: HIGH_SCORES_VERSION, tables }))).toEqual(tables);
+  });
+
+  it('should keep a separate table for special tiles', () => {
+    expect(getRulesKey({ ...PARAMS, specials: true })).toBe('n4-m2-k3-p7-specials');
+
+    const { tables } = addHighScore({}, { ...PARAMS, specials: true }, entry(12));
+    expect(parseHighScores(JSON.stringify({ version: HIGH_SCORES_VERSION, tables }))).toEqual(tables);
+  });
+
+  it('should keep a separate table for the gcd merge rule', () => {
+    expect(getRulesKey({ ...PARAMS, mergeRule: 'gcd' })).toBe('n4-m2-k3-p7-merge-gcd');
+    expect(getRulesKey({ ...PARAMS, mergeRule: 'divisor' })).toBe(getRulesKey(PARAMS));
+
+    const { tables } = addHighScore({}, { ...PARAMS, mergeRule: 'gcd' }, entry(12));
+    expect(parseHighScores(JSON.stringify({ version: HIGH_SCORES_VERSION, tables }))).toEqual(tables);
+  });
+
+  it('should return no tables for corrupt data', () => {
+    expect(parseHighScores('{')).toEqual({});
+    expect(parseHighScores(JSON.stringify({ version: 99, tables: {} }))).toEqual({});
+  });
+
+  it('should keep tables scored before the power bonus apart from new scores', () => {
+    const old = addHighScore({}, PARAMS, entry(900)).tables;
+    const legacyKey = 'n4-m2-k3-p7-before-power-bonus';
+
+    const { tables } = addHighScore(parseHighScores(JSON.stringify({ version: 1, tables: old })), PARAMS, entry(40));
+
+    expect(tables[getRulesKey(PARAMS)].entries.map(e => e.score)).toEqual([40]);
+    expect(tables[legacyKey].rules.beforePowerBonus).toBe(true);
+    expect(tables[legacyKey].entries.map(e => e.score)).toEqual([900]);
+  });
+
+  it('should keep version 1 tables when saving over them', () => {
+    const data = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => { data.set(key, value); },
+      removeItem: (key: string) => { data.delete(key); },
+    };
+    storage.setItem(HIGH_SCORES_KEY, JSON.stringify({ version: 1, tables: addHighScore({}, PARAMS, entry(900)).tables }));
+
+    saveHighScores(addHighScore(loadHighScores(storage), PARAMS, entry(40)).tables, storage);
+    const tables = loadHighScores(storage);
+
+    expect(Object.values(tables).map(table => table.entries.map(e => e.score))).toEqual([[900], [40]]);
+  });
+
+  it('should drop only the table whose walls cannot be read', () => {
+    const { tables } = addHighScore({}, PARAMS, entry(5));
+    const raw = JSON.stringify({
+      version: HIGH_SCORES_VERSION,
+      tables: {
+        ...tables,
+        'n4-m2-k3-p7-walls-': { rules: { ...PARAMS, blocked: [null] }, entries: [entry(7)] },
+        'n4-m2-k3-p7-walls-x': { rules: { ...PARAMS, blocked: [{ row: 'x' }] }, entries: [entry(7)] },
+      },
+    });
+
+    expect(parseHighScores(raw)).toEqual(tables);
+  });
+
+  it('should drop tables filed under a key that does not match their rules', () => {
+    const raw = JSON.stringify({
+      version: HIGH_SCORES_VERSION,
+      tables: { [getRulesKey(PARAMS)]: { rules: { ...PARAMS, n: 8 }, entries: [entry(5)] } },
+    });
+
+    expect(parseHighScores(raw)).toEqual({});
+  });
+
+  it('should read tables saved without a scoring preset or mode as classic endless', () => {
+    const raw = JSON.stringify({
+      version: HIGH_SCORES_VERSION,
+      tables: { 'n4-m2-k3-p7': { rules: PARAMS, entries: [entry(5)] } },
+    });
+
+    expect(parseHighScores(raw)['n4-m2-k3-p7'].rules).toEqual({
+      ...PARAMS,
+      scoring: 'classic',
+      mode: { type: 'endless' },
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * High Scores - Local leaderboard per parameter set
+ *
+ * Every combination of the parameters in HighScoreRules gets its own table,
+ * so scores from different rules are never compared. The rules key names n,
+ * m, k and p, and each other parameter only when it differs from its default,
+ * so a table keeps its key when a new parameter is added and earlier scores
+ * stay in their table. Clear-mode tables rank by fewest moves instead of
+ * highest score.
+ *
+ * Version 1 tables were scored before every perfect power earned its
+ * exponent as a bonus. They are kept, marked beforePowerBonus under a key of
+ * their own, so they are still listed but never ranked with later scores.
+ */
+
+import type { GameState, GameParams } from './types';
+import { getDefaultStorage, readCells } from './storage';
+import type { KeyValueStorage } from './storage';
+import { DEFAULT_SCORING, isScoringPresetId } from './scoring';
+import type { ScoringPresetId } from './scoring';
+import { ENDLESS_MODE, getMode, getModeKey, readMode } from './gameModes';
+import type { GameMode } from './gameModes';
+import { DEFAULT_ADJACENCY, isAdjacencyId } from './adjacency';
+import { DEFAULT_SPAWN, isSpawnPresetId } from './spawnDistribution';
+import { DEFAULT_MERGE_RULE, isMergeRuleId } from './mergeRules';
+
+export const HIGH_SCORES_KEY = 'prime-factorization-game:high-scores';
+export const HIGH_SCORES_VERSION = 2;
+export const MAX_ENTRIES_PER_TABLE = 10;
+
+export interface HighScoreEntry {
+  score: number;
+  moveCount: number;
+  maxChain: number;
+  date: string; // ISO 8601
+  seed: number;
+  assisted: boolean; // Undo or hints were used during the game
+}
+
+// The parameters that decide which table a score belongs to
+export type HighScoreRules = Pick<GameParams, 'n' | 'm' | 'k' | 'p' | 'width' | 'height' | 'blocked' | 'adjacency' | 'spawn' | 'preview' | 'holdInterval' | 'specials' | 'mergeRule'> & {
+  scoring: ScoringPresetId;
+  mode: GameMode;
+  beforePowerBonus?: true; // Migrated from version 1; no new game is ever filed here
+};
+
+export interface HighScoreTable {
+  rules: HighScoreRules;
+  entries: HighScoreEntry[]; // Best first
+}
+
+export type HighScoreTables = Record<string, HighScoreTable>;
+
+export function getRulesKey(params: GameParams & Pick<HighScoreRules, 'beforePowerBonus'>): string {
+  const scoring = params.scoring ?? DEFAULT_SCORING;
+  const mode = getMode(params);
+  let key = `n${params.n}-m${params.m}-k${params.k}-p${params.p}`;
+  if (scoring !== DEFAULT_SCORING) key += `-${scoring}`;
+  if (mode.type !== 'endless') key += `-${getModeKey(mode)}`;
+  if (params.width !== undefined || params.height !== undefined) {
+    key += `-${params.width ?? params.n}x${params.height ?? params.n}`;
+  }
+  if (params.blocked !== undefined) key += `-walls-${params.blocked.map(c => `${c.row}-${c.col}`).join('.')}`;
+  if (params.adjacency !== undefined && params.adjacency !== DEFAULT_ADJACENCY) key += `-${params.adjacency}`;
+  if (params.spawn !== undefined && params.spawn !== DEFAULT_SPAWN) key += `-spawn-${params.spawn}`;
+  if (params.preview !== undefined) key += `-next${params.preview}`;
+  if (params.holdInterval !== undefined) key += `-hold${params.holdInterval}`;
+  if (params.specials) key += '-specials';
+  if (params.mergeRule !== undefined && params.mergeRule !== DEFAULT_MERGE_RULE) key += `-merge-${params.mergeRule}`;
+  if (params.beforePowerBonus) key += '-before-power-bonus';
+  return key;
+}
+
+export function getRules(params: GameParams): HighScoreRules {
+  return {
+    n: params.n,
+    m: params.m,
+    k: params.k,
+    p: params.p,
+    scoring: params.scoring ?? DEFAULT_SCORING,
+    mode: getMode(params),
+    ...(params.width !== undefined && { width: params.width }),
+    ...(params.height !== undefined && { height: params.height }),
+    ...(params.blocked !== undefined && { blocked: params.blocked }),
+    ...(params.adjacency !== undefined && { adjacency: params.adjacency }),
+    ...(params.spawn !== undefined && { spawn: params.spawn }),
+    ...(params.preview !== undefined && { preview: params.preview }),
+    ...(params.holdInterval !== undefined && { holdInterval: params.holdInterval }),
+    ...(params.specials && { specials: true }),
+    ...(params.mergeRule !== undefined && { mergeRule: params.mergeRule }),
+  };
+}
+
+export function createHighScoreEntry(state: GameState, date: Date = new Date()): HighScoreEntry {
+  return {
+    score: state.score,
+    moveCount: state.moveCount,
+    maxChain: state.maxChain,
+    date: date.toISOString(),
+    seed: state.seed,
+    assisted: state.undosUsed > 0 || state.hintsUsed > 0,
+  };
+}
+
+// Higher score first; ties go to the shorter, then the earlier game
+function compareEntries(a: HighScoreEntry, b: HighScoreEntry): number {
+  return b.score - a.score || a.moveCount - b.moveCount || a.date.localeCompare(b.date);
+}
+
+// Clear mode: fewer moves first; ties go to the higher score, then the earlier game
+function compareClearEntries(a: HighScoreEntry, b: HighScoreEntry): number {
+  return a.moveCount - b.moveCount || b.score - a.score || a.date.localeCompare(b.date);
+}
+
+function getComparator(mode: GameMode): (a: HighScoreEntry, b: HighScoreEntry) => number {
+  return mode.type === 'clear' ? compareClearEntries : compareEntries;
+}
+
+/**
+ * Insert a finished game into the table for its parameters
+ * rank is the 0-based position in the table, or null if it did not make the cut
+ */
+export function addHighScore(
+  tables: HighScoreTables,
+  params: GameParams,
+  entry: HighScoreEntry
+): { tables: HighScoreTables; rank: number | null; isNewBest: boolean } {
+  const key = getRulesKey(params);
+  const compare = getComparator(getMode(params));
+  const previous = tables[key]?.entries ?? [];
+  const previousBest = previous[0];
+
+  const entries = [...previous, entry].sort(compare).slice(0, MAX_ENTRIES_PER_TABLE);
+  const rank = entries.indexOf(entry);
+  // A clear is an achievement in itself; other modes need points on the board
+  const counts = getMode(params).type === 'clear' || entry.score > 0;
+
+  return {
+    tables: { ...tables, [key]: { rules: getRules(params), entries } },
+    rank: rank === -1 ? null : rank,
+    isNewBest: counts && (previousBest === undefined || compare(entry, previousBest) < 0),
+  };
+}
+
+function isValidEntry(value: unknown): value is HighScoreEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.score === 'number'
+    && typeof entry.moveCount === 'number'
+    && typeof entry.maxChain === 'number'
+    && typeof entry.date === 'string'
+    && typeof entry.seed === 'number'
+    && typeof entry.assisted === 'boolean';
+}
+
+/**
+ * Read high scores, dropping any table or entry that cannot be read
+ */
+export function parseHighScores(raw: string | null): HighScoreTables {
+  if (raw === null) return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+
+  if (typeof data !== 'object' || data === null) return {};
+  const { version, tables } = data as { version?: unknown; tables?: unknown };
+  if ((version !== 1 && version !== HIGH_SCORES_VERSION) || typeof tables !== 'object' || tables === null) return {};
+
+  const result: HighScoreTables = {};
+  for (const [key, table] of Object.entries(tables as Record<string, unknown>)) {
+    if (typeof table !== 'object' || table === null) continue;
+    const { rules, entries } = table as { rules?: HighScoreRules; entries?: unknown };
+    if (!rules || !Array.isArray(entries)) continue;
+    // Tables saved before scoring presets and modes existed are classic and endless
+    if (rules.scoring !== undefined && !isScoringPresetId(rules.scoring)) continue;
+    const mode = rules.mode === undefined ? ENDLESS_MODE : readMode(rules.mode);
+    if (mode === null) continue;
+    if (rules.blocked !== undefined && readCells(rules.blocked) === null) continue;
+    if (rules.adjacency !== undefined && !isAdjacencyId(rules.adjacency)) continue;
+    if (rules.spawn !== undefined && !isSpawnPresetId(rules.spawn)) continue;
+    if (rules.preview !== undefined && typeof rules.preview !== 'number') continue;
+    if (rules.holdInterval !== undefined && typeof rules.holdInterval !== 'number') continue;
+    if (rules.specials !== undefined && rules.specials !== true) continue;
+    if (rules.mergeRule !== undefined && !isMergeRuleId(rules.mergeRule)) continue;
+    if (rules.beforePowerBonus !== undefined && (rules.beforePowerBonus !== true || version === 1)) continue;
+    // Tables are keyed by their rules; never file entries under a mismatched key
+    if (getRulesKey({ ...rules, mode }) !== key) continue;
+
+    const beforePowerBonus = version === 1 || rules.beforePowerBonus === true;
+    const migrated: HighScoreRules = { ...getRules({ ...rules, mode }), ...(beforePowerBonus && { beforePowerBonus: true }) };
+    result[getRulesKey(migrated)] = {
+      rules: migrated,
+      entries: entries.filter(isValidEntry).sort(getComparator(mode)).slice(0, MAX_ENTRIES_PER_TABLE),
+    };
+  }
+  return result;
+}
+
+export function loadHighScores(storage: KeyValueStorage | null = getDefaultStorage()): HighScoreTables {
+  try {
+    return parseHighScores(storage?.getItem(HIGH_SCORES_KEY) ?? null);
+  } catch (error) {
+    console.warn('Failed to load high scores:', error);
+    return {};
+  }
+}
+
+export function saveHighScores(
+  tables: HighScoreTables,
+  storage: KeyValueStorage | null = getDefaultStorage()
+): void {
+  try {
+    storage?.setItem(HIGH_SCORES_KEY, JSON.stringify({ version: HIGH_SCORES_VERSION, tables }));
+  } catch (error) {
+    console.warn('Failed to save high scores:', error);
+  }
+}
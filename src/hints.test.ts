@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateMove, findBestMove, getAvailableMoves, getRemainingHints, canUseHint, HINT_CRITERIA } from './hints';
+import { createInitialState, applyMove } from './gameEngine';
+import type { GameState, GameParams, Tile } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7 };
+
+function stateWith(tiles: Tile[], overrides: Partial<GameState> = {}): GameState {
+  return {
+    tiles,
+    score: 0,
+    moveCount: 0,
+    nextTileId: 100,
+    seed: 1,
+    rngState: 1,
+    maxChain: 0,
+    isGameOver: false,
+    undosUsed: 0,
+    hintsUsed: 0,
+    moves: [],
+    fromSharedLink: false,
+    autoPlayed: false,
+    elapsedMs: 0,
+    daily: null,
+    ...overrides,
+  };
+}
+
+// 5 can be swiped into 15 along the top row, and 2 sits next to 14
+const board = stateWith([
+  { id: 1, value: 15, row: 0, col: 0 },
+  { id: 2, value: 5, row: 0, col: 3 },
+  { id: 3, value: 2, row: 2, col: 1 },
+  { id: 4, value: 14, row: 3, col: 1 },
+  { id: 5, value: 7, row: 3, col: 3 },
+]);
+
+describe('evaluateMove', () => {
+  it('should report the outcome of a single-tile swipe without committing it', () => {
+    const outcome = evaluateMove(board, 'left', 2, PARAMS);
+
+    expect(outcome).toMatchObject({ direction: 'left', tileId: 2, movedTileIds: [2], score: 29, chain: 1, cleared: 2 });
+    expect(board.tiles).toHaveLength(5);
+    expect(board.score).toBe(0);
+  });
+
+  it('should return null for a move that changes nothing', () => {
+    expect(evaluateMove(board, 'up', 1, PARAMS)).toBeNull();
+  });
+});
+
+describe('findBestMove', () => {
+  it('should suggest the move with the best immediate score', () => {
+    const best = findBestMove(board, PARAMS, 'score');
+
+    expect(best).toMatchObject({ direction: 'left', tileId: 2, score: 29 });
+  });
+
+  it('should pick the best value for every criterion', () => {
+    let state = createInitialState({ ...PARAMS, m: 8 }, 2718);
+    for (const direction of ['left', 'up', 'right'] as const) {
+      state = applyMove(state, direction, undefined, PARAMS).state;
+    }
+    const outcomes = getAvailableMoves(state, PARAMS);
+
+    for (const criterion of HINT_CRITERIA) {
+      const best = findBestMove(state, PARAMS, criterion)!;
+      expect(best[criterion]).toBe(Math.max(...outcomes.map(o => o[criterion])));
+    }
+  });
+
+  it('should prefer a whole-board move when outcomes tie', () => {
+    const state = stateWith([{ id: 1, value: 6, row: 0, col: 0 }]);
+
+    expect(findBestMove(state, PARAMS)).toMatchObject({ direction: 'down', movedTileIds: [1] });
+    expect(findBestMove(state, PARAMS)!.tileId).toBeUndefined();
+  });
+
+  it('should return null when no move is possible', () => {
+    const state = stateWith([
+      { id: 1, value: 2, row: 0, col: 0 },
+      { id: 2, value: 3, row: 0, col: 1 },
+      { id: 3, value: 5, row: 1, col: 0 },
+      { id: 4, value: 7, row: 1, col: 1 },
+    ]);
+
+    expect(findBestMove(state, { ...PARAMS, n: 2 })).toBeNull();
+  });
+});
+
+describe('hint limit', () => {
+  it('should be unlimited without a hint limit', () => {
+    const state = stateWith([], { hintsUsed: 50 });
+
+    expect(getRemainingHints(state, PARAMS)).toBeNull();
+    expect(canUseHint(state, PARAMS)).toBe(true);
+  });
+
+  it('should stop offering hints once the limit is reached', () => {
+    const params = { ...PARAMS, hintLimit: 2 };
+
+    expect(getRemainingHints(stateWith([], { hintsUsed: 1 }), params)).toBe(1);
+    expect(canUseHint(stateWith([], { hintsUsed: 2 }), params)).toBe(false);
+  });
+
+  it('should not offer hints after the game is over', () => {
+    expect(canUseHint(stateWith([], { isGameOver: true }), PARAMS)).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Hints - Suggest the best next move
+ *
+ * Every whole-board slide and every single-tile swipe is tried with the move
+ * engine (including chain reactions), and the move with the best immediate
+ * outcome for the chosen criterion is suggested. Ties are broken by the other
+ * criteria, then whole-board moves win over single-tile swipes.
+ */
+
+import type { GameState, GameParams, Direction } from './types';
+import { applyMove, listMoves } from './gameEngine';
+
+export type HintCriterion = 'score' | 'chain' | 'cleared';
+
+export const HINT_CRITERIA: HintCriterion[] = ['score', 'chain', 'cleared'];
+
+export interface MoveOutcome {
+  direction: Direction;
+  tileId?: number; // Set for a single-tile swipe
+  movedTileIds: number[]; // Tiles that slide, to show where the move applies
+  score: number; // Points gained by the move
+  chain: number; // Chain reaction steps triggered
+  cleared: number; // Tiles removed from the board, not counting the spawn
+}
+
+/**
+ * Try one move without committing it
+ * Returns null when the move changes nothing
+ */
+export function evaluateMove(
+  state: GameState,
+  direction: Direction,
+  tileId: number | undefined,
+  params: GameParams
+): MoveOutcome | null {
+  const result = applyMove(state, direction, tileId, params);
+  if (!result.moved) return null;
+
+  const onBoard = new Set(state.tiles.map(t => t.id));
+  let movedTileIds: number[] = [];
+  let chain = 0;
+  let spawned = 0;
+  for (const event of result.events) {
+    if (event.type === 'slide') {
+      // Collisions create new tiles; only tiles already on the board can be pointed at
+      movedTileIds = event.paths
+        .filter(p => p.path.length > 1 && onBoard.has(p.tileId))
+        .map(p => p.tileId);
+    } else if (event.type === 'chain') {
+      chain++;
+    } else if (event.type === 'spawn') {
+      spawned++;
+    }
+  }
+
+  return {
+    direction,
+    ...(tileId !== undefined && { tileId }),
+    movedTileIds,
+    score: result.state.score - state.score,
+    chain,
+    cleared: state.tiles.length - (result.state.tiles.length - spawned),
+  };
+}
+
+/**
+ * Every move that changes the board: whole-board slides first, then swipes of
+ * each tile
+ */
+export function getAvailableMoves(state: GameState, params: GameParams): MoveOutcome[] {
+  const outcomes: MoveOutcome[] = [];
+  for (const { direction, tileId } of listMoves(state, params)) {
+    const outcome = evaluateMove(state, direction, tileId, params);
+    if (outcome) outcomes.push(outcome);
+  }
+  return outcomes;
+}
+
+function compareOutcomes(a: MoveOutcome, b: MoveOutcome, criterion: HintCriterion): number {
+  const order = [criterion, ...HINT_CRITERIA.filter(c => c !== criterion)];
+  for (const key of order) {
+    if (a[key] !== b[key]) return b[key] - a[key];
+  }
+  return 0;
+}
+
+/**
+ * The move with the best immediate outcome, or null when no move is possible
+ */
+export function findBestMove(
+  state: GameState,
+  params: GameParams,
+  criterion: HintCriterion = 'score'
+): MoveOutcome | null {
+  let best: MoveOutcome | null = null;
+  for (const outcome of getAvailableMoves(state, params)) {
+    // Strictly better only, so earlier (whole-board) moves win ties
+    if (!best || compareOutcomes(outcome, best, criterion) < 0) {
+      best = outcome;
+    }
+  }
+  return best;
+}
+
+/**
+ * Number of hints still available under the game's hint budget
+ * Returns null when hints are unlimited
+ */
+export function getRemainingHints(state: GameState, params: GameParams): number | null {
+  if (params.hintLimit === undefined) return null;
+  return Math.max(0, params.hintLimit - state.hintsUsed);
+}
+
+export function canUseHint(state: GameState, params: GameParams): boolean {
+  const remaining = getRemainingHints(state, params);
+  return !state.isGameOver && (remaining === null || remaining > 0);
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { createHistory, recordMove, undo, redo, canUndo, canRedo, getRemainingUndos, MAX_HISTORY } from './history';
+import { applyMove, createInitialState } from './gameEngine';
+import type { GameParams, GameState } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 3, k: 2, p: 7 };
+
+// Play moves from a seeded start, recording each committed move
+function play(directions: Array<'up' | 'down' | 'left' | 'right'>, params: GameParams = PARAMS) {
+  let state = createInitialState(params, 3147);
+  let history = createHistory();
+  const states: GameState[] = [state];
+
+  for (const direction of directions) {
+    const result = applyMove(state, direction, undefined, params);
+    if (!result.moved) continue;
+    history = recordMove(history, state);
+    state = result.state;
+    states.push(state);
+  }
+
+  return { state, history, states };
+}
+
+describe('undo', () => {
+  it('should restore the previous state including nextTileId and RNG state', () => {
+    const { state, history, states } = play(['left', 'right', 'up']);
+    const previous = states[states.length - 2];
+
+    const result = undo(history, state, PARAMS);
+
+    expect(result).not.toBeNull();
+    expect(result!.state.tiles).toEqual(previous.tiles);
+    expect(result!.state.nextTileId).toBe(previous.nextTileId);
+    expect(result!.state.rngState).toBe(previous.rngState);
+    expect(result!.state.undosUsed).toBe(1);
+  });
+
+  it('should replay the same spawns after undoing and repeating a move', () => {
+    const { state, history } = play(['left', 'right', 'up']);
+
+    const undone = undo(history, state, PARAMS)!;
+    const repeated = applyMove(undone.state, 'up', undefined, PARAMS);
+
+    expect(repeated.state.tiles).toEqual(state.tiles);
+  });
+
+  it('should return null when there is nothing to undo', () => {
+    const state = createInitialState(PARAMS, 1);
+
+    expect(undo(createHistory(), state, PARAMS)).toBeNull();
+    expect(canUndo(createHistory(), state, PARAMS)).toBe(false);
+  });
+
+  it('should respect the undo budget', () => {
+    const params = { ...PARAMS, undoLimit: 1 };
+    const { state, history } = play(['left', 'right', 'up'], params);
+
+    expect(getRemainingUndos(state, params)).toBe(1);
+    const first = undo(history, state, params)!;
+    expect(getRemainingUndos(first.state, params)).toBe(0);
+    expect(undo(first.history, first.state, params)).toBeNull();
+  });
+
+  it('should report unlimited undos when no budget is set', () => {
+    const state = createInitialState(PARAMS, 1);
+
+    expect(getRemainingUndos(state, PARAMS)).toBeNull();
+  });
+
+  it('should keep at most MAX_HISTORY snapshots', () => {
+    const state = createInitialState(PARAMS, 1);
+    let history = createHistory();
+    for (let i = 0; i < MAX_HISTORY + 10; i++) {
+      history = recordMove(history, { ...state, moveCount: i });
+    }
+
+    expect(history.past).toHaveLength(MAX_HISTORY);
+    expect(history.past[0].moveCount).toBe(10);
+  });
+});
+
+describe('redo', () => {
+  it('should re-apply an undone move and keep the undo count', () => {
+    const { state, history } = play(['left', 'right']);
+    const undone = undo(history, state, PARAMS)!;
+
+    expect(canRedo(undone.history)).toBe(true);
+    const redone = redo(undone.history, undone.state)!;
+
+    expect(redone.state.tiles).toEqual(state.tiles);
+    expect(redone.state.undosUsed).toBe(1);
+    expect(canRedo(redone.history)).toBe(false);
+  });
+
+  it('should keep hints shown and AI play after the restored state', () => {
+    const { state, history } = play(['left', 'right']);
+
+    const undone = undo(history, { ...state, hintsUsed: 2, autoPlayed: true }, PARAMS)!;
+    const redone = redo(undone.history, undone.state)!;
+
+    expect(undone.state).toMatchObject({ hintsUsed: 2, autoPlayed: true });
+    expect(redone.state).toMatchObject({ hintsUsed: 2, autoPlayed: true });
+  });
+
+  it('should keep a recorded result recorded through undo and redo', () => {
+    const { state, history } = play(['left', 'right']);
+
+    const undone = undo(history, { ...state, recorded: true }, PARAMS)!;
+    const redone = redo(undone.history, undone.state)!;
+
+    expect(undone.state.recorded).toBe(true);
+    expect(redone.state.recorded).toBe(true);
+    expect(undo(history, state, PARAMS)!.state.recorded).toBeUndefined();
+  });
+
+  it('should keep the time-attack clock running through undo and redo', () => {
+    const { state, history } = play(['left', 'right']);
+
+    const undone = undo(history, { ...state, elapsedMs: 9000 }, PARAMS)!;
+    const redone = redo(undone.history, { ...undone.state, elapsedMs: 9500 })!;
+
+    expect(undone.state.elapsedMs).toBe(9000);
+    expect(redone.state.elapsedMs).toBe(9500);
+  });
+
+  it('should discard redo states after a new move', () => {
+    const { state, history } = play(['left', 'right']);
+    const undone = undo(history, state, PARAMS)!;
+
+    const branched = recordMove(undone.history, undone.state);
+
+    expect(canRedo(branched)).toBe(false);
+    expect(redo(branched, undone.state)).toBeNull();
+  });
+});
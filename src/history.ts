@@ -0,0 +1,108 @@
+/**
+ * Move History - Undo/redo stack of committed game states
+ *
+ * Each snapshot is a complete GameState (including nextTileId and the RNG
+ * state), so restoring one continues the game exactly as it was. The number of
+ * undos and hints, whether the AI has played and whether the result was
+ * recorded are carried over to the restored state so a finished game is
+ * still flagged correctly, and its ending cannot be recorded twice. So is the
+ * time-attack clock: undoing never gives time back.
+ */
+
+import type { GameState, GameParams } from './types';
+
+// Oldest snapshots are dropped beyond this many undo steps
+export const MAX_HISTORY = 100;
+
+export interface GameHistory {
+  past: GameState[]; // Most recent snapshot last
+  future: GameState[]; // Next state to redo last
+}
+
+export function createHistory(): GameHistory {
+  return { past: [], future: [] };
+}
+
+/**
+ * Record the state that was current before a committed move
+ * Any redo states are discarded, since the game has branched
+ */
+export function recordMove(history: GameHistory, previous: GameState): GameHistory {
+  return {
+    past: [...history.past, previous].slice(-MAX_HISTORY),
+    future: [],
+  };
+}
+
+/**
+ * Number of undos still available under the game's undo budget
+ * Returns null when undos are unlimited
+ */
+export function getRemainingUndos(state: GameState, params: GameParams): number | null {
+  if (params.undoLimit === undefined) return null;
+  return Math.max(0, params.undoLimit - state.undosUsed);
+}
+
+export function canUndo(history: GameHistory, state: GameState, params: GameParams): boolean {
+  const remaining = getRemainingUndos(state, params);
+  return history.past.length > 0 && (remaining === null || remaining > 0);
+}
+
+export function canRedo(history: GameHistory): boolean {
+  return history.future.length > 0;
+}
+
+/**
+ * Go back one committed move
+ * Returns null when there is nothing to undo or the undo budget is spent
+ */
+export function undo(
+  history: GameHistory,
+  current: GameState,
+  params: GameParams
+): { history: GameHistory; state: GameState } | null {
+  if (!canUndo(history, current, params)) return null;
+
+  const previous = history.past[history.past.length - 1];
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, current],
+    },
+    state: {
+      ...previous,
+      undosUsed: current.undosUsed + 1,
+      hintsUsed: current.hintsUsed,
+      autoPlayed: current.autoPlayed,
+      elapsedMs: current.elapsedMs,
+      ...(current.recorded && { recorded: true }),
+    },
+  };
+}
+
+/**
+ * Re-apply the last undone move
+ * Redoing is free, but the undos and hints already spent stay counted
+ */
+export function redo(
+  history: GameHistory,
+  current: GameState
+): { history: GameHistory; state: GameState } | null {
+  if (!canRedo(history)) return null;
+
+  const next = history.future[history.future.length - 1];
+  return {
+    history: {
+      past: [...history.past, current],
+      future: history.future.slice(0, -1),
+    },
+    state: {
+      ...next,
+      undosUsed: current.undosUsed,
+      hintsUsed: current.hintsUsed,
+      autoPlayed: current.autoPlayed,
+      elapsedMs: current.elapsedMs,
+      ...(current.recorded && { recorded: true }),
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { SetStateAction } from 'react';
+import { playMoveEvents } from './moveAnimation';
+import { applyMove } from './gameEngine';
+import type { GameState, GameParams, Tile } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7 };
+
+function stateWith(tiles: Tile[], overrides: Partial<GameState> = {}): GameState {
+  return {
+    tiles,
+    score: 0,
+    moveCount: 0,
+    nextTileId: 100,
+    seed: 1,
+    rngState: 1,
+    maxChain: 0,
+    isGameOver: false,
+    undosUsed: 0,
+    hintsUsed: 0,
+    moves: [],
+    fromSharedLink: false,
+    autoPlayed: false,
+    elapsedMs: 0,
+    daily: null,
+    ...overrides,
+  };
+}
+
+// Run playMoveEvents to the end, keeping every state it showed
+async function play(before: GameState, params: GameParams) {
+  const result = applyMove(before, 'left', undefined, params, () => 0);
+  const shown: GameState[] = [];
+  let current = before;
+  const setState = (action: SetStateAction<GameState>) => {
+    current = typeof action === 'function' ? action(current) : action;
+    shown.push(current);
+  };
+
+  const playing = playMoveEvents(before.tiles, result, setState);
+  await vi.runAllTimersAsync();
+  return { result, shown, display: await playing };
+}
+
+describe('playMoveEvents', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count the score up step by step with popups and the chain counter', async () => {
+    vi.useFakeTimers();
+    // 5 slides into 15 on the bottom row; 3 slides under 147 and divides it in the chain
+    const before = stateWith([
+      { id: 1, value: 147, row: 0, col: 0 },
+      { id: 2, value: 3, row: 1, col: 3 },
+      { id: 3, value: 15, row: 3, col: 0 },
+      { id: 4, value: 5, row: 3, col: 3 },
+    ]);
+
+    const { result, shown, display } = await play(before, PARAMS);
+
+    const settled = shown.find(s => s.score === 15)!;
+    expect(settled.scorePopups).toEqual([{ id: '1-0-0', row: 3, col: 0, points: 15, multiplier: 1 }]);
+    expect(settled.chainCount).toBeUndefined();
+
+    const chained = shown.find(s => s.chainCount === 1)!;
+    expect(chained.score).toBe(162);
+    expect(chained.chainPosition).toEqual({ row: 0, col: 0 });
+    expect(chained.scorePopups).toEqual([{ id: '1-1-0', row: 0, col: 0, points: 147, multiplier: 1 }]);
+
+    expect(display.score).toBe(result.state.score);
+  });
+});
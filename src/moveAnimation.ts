@@ -0,0 +1,160 @@
+/**
+ * Move Animation - Plays the events of a move as a sequence of board updates
+ *
+ * Shared by the game and the replay viewer so both show the same slide,
+ * highlight and chain timings. speed scales every wait (2 = twice as fast).
+ * The score counts up with each step, with the points of every reaction
+ * floating over the board and the chain counter over each chain step.
+ */
+
+import type { Dispatch, SetStateAction } from 'react';
+import type { Tile, GameState, ScorePopup } from './types';
+import type { MoveResult, ScoreEvent } from './gameEngine';
+
+// Effect flags are cleared this long after the final board is shown (longest CSS animation is 1.2s)
+export const ANIMATION_CLEANUP_MS = 1300;
+
+export const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Issue #35: Tiles about to interact are highlighted before their effect is shown
+// Returns null when no tile on the board is about to interact
+export function toHighlightPhase(tiles: Tile[]): Tile[] | null {
+  const hasInteraction = (t: Tile) =>
+    t.mergeHighlight || t.isPowerEliminating || t.isDividing || t.isDisappearing;
+
+  if (!tiles.some(hasInteraction)) return null;
+
+  return tiles.map(t => {
+    if (hasInteraction(t)) {
+      return {
+        ...t,
+        isHighlighting: true,
+        // Temporarily remove effect flags during highlighting
+        isDividing: false,
+        isDisappearing: false,
+        isPowerEliminating: false,
+        mergeHighlight: false,
+      };
+    }
+    return t;
+  });
+}
+
+// Popups for the score events of one step (0 = the slide, n = chain step n)
+function toScorePopups(scores: ScoreEvent[], moveCount: number): ScorePopup[] {
+  return scores.map((score, i) => ({
+    id: `${moveCount}-${score.chainStep}-${i}`,
+    row: score.row,
+    col: score.col,
+    points: score.points,
+    multiplier: score.multiplier,
+  }));
+}
+
+// The chain counter sits at the middle of the step's reactions
+function getChainPosition(scores: ScoreEvent[]): { row: number; col: number } | undefined {
+  if (scores.length === 0) return undefined;
+  return {
+    row: scores.reduce((sum, s) => sum + s.row, 0) / scores.length,
+    col: scores.reduce((sum, s) => sum + s.col, 0) / scores.length,
+  };
+}
+
+/**
+ * Replay the events of a move through setState
+ *
+ * Resolves with the state to show once the events have played: the final
+ * state, keeping the effect flags of the last frame so running CSS animations
+ * are not cut short, and with new tiles marked to appear. The caller swaps in
+ * result.state after ANIMATION_CLEANUP_MS.
+ */
+export async function playMoveEvents(
+  before: Tile[],
+  result: MoveResult,
+  setState: Dispatch<SetStateAction<GameState>>,
+  speed = 1
+): Promise<GameState> {
+  const { state: finalState, events } = result;
+  const moveCount = finalState.moveCount;
+  let lastFrame: Tile[] = before;
+  let score = finalState.score;
+  let display: Pick<GameState, 'chainCount' | 'chainPosition' | 'scorePopups'> = {};
+  const spawnedIds = new Set<number>();
+
+  // Score events follow the event they belong to; group them by step up front
+  const scoresByStep = new Map<number, ScoreEvent[]>();
+  for (const event of events) {
+    if (event.type === 'score') {
+      scoresByStep.set(event.chainStep, [...(scoresByStep.get(event.chainStep) ?? []), event]);
+    }
+  }
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'slide':
+        // Animate tiles through intermediate positions (100ms per step)
+        for (const frame of event.frames) {
+          setState(prev => ({ ...prev, tiles: frame }));
+          await wait(100 / speed);
+        }
+        break;
+
+      case 'settle': {
+        const highlightedTiles = toHighlightPhase(event.tiles);
+        if (highlightedTiles) {
+          // Don't add score yet while highlighting
+          setState(prev => ({ ...prev, tiles: highlightedTiles, moveCount }));
+          await wait(400 / speed);
+        }
+
+        // Show the move result with actual effects
+        score = event.score;
+        display = { scorePopups: toScorePopups(scoresByStep.get(0) ?? [], moveCount) };
+        setState(prev => ({ ...prev, tiles: event.tiles, score: event.score, moveCount, ...display }));
+        lastFrame = event.tiles;
+
+        // Wait for final position CSS transition to complete
+        await wait(150 / speed);
+        break;
+      }
+
+      case 'chain': {
+        const highlightedTiles = toHighlightPhase(event.tiles);
+        if (highlightedTiles) {
+          setState(prev => ({ ...prev, tiles: highlightedTiles, moveCount }));
+          await wait(400 / speed);
+        }
+
+        // Count each step's points into the score as the step is shown
+        const stepScores = scoresByStep.get(event.step) ?? [];
+        score += stepScores.reduce((sum, s) => sum + s.points, 0);
+        display = {
+          chainCount: event.step,
+          chainPosition: getChainPosition(stepScores),
+          scorePopups: toScorePopups(stepScores, moveCount),
+        };
+        const stepScore = score;
+        setState(prev => ({ ...prev, tiles: event.tiles, score: stepScore, moveCount, ...display }));
+        lastFrame = event.tiles;
+
+        // Wait for chain animation to complete
+        await wait(800 / speed);
+        break;
+      }
+
+      case 'spawn':
+        spawnedIds.add(event.tile.id);
+        break;
+    }
+  }
+
+  const lastFrameById = new Map(lastFrame.filter(t => t.value !== 0).map(t => [t.id, t]));
+  return {
+    ...finalState,
+    // Popups and the chain counter finish their animations until the cleanup
+    ...display,
+    tiles: finalState.tiles.map(t =>
+      spawnedIds.has(t.id) ? { ...t, isNew: true } : lastFrameById.get(t.id) ?? t
+    ),
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getLevelKey,
+  getPackStars,
+  isLevelUnlocked,
+  loadPuzzleProgress,
+  parsePuzzleProgress,
+  recordLevelResult,
+  savePuzzleProgress,
+  PUZZLE_PROGRESS_KEY,
+} from './puzzleProgress';
+import type { KeyValueStorage } from './storage';
+import type { LevelPack } from './puzzles';
+
+const PACK = {
+  id: 'basics',
+  name: 'Basics',
+  levels: [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+} as LevelPack;
+
+function memoryStorage(): KeyValueStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: (key) => { data.delete(key); },
+  };
+}
+
+describe('recordLevelResult', () => {
+  it('should keep the most stars and the fewest moves', () => {
+    const key = getLevelKey('basics', 'a');
+    let progress = recordLevelResult({}, key, { stars: 2, bestMoves: 4 });
+    progress = recordLevelResult(progress, key, { stars: 1, bestMoves: 6 });
+    expect(progress[key]).toEqual({ stars: 2, bestMoves: 4 });
+
+    progress = recordLevelResult(progress, key, { stars: 3, bestMoves: 2 });
+    expect(progress[key]).toEqual({ stars: 3, bestMoves: 2 });
+  });
+});
+
+describe('isLevelUnlocked', () => {
+  it('should unlock each level once the one before it is solved', () => {
+    const progress = { 'basics/a': { stars: 1, bestMoves: 5 } };
+
+    expect([0, 1, 2].map(i => isLevelUnlocked(PACK, i, progress))).toEqual([true, true, false]);
+    expect(getPackStars(PACK, progress)).toBe(1);
+  });
+});
+
+describe('saved progress', () => {
+  it('should round trip through storage', () => {
+    const storage = memoryStorage();
+    const progress = { 'basics/a': { stars: 3, bestMoves: 2 }, 'basics/b': { stars: 2, bestMoves: 5 } };
+
+    savePuzzleProgress(progress, storage);
+
+    expect(storage.data.has(PUZZLE_PROGRESS_KEY)).toBe(true);
+    expect(loadPuzzleProgress(storage)).toEqual(progress);
+  });
+
+  it('should drop results that cannot be read', () => {
+    const raw = JSON.stringify({
+      version: 1,
+      levels: { 'basics/a': { stars: 3, bestMoves: 2 }, 'basics/b': { stars: 4, bestMoves: 2 }, 'basics/c': null },
+    });
+
+    expect(parsePuzzleProgress(raw)).toEqual({ 'basics/a': { stars: 3, bestMoves: 2 } });
+    expect(parsePuzzleProgress('{')).toEqual({});
+    expect(parsePuzzleProgress(JSON.stringify({ version: 2, levels: {} }))).toEqual({});
+  });
+});
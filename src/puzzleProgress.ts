@@ -0,0 +1,94 @@
+/**
+ * Puzzle Progress - Best result of every solved level, kept in local storage
+ *
+ * Results are keyed by pack and level ID, so adding levels to a pack keeps
+ * the progress on the existing ones. A level is playable once the level
+ * before it in its pack has been solved.
+ */
+
+import { getDefaultStorage } from './storage';
+import type { KeyValueStorage } from './storage';
+import type { LevelPack } from './puzzles';
+
+export const PUZZLE_PROGRESS_KEY = 'prime-factorization-game:puzzle-progress';
+export const PUZZLE_PROGRESS_VERSION = 1;
+
+export interface LevelResult {
+  stars: number; // 1 to 3
+  bestMoves: number; // Fewest moves the level was solved in
+}
+
+export type PuzzleProgress = Record<string, LevelResult>;
+
+export function getLevelKey(packId: string, levelId: string): string {
+  return `${packId}/${levelId}`;
+}
+
+/**
+ * Record a solved level, keeping the best result
+ */
+export function recordLevelResult(progress: PuzzleProgress, key: string, result: LevelResult): PuzzleProgress {
+  const previous = progress[key];
+  if (!previous) return { ...progress, [key]: result };
+  return {
+    ...progress,
+    [key]: { stars: Math.max(previous.stars, result.stars), bestMoves: Math.min(previous.bestMoves, result.bestMoves) },
+  };
+}
+
+export function isLevelUnlocked(pack: LevelPack, index: number, progress: PuzzleProgress): boolean {
+  return index === 0 || getLevelKey(pack.id, pack.levels[index - 1].id) in progress;
+}
+
+// Total stars earned in a pack
+export function getPackStars(pack: LevelPack, progress: PuzzleProgress): number {
+  return pack.levels.reduce((sum, level) => sum + (progress[getLevelKey(pack.id, level.id)]?.stars ?? 0), 0);
+}
+
+function isValidResult(value: unknown): value is LevelResult {
+  if (typeof value !== 'object' || value === null) return false;
+  const { stars, bestMoves } = value as Record<string, unknown>;
+  return Number.isInteger(stars) && (stars as number) >= 1 && (stars as number) <= 3
+    && Number.isInteger(bestMoves) && (bestMoves as number) > 0;
+}
+
+/**
+ * Read saved progress, dropping any result that cannot be read
+ */
+export function parsePuzzleProgress(raw: string | null): PuzzleProgress {
+  if (raw === null) return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+
+  if (typeof data !== 'object' || data === null) return {};
+  const { version, levels } = data as { version?: unknown; levels?: unknown };
+  if (version !== PUZZLE_PROGRESS_VERSION || typeof levels !== 'object' || levels === null) return {};
+
+  const results = Object.entries(levels as Record<string, unknown>);
+  return Object.fromEntries(results.filter(([, result]) => isValidResult(result))) as PuzzleProgress;
+}
+
+export function loadPuzzleProgress(storage: KeyValueStorage | null = getDefaultStorage()): PuzzleProgress {
+  try {
+    return parsePuzzleProgress(storage?.getItem(PUZZLE_PROGRESS_KEY) ?? null);
+  } catch (error) {
+    console.warn('Failed to load puzzle progress:', error);
+    return {};
+  }
+}
+
+export function savePuzzleProgress(
+  progress: PuzzleProgress,
+  storage: KeyValueStorage | null = getDefaultStorage()
+): void {
+  try {
+    storage?.setItem(PUZZLE_PROGRESS_KEY, JSON.stringify({ version: PUZZLE_PROGRESS_VERSION, levels: progress }));
+  } catch (error) {
+    console.warn('Failed to save puzzle progress:', error);
+  }
+}
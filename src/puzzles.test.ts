@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { createPuzzleState, getPuzzleStatus, getStars, parseLevelPack } from './puzzles';
+import type { PuzzleLevel } from './puzzles';
+import { applyMove } from './gameEngine';
+import type { PlayerMove } from './gameEngine';
+import levelPackData from './puzzleLevels.json';
+
+function validPack() {
+  return {
+    version: 1,
+    id: 'test',
+    name: 'Test',
+    levels: [{
+      id: 'one',
+      name: 'One',
+      n: 3,
+      tiles: [{ row: 0, col: 0, value: 6 }, { row: 0, col: 2, value: 3 }, { row: 2, col: 0, value: 2 }],
+      goal: { type: 'clear' },
+      moveLimit: 4,
+      stars: [2, 3],
+    }] as Array<Record<string, unknown>>,
+  };
+}
+
+function level(overrides: Record<string, unknown> = {}): PuzzleLevel {
+  const data = validPack();
+  data.levels[0] = { ...data.levels[0], ...overrides };
+  return parseLevelPack(data).pack!.levels[0];
+}
+
+function play(puzzle: PuzzleLevel, moves: PlayerMove[]) {
+  let state = createPuzzleState(puzzle);
+  for (const move of moves) {
+    const result = applyMove(state, move.direction, move.tileId, puzzle.params);
+    expect(result.moved).toBe(true);
+    state = result.state;
+  }
+  return state;
+}
+
+// A three-star solution of every bundled level, by level ID
+const SOLUTIONS: Record<string, PlayerMove[]> = {
+  'first-division': [{ direction: 'up' }, { direction: 'left' }],
+  'equal-pairs': [{ direction: 'down' }, { direction: 'left' }],
+  'factorization': [{ direction: 'up' }, { direction: 'left' }],
+  'breaking-twelve': [{ direction: 'left' }, { direction: 'up' }, { direction: 'down' }],
+  'incoming-tile': [{ direction: 'up' }, { direction: 'left' }],
+  'double-chain': [{ direction: 'up', tileId: 1 }, { direction: 'right', tileId: 0 }, { direction: 'up' }],
+  'high-score': [{ direction: 'left', tileId: 2 }, { direction: 'down', tileId: 0 }, { direction: 'left' }],
+  'finishing-touch': [{ direction: 'up' }, { direction: 'left' }, { direction: 'up' }],
+  'beyond-the-wall': [{ direction: 'up' }, { direction: 'left' }, { direction: 'right' }],
+};
+
+describe('bundled level pack', () => {
+  const { pack, errors } = parseLevelPack(levelPackData);
+
+  it('should be valid', () => {
+    expect(errors).toEqual([]);
+    expect(pack).not.toBeNull();
+  });
+
+  it.each(Object.keys(SOLUTIONS))('should let %s be solved for three stars', (id) => {
+    const puzzle = pack!.levels.find(l => l.id === id)!;
+
+    const state = play(puzzle, SOLUTIONS[id]);
+
+    expect(getPuzzleStatus(puzzle, state)).toBe('solved');
+    expect(getStars(puzzle, state.moveCount)).toBe(3);
+  });
+
+  it('should have a solution for every level', () => {
+    expect(pack!.levels.map(l => l.id).sort()).toEqual(Object.keys(SOLUTIONS).sort());
+  });
+});
+
+describe('parseLevelPack', () => {
+  it('should build the level params and number the tiles', () => {
+    const puzzle = level({ k: 2, scoring: 'linear' });
+
+    expect(puzzle.params).toEqual({ n: 3, m: 3, k: 2, p: 7, scoring: 'linear' });
+    expect(puzzle.tiles.map(t => t.id)).toEqual([0, 1, 2]);
+    expect(puzzle.spawns).toEqual([]);
+  });
+
+  it('should read rectangular boards with walls', () => {
+    const puzzle = level({
+      n: undefined,
+      width: 4,
+      height: 3,
+      walls: [{ row: 1, col: 3 }, { row: 0, col: 1 }],
+      tiles: [{ row: 0, col: 0, value: 6 }, { row: 2, col: 3, value: 3 }],
+    });
+
+    expect(puzzle.params).toEqual({
+      n: 4, m: 2, k: 3, p: 7, width: 4, height: 3,
+      blocked: [{ row: 0, col: 1 }, { row: 1, col: 3 }],
+    });
+  });
+
+  it('should reject tiles and spawns on walls', () => {
+    const data = validPack();
+    data.levels[0] = {
+      ...data.levels[0],
+      walls: [{ row: 0, col: 2 }, { row: 3, col: 0 }, { row: 0, col: 2 }],
+      spawns: [{ row: 0, col: 2, value: 2 }],
+    };
+
+    expect(parseLevelPack(data).errors).toEqual([
+      'levels[0].walls[1]: must be { row, col } inside the 3×3 board',
+      'levels[0].walls[2]: the same cell as an earlier wall',
+      'levels[0].tiles[1]: (0, 2) is a wall',
+      'levels[0].spawns[0]: (0, 2) is a wall',
+    ]);
+  });
+
+  it('should report every problem with its path', () => {
+    const data = validPack();
+    data.levels[0] = {
+      ...data.levels[0],
+      tiles: [{ row: 3, col: 0, value: 6 }, { row: 0, col: 0, value: 1 }],
+      goal: { type: 'chain' },
+      stars: [3, 5],
+    };
+
+    const { pack, errors } = parseLevelPack(data);
+
+    expect(pack).toBeNull();
+    expect(errors).toEqual([
+      'levels[0].tiles[0]: row and col must be inside the 3×3 board',
+      'levels[0].tiles[1]: value must be an integer of at least 2',
+      'levels[0].goal.length: must be a positive integer',
+      'levels[0].stars: must be [three-star moves, two-star moves] with 1 ≤ three ≤ two ≤ moveLimit',
+    ]);
+  });
+
+  it('should reject duplicate level IDs and tiles on the same cell', () => {
+    const data = validPack();
+    data.levels.push({ ...data.levels[0], tiles: [{ row: 1, col: 1, value: 4 }, { row: 1, col: 1, value: 2 }] });
+    data.levels.push({ ...data.levels[0] });
+
+    expect(parseLevelPack(data).errors).toEqual([
+      'levels[1].tiles: two tiles on the same cell',
+      'levels[2].id: "one" is used by an earlier level',
+    ]);
+  });
+
+  it('should reject packs of another version or without levels', () => {
+    expect(parseLevelPack({ ...validPack(), version: 2 }).errors).toEqual(['version: must be 1']);
+    expect(parseLevelPack({ ...validPack(), levels: [] }).errors).toEqual(['levels: must be a non-empty array']);
+    expect(parseLevelPack(null).errors).toEqual(['pack: must be an object']);
+  });
+});
+
+describe('getPuzzleStatus', () => {
+  it('should fail once the move limit is used up', () => {
+    const puzzle = level({ moveLimit: 1, stars: [1, 1] });
+
+    const state = play(puzzle, [{ direction: 'right' }]);
+
+    expect(getPuzzleStatus(puzzle, createPuzzleState(puzzle))).toBe('playing');
+    expect(getPuzzleStatus(puzzle, state)).toBe('failed');
+  });
+
+  it('should rate by moves', () => {
+    const puzzle = level();
+
+    expect([2, 3, 4].map(moves => getStars(puzzle, moves))).toEqual([3, 2, 1]);
+  });
+
+  it('should check chain and score goals against the state', () => {
+    const chain = level({ goal: { type: 'chain', length: 2 } });
+    const score = level({ goal: { type: 'score', points: 50 } });
+    const state = createPuzzleState(chain);
+
+    expect(getPuzzleStatus(chain, { ...state, maxChain: 2 })).toBe('solved');
+    expect(getPuzzleStatus(score, { ...state, score: 49 })).toBe('playing');
+    expect(getPuzzleStatus(score, { ...state, score: 50 })).toBe('solved');
+  });
+});
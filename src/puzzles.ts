@@ -0,0 +1,296 @@
+/**
+ * Puzzles - Hand-authored levels with a fixed board and a goal
+ *
+ * A level starts from a fixed set of tiles and never spawns random tiles: the
+ * only tiles that appear are the level's scripted spawn queue, placed by the
+ * normal spawn rule (every k moves, or whenever a tile disappeared). A level
+ * is solved when its goal is reached within the move limit, and rated one to
+ * three stars by the number of moves it took.
+ *
+ * Levels come in packs written as JSON and validated when they are loaded:
+ *
+ *   {
+ *     "version": 1, "id": "basics", "name": "入門",
+ *     "levels": [{
+ *       "id": "first-steps", "name": "はじめの一歩", "n": 3,
+ *       "tiles": [{ "row": 0, "col": 0, "value": 6 }, { "row": 0, "col": 2, "value": 3 }],
+ *       "spawns": [{ "row": 2, "col": 2, "value": 2 }],  (optional, none by default)
+ *       "k": 3,                                          (optional spawn interval)
+ *       "scoring": "classic",                            (optional scoring preset)
+ *       "width": 5, "height": 3,                         (optional, instead of n)
+ *       "walls": [{ "row": 1, "col": 2 }],               (optional blocked cells)
+ *       "goal": { "type": "clear" },                     (or chain + length, score + points)
+ *       "moveLimit": 4,
+ *       "stars": [2, 3]                                  (most moves for ★★★ and ★★)
+ *     }]
+ *   }
+ */
+
+import type { Tile, GameState, GameParams, Position, ScriptedSpawn } from './types';
+import { createInitialState, DEFAULT_PARAMS } from './gameEngine';
+import { isBoardCleared } from './gameModes';
+import { isScoringPresetId } from './scoring';
+import { isOpenCell, withBoardShape } from './boardShape';
+import type { BoardShape } from './boardShape';
+
+export const LEVEL_PACK_VERSION = 1;
+
+// Board sizes a level may use, the same range as the settings
+export const MIN_PUZZLE_SIZE = 3;
+export const MAX_PUZZLE_SIZE = 8;
+
+export type PuzzleGoal =
+  | { type: 'clear' } // Empty the board (after the move's spawns)
+  | { type: 'chain'; length: number } // Reach a chain reaction of at least this length
+  | { type: 'score'; points: number }; // Reach this score
+
+export interface PuzzleLevel {
+  id: string; // Unique within its pack
+  name: string;
+  params: GameParams;
+  tiles: Tile[]; // Starting board; tile i has ID i
+  spawns: ScriptedSpawn[];
+  goal: PuzzleGoal;
+  moveLimit: number;
+  stars: [number, number]; // Most moves for three and for two stars
+}
+
+export interface LevelPack {
+  id: string;
+  name: string;
+  levels: PuzzleLevel[];
+}
+
+export type PuzzleStatus = 'playing' | 'solved' | 'failed';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) > 0;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isBoardSize(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= MIN_PUZZLE_SIZE && (value as number) <= MAX_PUZZLE_SIZE;
+}
+
+// Read wall cells given as { row, col }, reporting each problem with its path
+function readWalls(value: unknown, width: number, height: number, path: string, errors: string[]): Position[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: must be an array`);
+    return [];
+  }
+
+  const walls: Position[] = [];
+  value.forEach((wall, i) => {
+    if (!isRecord(wall) || !Number.isInteger(wall.row) || !Number.isInteger(wall.col)
+      || (wall.row as number) < 0 || (wall.row as number) >= height
+      || (wall.col as number) < 0 || (wall.col as number) >= width) {
+      errors.push(`${path}[${i}]: must be { row, col } inside the ${width}×${height} board`);
+      return;
+    }
+    if (walls.some(w => w.row === wall.row && w.col === wall.col)) {
+      errors.push(`${path}[${i}]: the same cell as an earlier wall`);
+      return;
+    }
+    walls.push({ row: wall.row as number, col: wall.col as number });
+  });
+  return walls;
+}
+
+// Read tiles given as { row, col, value }, reporting each problem with its path
+function readTiles(value: unknown, shape: BoardShape, path: string, errors: string[]): ScriptedSpawn[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: must be an array`);
+    return [];
+  }
+
+  const tiles: ScriptedSpawn[] = [];
+  value.forEach((tile, i) => {
+    if (!isRecord(tile)) {
+      errors.push(`${path}[${i}]: must be an object with row, col and value`);
+      return;
+    }
+    const { row, col, value: tileValue } = tile;
+    if (!Number.isInteger(row) || !Number.isInteger(col)
+      || (row as number) < 0 || (row as number) >= shape.height || (col as number) < 0 || (col as number) >= shape.width) {
+      errors.push(`${path}[${i}]: row and col must be inside the ${shape.width}×${shape.height} board`);
+      return;
+    }
+    if (!isOpenCell(shape, row as number, col as number)) {
+      errors.push(`${path}[${i}]: (${row}, ${col}) is a wall`);
+      return;
+    }
+    if (!Number.isSafeInteger(tileValue) || (tileValue as number) < 2) {
+      errors.push(`${path}[${i}]: value must be an integer of at least 2`);
+      return;
+    }
+    tiles.push({ row: row as number, col: col as number, value: tileValue as number });
+  });
+  return tiles;
+}
+
+function readGoal(value: unknown, path: string, errors: string[]): PuzzleGoal | null {
+  if (!isRecord(value)) {
+    errors.push(`${path}: must be an object with a type`);
+    return null;
+  }
+  switch (value.type) {
+    case 'clear':
+      return { type: 'clear' };
+    case 'chain':
+      if (isPositiveInteger(value.length)) return { type: 'chain', length: value.length };
+      errors.push(`${path}.length: must be a positive integer`);
+      return null;
+    case 'score':
+      if (isPositiveInteger(value.points)) return { type: 'score', points: value.points };
+      errors.push(`${path}.points: must be a positive integer`);
+      return null;
+    default:
+      errors.push(`${path}.type: must be clear, chain or score`);
+      return null;
+  }
+}
+
+function readLevel(value: unknown, path: string, errors: string[]): PuzzleLevel | null {
+  if (!isRecord(value)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+  const before = errors.length;
+  const { id, name, n, k, scoring, moveLimit, stars } = value;
+  // A level is n × n, or width × height
+  const width = value.width ?? n;
+  const height = value.height ?? n;
+
+  if (!isNonEmptyString(id)) errors.push(`${path}.id: must be a non-empty string`);
+  if (!isNonEmptyString(name)) errors.push(`${path}.name: must be a non-empty string`);
+  if (!isBoardSize(width) || !isBoardSize(height)) {
+    const field = n === undefined ? 'width and height' : 'n';
+    errors.push(`${path}.${field}: must be integers from ${MIN_PUZZLE_SIZE} to ${MAX_PUZZLE_SIZE}`);
+    return null; // Tiles cannot be checked without the board size
+  }
+  if (k !== undefined && !isPositiveInteger(k)) errors.push(`${path}.k: must be a positive integer`);
+  if (scoring !== undefined && !isScoringPresetId(scoring)) errors.push(`${path}.scoring: unknown scoring preset`);
+
+  const walls = value.walls === undefined ? [] : readWalls(value.walls, width, height, `${path}.walls`, errors);
+  const shape: BoardShape = { width, height, blocked: walls };
+  const tiles = readTiles(value.tiles, shape, `${path}.tiles`, errors);
+  const cells = new Set(tiles.map(t => `${t.row},${t.col}`));
+  if (cells.size !== tiles.length) errors.push(`${path}.tiles: two tiles on the same cell`);
+  if (Array.isArray(value.tiles) && value.tiles.length === 0) {
+    errors.push(`${path}.tiles: the board must start with at least one tile`);
+  }
+  const spawns = value.spawns === undefined ? [] : readTiles(value.spawns, shape, `${path}.spawns`, errors);
+  const goal = readGoal(value.goal, `${path}.goal`, errors);
+
+  if (!isPositiveInteger(moveLimit)) {
+    errors.push(`${path}.moveLimit: must be a positive integer`);
+  } else if (!Array.isArray(stars) || stars.length !== 2 || !stars.every(isPositiveInteger)
+    || stars[0] > stars[1] || stars[1] > moveLimit) {
+    errors.push(`${path}.stars: must be [three-star moves, two-star moves] with 1 ≤ three ≤ two ≤ moveLimit`);
+  }
+
+  if (errors.length > before || goal === null) return null;
+
+  return {
+    id: id as string,
+    name: name as string,
+    params: withBoardShape({
+      n: width,
+      m: tiles.length,
+      k: (k as number | undefined) ?? DEFAULT_PARAMS.k,
+      p: DEFAULT_PARAMS.p,
+      ...(scoring !== undefined && { scoring: scoring as GameParams['scoring'] }),
+    }, width, height, walls),
+    tiles: tiles.map((tile, i) => ({ id: i, ...tile })),
+    spawns,
+    goal,
+    moveLimit: moveLimit as number,
+    stars: stars as [number, number],
+  };
+}
+
+/**
+ * Validate a level pack read from JSON
+ * Returns the pack, or null and every problem found with its path in the data
+ */
+export function parseLevelPack(data: unknown): { pack: LevelPack | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!isRecord(data)) return { pack: null, errors: ['pack: must be an object'] };
+
+  const { version, id, name, levels: rawLevels } = data;
+  if (version !== LEVEL_PACK_VERSION) errors.push(`version: must be ${LEVEL_PACK_VERSION}`);
+  if (!isNonEmptyString(id)) errors.push('id: must be a non-empty string');
+  if (!isNonEmptyString(name)) errors.push('name: must be a non-empty string');
+  if (!Array.isArray(rawLevels) || rawLevels.length === 0) {
+    errors.push('levels: must be a non-empty array');
+    return { pack: null, errors };
+  }
+
+  const levels: PuzzleLevel[] = [];
+  const ids = new Set<string>();
+  rawLevels.forEach((raw, i) => {
+    const level = readLevel(raw, `levels[${i}]`, errors);
+    if (!level) return;
+    if (ids.has(level.id)) errors.push(`levels[${i}].id: "${level.id}" is used by an earlier level`);
+    ids.add(level.id);
+    levels.push(level);
+  });
+
+  if (errors.length > 0) return { pack: null, errors };
+  return { pack: { id: id as string, name: name as string, levels }, errors };
+}
+
+/**
+ * Starting state of a level: the fixed tiles and the scripted spawn queue
+ */
+export function createPuzzleState(level: PuzzleLevel): GameState {
+  return {
+    ...createInitialState({ ...level.params, m: 0 }, 0),
+    tiles: level.tiles,
+    nextTileId: level.tiles.length,
+    spawnQueue: level.spawns,
+  };
+}
+
+export function isGoalReached(goal: PuzzleGoal, state: GameState): boolean {
+  switch (goal.type) {
+    case 'clear': return isBoardCleared(state);
+    case 'chain': return state.maxChain >= goal.length;
+    case 'score': return state.score >= goal.points;
+  }
+}
+
+/**
+ * A level is failed once the move limit is used up (or no move is left)
+ * without reaching the goal
+ */
+export function getPuzzleStatus(level: PuzzleLevel, state: GameState): PuzzleStatus {
+  if (isGoalReached(level.goal, state)) return 'solved';
+  if (state.moveCount >= level.moveLimit || state.isGameOver) return 'failed';
+  return 'playing';
+}
+
+/**
+ * Stars for solving a level in the given number of moves
+ */
+export function getStars(level: PuzzleLevel, moveCount: number): number {
+  if (moveCount <= level.stars[0]) return 3;
+  if (moveCount <= level.stars[1]) return 2;
+  return 1;
+}
+
+export function describeGoal(level: PuzzleLevel): string {
+  const { goal, moveLimit } = level;
+  switch (goal.type) {
+    case 'clear': return `${moveLimit}手以内に盤面のタイルをすべて消す`;
+    case 'chain': return `${moveLimit}手以内に${goal.length}連鎖を起こす`;
+    case 'score': return `${moveLimit}手以内に${goal.points}点を取る`;
+  }
+}
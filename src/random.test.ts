@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { nextRandom, createSeededRandom, hashSeed, parseSeed } from './random';
+
+describe('nextRandom', () => {
+  it('should return values in [0, 1)', () => {
+    let state = 12345;
+    for (let i = 0; i < 1000; i++) {
+      const step = nextRandom(state);
+      expect(step.value).toBeGreaterThanOrEqual(0);
+      expect(step.value).toBeLessThan(1);
+      state = step.state;
+    }
+  });
+
+  it('should be deterministic for a given state', () => {
+    expect(nextRandom(7)).toEqual(nextRandom(7));
+    expect(nextRandom(7).value).not.toBe(nextRandom(8).value);
+  });
+});
+
+describe('createSeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = createSeededRandom(2024);
+    const b = createSeededRandom(2024);
+
+    const sequenceA = Array.from({ length: 10 }, () => a.random());
+    const sequenceB = Array.from({ length: 10 }, () => b.random());
+
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  it('should resume from a saved state', () => {
+    const original = createSeededRandom(99);
+    original.random();
+    original.random();
+
+    const resumed = createSeededRandom(original.getState());
+
+    expect(resumed.random()).toBe(original.random());
+  });
+});
+
+describe('hashSeed', () => {
+  it('should hash text into a stable 32-bit seed', () => {
+    const seed = hashSeed('bug_175_5');
+
+    expect(seed).toBe(hashSeed('bug_175_5'));
+    expect(seed).not.toBe(hashSeed('bug_3_147'));
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(0xffffffff);
+  });
+});
+
+describe('parseSeed', () => {
+  it('should return null for missing or empty input', () => {
+    expect(parseSeed(null)).toBeNull();
+    expect(parseSeed('')).toBeNull();
+    expect(parseSeed('   ')).toBeNull();
+  });
+
+  it('should use plain integers as-is', () => {
+    expect(parseSeed('175')).toBe(175);
+    expect(parseSeed(' 3147 ')).toBe(3147);
+  });
+
+  it('should hash other text', () => {
+    expect(parseSeed('hello')).toBe(hashSeed('hello'));
+    expect(parseSeed('99999999999')).toBe(hashSeed('99999999999'));
+  });
+});
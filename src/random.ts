@@ -0,0 +1,77 @@
+/**
+ * Seeded Random Number Generation
+ *
+ * A small deterministic PRNG (mulberry32) whose whole state is a single
+ * 32-bit integer. The state is stored in GameState, so the same seed and the
+ * same inputs always reproduce the same board.
+ */
+
+import type { RandomSource } from './gameLogic';
+
+/**
+ * Advance the generator by one step
+ * Returns a number in [0, 1) and the state to use for the next step
+ */
+export function nextRandom(state: number): { value: number; state: number } {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return {
+    value: ((t ^ (t >>> 14)) >>> 0) / 4294967296,
+    state: nextState,
+  };
+}
+
+/**
+ * Create a random source starting at the given state
+ * getState returns the state after all numbers drawn so far
+ */
+export function createSeededRandom(state: number): { random: RandomSource; getState: () => number } {
+  let current = state >>> 0;
+  return {
+    random: () => {
+      const step = nextRandom(current);
+      current = step.state;
+      return step.value;
+    },
+    getState: () => current,
+  };
+}
+
+/**
+ * Pick a fresh seed for a new game
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Hash arbitrary text into a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Parse a seed typed by a user or taken from the URL
+ * Plain 32-bit integers are used as-is, any other text is hashed
+ * Returns null for empty input
+ */
+export function parseSeed(text: string | null): number | null {
+  if (text === null) return null;
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  if (/^\d+$/.test(trimmed)) {
+    const value = Number(trimmed);
+    if (value <= 0xffffffff) return value;
+  }
+
+  return hashSeed(trimmed);
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { getGameRecord, replayGame, serializeRecord, parseRecord } from './replay';
+import { applyMove, createInitialState, holdTile, spawnTile, MAX_RECORDED_MOVES } from './gameEngine';
+import type { GameParams, GameState } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 3, k: 2, p: 7 };
+
+function playGame(seed: number): GameState {
+  let state = createInitialState(PARAMS, seed);
+  for (const direction of ['left', 'up', 'right', 'down', 'left', 'up', 'right'] as const) {
+    state = applyMove(state, direction, undefined, PARAMS).state;
+  }
+  state = spawnTile(state, PARAMS).state;
+  const tile = state.tiles[0];
+  for (const direction of ['down', 'right'] as const) {
+    state = applyMove(state, direction, tile.id, PARAMS).state;
+  }
+  return state;
+}
+
+describe('replayGame', () => {
+  it('should reproduce the recorded game exactly', () => {
+    const state = playGame(2024);
+    const record = getGameRecord(PARAMS, state)!;
+
+    const replay = replayGame(record);
+
+    expect(replay.divergedAt).toBeNull();
+    expect(replay.steps).toHaveLength(record.moves.length);
+    expect(replay.steps[replay.steps.length - 1].result.state).toEqual(state);
+  });
+
+  it('should start from the initial board and chain the steps', () => {
+    const record = getGameRecord(PARAMS, playGame(7))!;
+
+    const replay = replayGame(record);
+
+    expect(replay.initial).toEqual(createInitialState(PARAMS, 7));
+    expect(replay.steps[0].before).toBe(replay.initial);
+    for (let i = 1; i < replay.steps.length; i++) {
+      expect(replay.steps[i].before).toBe(replay.steps[i - 1].result.state);
+    }
+  });
+
+  it('should report a spawn step as a spawn event', () => {
+    const replay = replayGame({ params: PARAMS, seed: 1, moves: [['spawn']] });
+
+    expect(replay.steps[0].result.events.map(e => e.type)).toEqual(['spawn']);
+  });
+
+  it('should reproduce uses of the hold slot', () => {
+    const params: GameParams = { ...PARAMS, preview: 2, holdInterval: 2 };
+    let state = createInitialState(params, 11);
+    state = holdTile(state, params)!;
+    for (const direction of ['left', 'up', 'right'] as const) {
+      state = applyMove(state, direction, undefined, params).state;
+    }
+    state = holdTile(state, params)!;
+
+    const replay = replayGame(getGameRecord(params, state)!);
+
+    expect(state.moves!.filter(move => move[0] === 'hold')).toHaveLength(2);
+    expect(replay.divergedAt).toBeNull();
+    expect(replay.steps[replay.steps.length - 1].result.state).toEqual(state);
+  });
+
+  it('should stop at a move that cannot be played', () => {
+    const replay = replayGame({ params: PARAMS, seed: 1, moves: [['spawn'], ['left', 999], ['up']] });
+
+    expect(replay.divergedAt).toBe(1);
+    expect(replay.steps).toHaveLength(1);
+  });
+});
+
+describe('getGameRecord', () => {
+  it('should return null for a game with an incomplete log', () => {
+    expect(getGameRecord(PARAMS, { ...createInitialState(PARAMS, 1), moves: null })).toBeNull();
+  });
+
+  it('should stop recording a game whose log is full', () => {
+    const full = { ...createInitialState(PARAMS, 1), moves: Array.from({ length: MAX_RECORDED_MOVES }, () => ['spawn'] as ['spawn']) };
+
+    expect(getGameRecord(PARAMS, spawnTile(full, PARAMS).state)).toBeNull();
+  });
+});
+
+describe('serializeRecord / parseRecord', () => {
+  it('should round-trip a record', () => {
+    const record = getGameRecord({ ...PARAMS, undoLimit: 2 }, playGame(99))!;
+
+    expect(parseRecord(serializeRecord(record))).toEqual(record);
+  });
+
+  it('should reject malformed records', () => {
+    const valid = JSON.parse(serializeRecord({ params: PARAMS, seed: 1, moves: [['left']] }));
+
+    expect(parseRecord('not json')).toBeNull();
+    expect(parseRecord(JSON.stringify({ ...valid, version: 99 }))).toBeNull();
+    expect(parseRecord(JSON.stringify({ ...valid, seed: -1 }))).toBeNull();
+    expect(parseRecord(JSON.stringify({ ...valid, moves: [['left', 'x']] }))).toBeNull();
+    expect(parseRecord(JSON.stringify({ ...valid, params: { ...PARAMS, n: 0 } }))).toBeNull();
+  });
+
+  it('should reject records too large to replay', () => {
+    const valid = JSON.parse(serializeRecord({ params: PARAMS, seed: 1, moves: [['left']] }));
+
+    expect(parseRecord(JSON.stringify({ ...valid, params: { ...PARAMS, n: 3000 } }))).toBeNull();
+    expect(parseRecord(JSON.stringify({ ...valid, params: { ...PARAMS, p: 300000000 } }))).toBeNull();
+    expect(parseRecord(JSON.stringify({ ...valid, moves: Array.from({ length: MAX_RECORDED_MOVES + 1 }, () => ['left']) }))).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Replays - Re-run a recorded game through the move engine
+ *
+ * A game is fully described by its parameters, its seed and the moves that
+ * were played: every spawn is drawn from the seeded generator, so running the
+ * moves again reproduces the game exactly, including its animation events.
+ */
+
+import type { GameState, GameParams, RecordedMove } from './types';
+import { applyMove, createInitialState, holdTile, spawnTile } from './gameEngine';
+import type { MoveResult } from './gameEngine';
+import { readMoves, readParams } from './storage';
+
+export const REPLAY_VERSION = 1;
+
+export interface GameRecord {
+  params: GameParams;
+  seed: number;
+  moves: RecordedMove[];
+}
+
+export interface ReplayStep {
+  move: RecordedMove;
+  before: GameState;
+  result: MoveResult;
+}
+
+export interface Replay {
+  initial: GameState;
+  steps: ReplayStep[];
+  divergedAt: number | null; // Index of the first move that could not be played
+}
+
+/**
+ * Record of the game so far
+ * Returns null when the game's move log is incomplete (e.g. a migrated save)
+ */
+export function getGameRecord(params: GameParams, state: GameState): GameRecord | null {
+  if (state.moves === null) return null;
+  return { params, seed: state.seed, moves: state.moves };
+}
+
+function playRecordedMove(state: GameState, move: RecordedMove, params: GameParams): MoveResult {
+  if (move[0] === 'spawn') {
+    const spawn = spawnTile(state, params);
+    return spawn.tile
+      ? { state: spawn.state, events: [{ type: 'spawn', tile: spawn.tile }], moved: true }
+      : { state, events: [], moved: false };
+  }
+  if (move[0] === 'hold') {
+    const held = holdTile(state, params);
+    return held ? { state: held, events: [], moved: true } : { state, events: [], moved: false };
+  }
+  return applyMove(state, move[0], move[1], params);
+}
+
+/**
+ * Play every recorded move from the start of the game
+ * Stops at the first move that changes nothing, which only happens for
+ * records that were edited or made with different rules
+ */
+export function replayGame(record: GameRecord): Replay {
+  const initial = createInitialState(record.params, record.seed);
+  const steps: ReplayStep[] = [];
+
+  let state = initial;
+  for (const [index, move] of record.moves.entries()) {
+    const result = playRecordedMove(state, move, record.params);
+    if (!result.moved) return { initial, steps, divergedAt: index };
+    steps.push({ move, before: state, result });
+    state = result.state;
+  }
+
+  return { initial, steps, divergedAt: null };
+}
+
+export function serializeRecord(record: GameRecord): string {
+  return JSON.stringify({ version: REPLAY_VERSION, ...record });
+}
+
+/**
+ * Read a record from JSON, returning null if it is not a valid record
+ */
+export function parseRecord(raw: string): GameRecord | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (typeof data !== 'object' || data === null) return null;
+  const { version, params: rawParams, seed, moves: rawMoves } = data as Record<string, unknown>;
+  if (version !== REPLAY_VERSION) return null;
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) return null;
+
+  const params = readParams(rawParams);
+  const moves = readMoves(rawMoves);
+  if (params === null || moves === null) return null;
+
+  return { params, seed, moves };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPowerBonus,
+  getScoringRules,
+  isScoringPresetId,
+  scoreDivision,
+  scoreElimination,
+  scoreFactorization,
+  CAPPED_MULTIPLIER,
+  SCORING_PRESET_IDS,
+} from './scoring';
+
+describe('scoring presets', () => {
+  it('should default to classic', () => {
+    expect(getScoringRules().id).toBe('classic');
+  });
+
+  it('should double the classic multiplier with every chain step', () => {
+    const rules = getScoringRules('classic');
+
+    expect([0, 1, 2, 3].map(rules.chainMultiplier)).toEqual([1, 2, 4, 8]);
+  });
+
+  it('should grow the linear multiplier by one per chain step', () => {
+    const rules = getScoringRules('linear');
+
+    expect([0, 1, 2, 3].map(rules.chainMultiplier)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should cap the capped multiplier', () => {
+    const rules = getScoringRules('capped');
+
+    expect([0, 3, 4, 10].map(rules.chainMultiplier)).toEqual([1, CAPPED_MULTIPLIER, CAPPED_MULTIPLIER, CAPPED_MULTIPLIER]);
+  });
+
+  it('should count prime factors with multiplicity in the primeCount preset', () => {
+    const rules = getScoringRules('primeCount');
+
+    expect([2, 12, 49, 105, 97].map(rules.tilePoints)).toEqual([10, 30, 20, 30, 10]);
+  });
+
+  it('should recognize only preset ids', () => {
+    expect(SCORING_PRESET_IDS.every(isScoringPresetId)).toBe(true);
+    expect(isScoringPresetId('toString')).toBe(false);
+    expect(isScoringPresetId(undefined)).toBe(false);
+  });
+});
+
+describe('reaction scores', () => {
+  const classic = getScoringRules('classic');
+
+  it('should award the dividend for a division', () => {
+    expect(scoreDivision(classic, 15)).toBe(15);
+    expect(scoreDivision(classic, 15, 4)).toBe(60);
+  });
+
+  it('should award both tiles for an elimination', () => {
+    expect(scoreElimination(classic, 7, 7)).toBe(14);
+    expect(scoreElimination(getScoringRules('primeCount'), 9, 9, 2)).toBe(80);
+  });
+
+  it('should multiply a perfect power elimination by its exponent', () => {
+    expect(getPowerBonus(null)).toBe(1);
+    expect(scoreElimination(classic, 9, 9, 1, 2)).toBe(36);
+    expect(scoreElimination(classic, 27, 27, 1, 3)).toBe(162);
+    expect(scoreElimination(classic, 64, 64, 2, 6)).toBe(1536);
+  });
+
+  it('should award the center and every factor for a factorization', () => {
+    expect(scoreFactorization(classic, 30, [2, 3], 2)).toBe(70);
+  });
+});
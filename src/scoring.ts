@@ -0,0 +1,131 @@
+/**
+ * Scoring Rules - The single place that decides how many points a reaction is worth
+ *
+ * Every merge path (slide collisions in the move engine, chain reactions and
+ * the simple tile removal) asks these rules for its points, so a preset
+ * changes the scoring of the whole game at once.
+ *
+ * A reaction is worth the points of every tile value it consumes:
+ * - division: the dividend
+ * - elimination: both equal tiles, times the exponent when they are a perfect
+ *   power (×2 for squares, ×3 for cubes, ×6 for 64 = 2⁶)
+ * - factorization: the center tile and each factor tile
+ * - reduction: both tiles divided by their common factor (gcd merge rule)
+ * Chain reactions multiply that by the preset's multiplier for their step;
+ * slide collisions are never multiplied.
+ */
+
+import { factorize } from './gameLogic';
+import type { PowerType } from './gameLogic';
+
+export type ScoringPresetId = 'classic' | 'linear' | 'primeCount' | 'capped';
+
+export interface ScoringRules {
+  id: ScoringPresetId;
+  label: string;
+  description: string;
+  tilePoints: (value: number) => number; // Points for one tile value consumed by a reaction
+  chainMultiplier: (step: number) => number; // Multiplier of the step-th chain iteration (0-based)
+}
+
+export const DEFAULT_SCORING: ScoringPresetId = 'classic';
+
+// Highest multiplier of the capped preset
+export const CAPPED_MULTIPLIER = 8;
+
+// Points per prime factor in the primeCount preset
+export const POINTS_PER_PRIME_FACTOR = 10;
+
+// Number of prime factors counted with multiplicity (12 = 2·2·3 has 3)
+function countPrimeFactors(value: number): number {
+  let count = 0;
+  for (const exponent of factorize(value).values()) count += exponent;
+  return count;
+}
+
+export const SCORING_PRESETS: Record<ScoringPresetId, ScoringRules> = {
+  classic: {
+    id: 'classic',
+    label: 'クラシック',
+    description: 'タイルの数値がそのまま得点、連鎖ごとに倍率2倍',
+    tilePoints: value => value,
+    chainMultiplier: step => Math.pow(2, step),
+  },
+  linear: {
+    id: 'linear',
+    label: '連鎖ボーナス（線形）',
+    description: 'タイルの数値が得点、倍率は連鎖ごとに+1',
+    tilePoints: value => value,
+    chainMultiplier: step => step + 1,
+  },
+  primeCount: {
+    id: 'primeCount',
+    label: '素因数の個数',
+    description: `素因数1個につき${POINTS_PER_PRIME_FACTOR}点、連鎖ごとに倍率2倍`,
+    tilePoints: value => POINTS_PER_PRIME_FACTOR * countPrimeFactors(value),
+    chainMultiplier: step => Math.pow(2, step),
+  },
+  capped: {
+    id: 'capped',
+    label: '倍率上限あり',
+    description: `クラシックと同じ、ただし倍率は最大${CAPPED_MULTIPLIER}倍`,
+    tilePoints: value => value,
+    chainMultiplier: step => Math.min(Math.pow(2, step), CAPPED_MULTIPLIER),
+  },
+};
+
+export const SCORING_PRESET_IDS = Object.keys(SCORING_PRESETS) as ScoringPresetId[];
+
+export function isScoringPresetId(value: unknown): value is ScoringPresetId {
+  return typeof value === 'string' && Object.hasOwn(SCORING_PRESETS, value);
+}
+
+export function getScoringRules(id: ScoringPresetId = DEFAULT_SCORING): ScoringRules {
+  return SCORING_PRESETS[id];
+}
+
+/**
+ * Points for a division: the divisor disappears and the dividend is divided
+ */
+export function scoreDivision(rules: ScoringRules, dividend: number, multiplier = 1): number {
+  return rules.tilePoints(dividend) * multiplier;
+}
+
+/**
+ * Bonus factor of an elimination: the exponent of a perfect power, 1 otherwise
+ */
+export function getPowerBonus(powerType: PowerType | null): number {
+  return powerType ?? 1;
+}
+
+/**
+ * Points for two equal tiles removing each other
+ */
+export function scoreElimination(
+  rules: ScoringRules,
+  value1: number,
+  value2: number,
+  multiplier = 1,
+  powerType: PowerType | null = null
+): number {
+  return (rules.tilePoints(value1) + rules.tilePoints(value2)) * getPowerBonus(powerType) * multiplier;
+}
+
+/**
+ * Points for two tiles both divided by their greatest common divisor
+ */
+export function scoreReduction(rules: ScoringRules, value1: number, value2: number, multiplier = 1): number {
+  return (rules.tilePoints(value1) + rules.tilePoints(value2)) * multiplier;
+}
+
+/**
+ * Points for a tile factorized by several adjacent factor tiles at once
+ */
+export function scoreFactorization(
+  rules: ScoringRules,
+  center: number,
+  factors: number[],
+  multiplier = 1
+): number {
+  return factors.reduce((sum, factor) => sum + rules.tilePoints(factor), rules.tilePoints(center)) * multiplier;
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { encodeBoardHash, parseBoardHash, getShareUrl } from './shareLink';
+import { applyMove, createInitialState } from './gameEngine';
+import type { GameParams } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7 };
+
+describe('encodeBoardHash / parseBoardHash', () => {
+  it('should restore the same board, params, score and seed', () => {
+    let state = createInitialState({ ...PARAMS, m: 5 }, 321);
+    state = applyMove(state, 'left', undefined, PARAMS).state;
+
+    const shared = parseBoardHash(encodeBoardHash({ ...PARAMS, m: 5 }, state))!;
+
+    expect(shared.params).toEqual({ ...PARAMS, m: 5 });
+    expect(shared.state.score).toBe(state.score);
+    expect(shared.state.seed).toBe(state.seed);
+    expect(shared.state.moveCount).toBe(state.moveCount);
+    const cells = (tiles: typeof state.tiles) =>
+      tiles.map(t => `${t.row},${t.col},${t.value}`).sort();
+    expect(cells(shared.state.tiles)).toEqual(cells(state.tiles));
+  });
+
+  it('should read a hand-written link', () => {
+    const shared = parseBoardHash('#v=1&n=4&m=2&k=3&p=7&u=2&score=30&seed=42&tiles=0-0-105.0-1-15.1-1-7');
+
+    expect(shared).not.toBeNull();
+    expect(shared!.params).toEqual({ ...PARAMS, undoLimit: 2 });
+    expect(shared!.state.tiles).toEqual([
+      { id: 0, value: 105, row: 0, col: 0 },
+      { id: 1, value: 15, row: 0, col: 1 },
+      { id: 2, value: 7, row: 1, col: 1 },
+    ]);
+    expect(shared!.state.nextTileId).toBe(3);
+    expect(shared!.state.score).toBe(30);
+    expect(shared!.state.moveCount).toBe(0);
+  });
+
+  it('should carry the scoring preset', () => {
+    const params: GameParams = { ...PARAMS, scoring: 'capped' };
+    const shared = parseBoardHash(encodeBoardHash(params, createInitialState(params, 1)))!;
+
+    expect(shared.params.scoring).toBe('capped');
+    expect(parseBoardHash('v=1&n=4&m=2&k=3&p=7&s=bogus&score=0&seed=1&tiles=')).toBeNull();
+  });
+
+  it('should carry the game mode', () => {
+    const params: GameParams = { ...PARAMS, mode: { type: 'moves', limit: 50 } };
+    const shared = parseBoardHash(encodeBoardHash(params, createInitialState(params, 1)))!;
+
+    expect(shared.params.mode).toEqual({ type: 'moves', limit: 50 });
+    expect(parseBoardHash('v=1&n=4&m=2&k=3&p=7&mode=moves-0&score=0&seed=1&tiles=')).toBeNull();
+  });
+
+  it('should carry the board shape', () => {
+    const params: GameParams = { ...PARAMS, n: 5, width: 5, height: 3, blocked: [{ row: 0, col: 2 }, { row: 2, col: 2 }] };
+    const hash = encodeBoardHash(params, createInitialState(params, 1));
+
+    expect(hash).toContain('width=5&height=3&walls=0-2.2-2');
+    expect(parseBoardHash(hash)!.params).toEqual(params);
+    expect(parseBoardHash('v=1&n=4&m=2&k=3&p=7&walls=1-1&score=0&seed=1&tiles=1-1-6')).toBeNull();
+    expect(parseBoardHash('v=1&n=4&m=2&k=3&p=7&walls=1&score=0&seed=1&tiles=')).toBeNull();
+  });
+
+  it('should carry the adjacency', () => {
+    const params: GameParams = { ...PARAMS, adjacency: 'hex' };
+    const hash = encodeBoardHash(params, createInitialState(params, 1));
+
+    expect(hash).toContain('adj=hex');
+    expect(parseBoardHash(hash)!.params.adjacency).toBe('hex');
+    expect(parseBoardHash('v=1&n=4&m=2&k=3&p=7&adj=triangle&score=0&seed=1&tiles=')).toBeNull();
+  });
+
+  it('should carry the spawn distribution', () => {
+    const params: GameParams = { ...PARAMS, spawn: 'gentle' };
+    const hash = encodeBoardHash(params, createInitialState(params, 1));
+
+    expect(parseBoardHash(hash)!.params.spawn).toBe('gentle');
+    expect(parseBoardHash('v=1&n=4&m=2&k=3&p=7&spawn=flood&score=0&seed=1&tiles=')).toBeNull();
+  });
+
+  it('should carry the preview queue and the hold slot', () => {
+    const params: GameParams = { ...PARAMS, preview: 2, holdInterval: 5 };
+    const state = { ...createInitialState(params, 1), upcoming: [6, 35], held: 10 };
+    const hash = encodeBoardHash(params, state);
+
+    expect(hash).toContain('preview=2&hold=5');
+    expect(hash).toContain('next=6.35&held=10');
+    const shared = parseBoardHash(hash)!;
+    expect(shared.params).toEqual(params);
+    expect(shared.state).toMatchObject({ upcoming: [6, 35], held: 10 });
+    expect(parseBoardHash(hash.replace('next=6.35', 'next=6'))).toBeNull();
+    expect(parseBoardHash('v=1&n=4&m=2&k=3&p=7&score=0&seed=1&tiles=&held=6')).toBeNull();
+  });
+
+  it('should carry special tiles and their setting', () => {
+    const params: GameParams = { ...PARAMS, specials: true };
+    const hash = 'v=1&n=4&m=2&k=3&p=7&specials=1&score=0&seed=1&tiles=0-0-1w.0-1-30.1-1-15l.2-2-6g';
+
+    const shared = parseBoardHash(hash)!;
+
+    expect(shared.params).toEqual(params);
+    expect(shared.state.tiles).toEqual([
+      { id: 0, row: 0, col: 0, value: 1, kind: 'wildcard' },
+      { id: 1, row: 0, col: 1, value: 30 },
+      { id: 2, row: 1, col: 1, value: 15, kind: 'locked' },
+      { id: 3, row: 2, col: 2, value: 6, kind: 'gcd' },
+    ]);
+    expect(encodeBoardHash(shared.params, shared.state)).toBe(hash);
+    expect(parseBoardHash(hash.replace('1-1-15l', '1-1-15x'))).toBeNull();
+  });
+
+  it('should carry the merge rule', () => {
+    const params: GameParams = { ...PARAMS, mergeRule: 'gcd' };
+    const hash = encodeBoardHash(params, createInitialState(params, 1));
+
+    expect(hash).toContain('merge=gcd');
+    expect(parseBoardHash(hash)!.params).toEqual(params);
+    expect(parseBoardHash(hash.replace('merge=gcd', 'merge=lcm'))).toBeNull();
+  });
+
+  it('should mark the game as shared and not replayable', () => {
+    const shared = parseBoardHash(encodeBoardHash(PARAMS, createInitialState(PARAMS, 1)))!;
+
+    expect(shared.state.fromSharedLink).toBe(true);
+    expect(shared.state.moves).toBeNull();
+  });
+
+  it('should give everyone opening the link the same spawns', () => {
+    const hash = 'v=1&n=4&m=2&k=1&p=7&score=0&seed=99&tiles=0-0-6';
+
+    const a = applyMove(parseBoardHash(hash)!.state, 'right', undefined, { ...PARAMS, k: 1 });
+    const b = applyMove(parseBoardHash(hash)!.state, 'right', undefined, { ...PARAMS, k: 1 });
+
+    expect(a.state).toEqual(b.state);
+    expect(a.events.some(e => e.type === 'spawn')).toBe(true);
+  });
+
+  it('should accept an empty board', () => {
+    expect(parseBoardHash('v=1&n=4&m=2&k=3&p=7&score=0&seed=1&tiles=')!.state.tiles).toEqual([]);
+  });
+
+  it('should reject invalid links', () => {
+    const valid = 'v=1&n=4&m=2&k=3&p=7&score=0&seed=1&tiles=0-0-6';
+
+    expect(parseBoardHash('')).toBeNull();
+    expect(parseBoardHash(valid.replace('v=1', 'v=2'))).toBeNull();
+    expect(parseBoardHash(valid.replace('&seed=1', ''))).toBeNull();
+    expect(parseBoardHash(valid.replace('score=0', 'score=-5'))).toBeNull();
+    expect(parseBoardHash(valid.replace('k=3', 'k=0'))).toBeNull();
+    expect(parseBoardHash(valid.replace('0-0-6', '4-0-6'))).toBeNull(); // Outside the board
+    expect(parseBoardHash(valid.replace('0-0-6', '0-0-6.0-0-7'))).toBeNull(); // Same cell twice
+    expect(parseBoardHash(valid.replace('0-0-6', '0-0-0'))).toBeNull();
+    expect(parseBoardHash(valid.replace('0-0-6', '0-0-x'))).toBeNull();
+  });
+
+  it('should reject boards and primes larger than the settings offer', () => {
+    const valid = 'v=1&n=4&m=2&k=3&p=7&score=0&seed=1&tiles=';
+
+    expect(parseBoardHash(valid.replace('n=4', 'n=3000'))).toBeNull();
+    expect(parseBoardHash(valid.replace('n=4', 'n=9'))).toBeNull();
+    expect(parseBoardHash(valid.replace('n=4', 'n=4&width=8&height=3000'))).toBeNull();
+    expect(parseBoardHash(valid.replace('n=4', 'n=4&width=3000&height=8'))).toBeNull();
+    expect(parseBoardHash(valid.replace('p=7', 'p=300000000'))).toBeNull();
+    expect(parseBoardHash(valid.replace('p=7', 'p=101'))).toBeNull();
+    expect(parseBoardHash(valid.replace('p=7', 'p=1'))).toBeNull();
+    expect(parseBoardHash(valid.replace('n=4', 'n=8').replace('p=7', 'p=97'))).not.toBeNull();
+  });
+});
+
+describe('getShareUrl', () => {
+  it('should put the board in the hash of the current page', () => {
+    const url = getShareUrl(PARAMS, createInitialState(PARAMS, 5), {
+      origin: 'https://example.com',
+      pathname: '/game/',
+    });
+
+    expect(url.startsWith('https://example.com/game/#v=1&')).toBe(true);
+    expect(parseBoardHash(new URL(url).hash)).not.toBeNull();
+  });
+});
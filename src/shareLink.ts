@@ -0,0 +1,196 @@
+/**
+ * Share Links - Encode a board position in the URL hash
+ *
+ * A link carries the parameters, score, seed and every tile's position and
+ * value, for example:
+ *
+ *   #v=1&n=4&m=2&k=3&p=7&score=0&seed=42&tiles=0-0-105.0-1-15.1-1-7
+ *
+ * tiles lists row-col-value triples separated by dots, with a letter after
+ * the value for a special tile (w wildcard, b bomb, l locked, g GCD); the
+ * optional u and h are the undo and hint limits, s is the scoring preset and
+ * mode the game mode (see getModeKey). A rectangular board adds width and
+ * height, and walls lists its blocked cells as row-col pairs separated by
+ * dots; adj is the adjacency (diagonal or hex) when it is not orthogonal;
+ * spawn is the spawn distribution preset. preview is the length of the
+ * preview queue and next its values separated by dots; hold is the hold
+ * interval and held the value in the hold slot; specials=1 lets random spawns
+ * be special tiles, and merge is the merge rule (gcd) when it is not divisor.
+ * The format is plain text so positions (and test fixtures) can be written by
+ * hand.
+ */
+
+import type { GameState, GameParams } from './types';
+import { TILE_KINDS } from './specialTiles';
+import type { TileKind } from './specialTiles';
+import { isGameOver } from './gameEngine';
+import { getModeKey, parseModeKey } from './gameModes';
+import { readParams, readTiles } from './storage';
+import type { SavedGame } from './storage';
+
+export const SHARE_LINK_VERSION = 1;
+
+const TILE_PATTERN = /^(\d+)-(\d+)-(\d+)([wblg]?)$/;
+const WALL_PATTERN = /^(\d+)-(\d+)$/;
+
+const KIND_CODES: Record<TileKind, string> = { wildcard: 'w', bomb: 'b', locked: 'l', gcd: 'g' };
+
+// Parse a decimal integer, rejecting signs, fractions and anything else
+function readInteger(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  const number = Number(value);
+  return Number.isSafeInteger(number) ? number : null;
+}
+
+/**
+ * Encode the board, parameters, score and seed as a URL hash (without '#')
+ */
+export function encodeBoardHash(params: GameParams, state: GameState): string {
+  const tiles = state.tiles
+    .filter(t => t.value !== 0)
+    .sort((a, b) => a.row - b.row || a.col - b.col)
+    .map(t => `${t.row}-${t.col}-${t.value}${t.kind ? KIND_CODES[t.kind] : ''}`)
+    .join('.');
+
+  const hash = new URLSearchParams({
+    v: String(SHARE_LINK_VERSION),
+    n: String(params.n),
+    m: String(params.m),
+    k: String(params.k),
+    p: String(params.p),
+  });
+  if (params.undoLimit !== undefined) hash.set('u', String(params.undoLimit));
+  if (params.hintLimit !== undefined) hash.set('h', String(params.hintLimit));
+  if (params.scoring !== undefined) hash.set('s', params.scoring);
+  if (params.mode !== undefined) hash.set('mode', getModeKey(params.mode));
+  if (params.width !== undefined) hash.set('width', String(params.width));
+  if (params.height !== undefined) hash.set('height', String(params.height));
+  if (params.blocked !== undefined) hash.set('walls', params.blocked.map(c => `${c.row}-${c.col}`).join('.'));
+  if (params.adjacency !== undefined) hash.set('adj', params.adjacency);
+  if (params.spawn !== undefined) hash.set('spawn', params.spawn);
+  if (params.preview !== undefined) hash.set('preview', String(params.preview));
+  if (params.holdInterval !== undefined) hash.set('hold', String(params.holdInterval));
+  if (params.specials) hash.set('specials', '1');
+  if (params.mergeRule !== undefined) hash.set('merge', params.mergeRule);
+  hash.set('score', String(state.score));
+  if (state.moveCount > 0) hash.set('moveCount', String(state.moveCount));
+  hash.set('seed', String(state.seed));
+  hash.set('tiles', tiles);
+  if (state.upcoming) hash.set('next', state.upcoming.join('.'));
+  if (state.held !== undefined) hash.set('held', String(state.held));
+  return hash.toString();
+}
+
+/**
+ * Decode a board link; returns null if the hash is not a valid board
+ *
+ * The game continues from the shared position with a generator seeded from
+ * the link's seed, so everyone opening the link sees the same spawns.
+ */
+export function parseBoardHash(hash: string): SavedGame | null {
+  const fields = new URLSearchParams(hash.replace(/^#/, ''));
+  if (readInteger(fields.get('v')) !== SHARE_LINK_VERSION) return null;
+
+  const undoLimit = fields.get('u');
+  const hintLimit = fields.get('h');
+  const scoring = fields.get('s');
+  const modeKey = fields.get('mode');
+  const mode = modeKey === null ? undefined : parseModeKey(modeKey);
+  if (mode === null) return null;
+  const width = fields.get('width');
+  const height = fields.get('height');
+  const adjacency = fields.get('adj');
+  const spawn = fields.get('spawn');
+  const preview = fields.get('preview');
+  const holdInterval = fields.get('hold');
+  const specials = fields.get('specials');
+  if (specials !== null && specials !== '1') return null;
+  const mergeRule = fields.get('merge');
+  const walls = fields.get('walls')?.split('.').map(entry => WALL_PATTERN.exec(entry));
+  if (walls?.some(cell => cell === null)) return null;
+  const params = readParams({
+    n: readInteger(fields.get('n')),
+    m: readInteger(fields.get('m')),
+    k: readInteger(fields.get('k')),
+    p: readInteger(fields.get('p')),
+    ...(undoLimit !== null && { undoLimit: readInteger(undoLimit) }),
+    ...(hintLimit !== null && { hintLimit: readInteger(hintLimit) }),
+    ...(scoring !== null && { scoring }),
+    ...(mode !== undefined && { mode }),
+    ...(width !== null && { width: readInteger(width) }),
+    ...(height !== null && { height: readInteger(height) }),
+    ...(adjacency !== null && { adjacency }),
+    ...(spawn !== null && { spawn }),
+    ...(preview !== null && { preview: readInteger(preview) }),
+    ...(holdInterval !== null && { holdInterval: readInteger(holdInterval) }),
+    ...(specials !== null && { specials: true }),
+    ...(mergeRule !== null && { mergeRule }),
+    ...(walls !== undefined && { blocked: walls.map(cell => ({ row: Number(cell![1]), col: Number(cell![2]) })) }),
+  });
+  if (params === null) return null;
+
+  const score = readInteger(fields.get('score'));
+  const seed = readInteger(fields.get('seed'));
+  const moveCount = fields.has('moveCount') ? readInteger(fields.get('moveCount')) : 0;
+  if (score === null || seed === null || seed > 0xffffffff || moveCount === null) return null;
+
+  const rawTiles = fields.get('tiles');
+  if (rawTiles === null) return null;
+
+  const entries = rawTiles === '' ? [] : rawTiles.split('.');
+  const cells = entries.map(entry => TILE_PATTERN.exec(entry));
+  if (cells.some(cell => cell === null)) return null;
+
+  const tiles = readTiles(
+    cells.map((cell, id) => ({
+      id,
+      row: Number(cell![1]),
+      col: Number(cell![2]),
+      value: Number(cell![3]),
+      ...(cell![4] && { kind: TILE_KINDS.find(kind => KIND_CODES[kind] === cell![4]) }),
+    })),
+    params
+  );
+  if (tiles === null) return null;
+
+  // The queue is as long as the preview, and only a game with a hold slot can have a held value
+  const upcoming = fields.get('next')?.split('.').map(readInteger);
+  const held = fields.has('held') ? readInteger(fields.get('held')) : undefined;
+  if ((upcoming?.length ?? 0) !== (params.preview ?? 0)) return null;
+  if (upcoming?.some(value => value === null || value < 1)) return null;
+  if (held !== undefined && (held === null || held < 1 || params.holdInterval === undefined)) return null;
+
+  const state: GameState = {
+    tiles,
+    score,
+    moveCount,
+    nextTileId: tiles.length,
+    seed,
+    rngState: seed,
+    maxChain: 0,
+    isGameOver: false,
+    undosUsed: 0,
+    hintsUsed: 0,
+    // The moves that led here are unknown, so the game cannot be replayed
+    moves: null,
+    fromSharedLink: true,
+    autoPlayed: false,
+    elapsedMs: 0,
+    daily: null,
+    ...(upcoming !== undefined && { upcoming: upcoming as number[] }),
+    ...(held !== undefined && { held }),
+  };
+
+  return { params, state: { ...state, isGameOver: isGameOver(state, params) } };
+}
+
+/**
+ * Full link to the current page that opens the given position
+ */
+export function getShareUrl(
+  params: GameParams,
+  state: GameState,
+  location: Pick<Location, 'origin' | 'pathname'> = window.location
+): string {
+  return `${location.origin}${location.pathname}#${encodeBoardHash(params, state)}`;
+}
@@ -9,26 +9,22 @@
  */
 
 import type { Tile } from './types';
+import { getScoringRules, scoreDivision, scoreElimination } from './scoring';
+import type { ScoringRules } from './scoring';
+import { getAdjacency } from './adjacency';
+import type { Adjacency } from './adjacency';
 
 /**
- * Get all tiles adjacent to a given tile
+ * Get all tiles adjacent to a given tile under the game's adjacency
  */
 function getAdjacentTiles(
   tile: { row: number; col: number },
-  allTiles: Tile[]
+  allTiles: Tile[],
+  adjacency: Adjacency
 ): Tile[] {
   const adjacent: Tile[] = [];
-  const directions = [
-    { dr: -1, dc: 0 },  // up
-    { dr: 1, dc: 0 },   // down
-    { dr: 0, dc: -1 },  // left
-    { dr: 0, dc: 1 },   // right
-  ];
 
-  for (const { dr, dc } of directions) {
-    const adjRow = tile.row + dr;
-    const adjCol = tile.col + dc;
-    
+  for (const { row: adjRow, col: adjCol } of adjacency.neighbours(tile.row, tile.col)) {
     for (const otherTile of allTiles) {
       if (otherTile.row === adjRow && otherTile.col === adjCol) {
         adjacent.push(otherTile);
@@ -46,7 +42,9 @@ function getAdjacentTiles(
  */
 export function processTileRemoval(
   tiles: Tile[],
-  nextTileId: number
+  nextTileId: number,
+  rules: ScoringRules = getScoringRules(),
+  adjacency: Adjacency = getAdjacency()
 ): {
   tiles: Tile[];
   scoreGained: number;
@@ -70,7 +68,7 @@ export function processTileRemoval(
     }
     
     // Get adjacent tiles (excluding already removed tiles)
-    const adjacentTiles = getAdjacentTiles(movedTile, tiles)
+    const adjacentTiles = getAdjacentTiles(movedTile, tiles, adjacency)
       .filter(t => !tilesToRemove.has(t.id));
     
     // Sort adjacent tiles by value in descending order (create copy to avoid mutation)
@@ -85,7 +83,7 @@ export function processTileRemoval(
         tilesToRemove.add(adjacentTile.id);
         
         // Add score for both tiles
-        scoreGained += movedTile.value + adjacentTile.value;
+        scoreGained += scoreElimination(rules, movedTile.value, adjacentTile.value);
         
         // Only process once per moved tile (one pair at a time)
         break;
@@ -105,7 +103,7 @@ export function processTileRemoval(
         });
         
         // Add score
-        scoreGained += adjacentTile.value;
+        scoreGained += scoreDivision(rules, adjacentTile.value);
         
         // Only process once per moved tile (one merge at a time)
         break;
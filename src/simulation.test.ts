@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { POLICIES, reportToCsv, runSimulation, simulateGame, simulateGames, summarizeGames } from './simulation';
+import type { GameSummary, SimulationOptions } from './simulation';
+import { applyMove, createInitialState } from './gameEngine';
+import type { GameParams } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 2, k: 3, p: 7 };
+
+const OPTIONS: SimulationOptions = { params: PARAMS, policy: 'random', games: 3, seed: 5, maxMoves: 40 };
+
+function summary(overrides: Partial<GameSummary>): GameSummary {
+  return {
+    seed: 1,
+    score: 0,
+    moveCount: 0,
+    maxChain: 0,
+    truncated: false,
+    chainLengths: [],
+    reactions: { divisions: 0, eliminations: 0, squareEliminations: 0, cubeEliminations: 0, higherPowerEliminations: 0, factorizations: 0, reductions: 0, specialTiles: 0 },
+    ...overrides,
+  };
+}
+
+describe('POLICIES', () => {
+  it('should only choose moves that change the board with the random policy', () => {
+    const state = createInitialState({ ...PARAMS, m: 6 }, 42);
+    let seed = 0;
+    const random = () => (seed = (seed + 0.37) % 1);
+
+    for (let i = 0; i < 10; i++) {
+      const move = POLICIES.random(state, PARAMS, random)!;
+      expect(applyMove(state, move.direction, move.tileId, PARAMS).moved).toBe(true);
+    }
+  });
+
+  it('should take the best immediate result with the lookahead policy', () => {
+    // 5 can be swiped into 15 along the top row, and 2 sits next to 14
+    const state = {
+      ...createInitialState(PARAMS, 1),
+      tiles: [
+        { id: 1, value: 15, row: 0, col: 0 },
+        { id: 2, value: 5, row: 0, col: 3 },
+        { id: 3, value: 2, row: 2, col: 1 },
+        { id: 4, value: 14, row: 3, col: 1 },
+        { id: 5, value: 7, row: 3, col: 3 },
+      ],
+      nextTileId: 100,
+    };
+
+    const move = POLICIES.lookahead(state, PARAMS, Math.random)!;
+
+    expect(applyMove(state, move.direction, move.tileId, PARAMS).state.score).toBe(29);
+  });
+});
+
+describe('simulateGame', () => {
+  it('should be reproducible from the seed', () => {
+    expect(simulateGame(PARAMS, 9, POLICIES.random, 50)).toEqual(simulateGame(PARAMS, 9, POLICIES.random, 50));
+  });
+
+  it('should stop at maxMoves and mark the game as truncated', () => {
+    const game = simulateGame(PARAMS, 9, POLICIES.greedy, 15);
+
+    expect(game.moveCount).toBe(15);
+    expect(game.truncated).toBe(true);
+    expect(game.chainLengths).toHaveLength(15);
+    expect(Math.max(...game.chainLengths)).toBe(game.maxChain);
+  });
+
+  it('should count the reactions that scored', () => {
+    const game = simulateGame(PARAMS, 3, POLICIES.greedy, 30);
+    const { divisions, eliminations, squareEliminations, cubeEliminations, higherPowerEliminations } = game.reactions;
+
+    expect(game.score).toBeGreaterThan(0);
+    expect(divisions + eliminations + squareEliminations + cubeEliminations + higherPowerEliminations).toBeGreaterThan(0);
+  });
+});
+
+describe('summarizeGames', () => {
+  it('should compute distributions and histograms', () => {
+    const report = summarizeGames(OPTIONS, [
+      summary({ score: 10, moveCount: 5, chainLengths: [0, 1, 0] }),
+      summary({ score: 30, moveCount: 12, chainLengths: [2] }),
+      summary({ score: 20, moveCount: 8, reactions: { ...summary({}).reactions, factorizations: 2 } }),
+    ]);
+
+    expect(report.score).toEqual({ mean: 20, min: 10, median: 20, max: 30 });
+    expect(report.gameLength!.histogram).toEqual({ '0-9': 2, '10-19': 1 });
+    expect(report.chainLengths).toEqual({ '0': 2, '1': 1, '2': 1 });
+    expect(report.finishedGames).toBe(3);
+    expect(report.reactions.factorizations).toEqual({ total: 2, perMove: 2 / 25, perGame: 2 / 3, gamesWithAny: 1 });
+  });
+
+  it('should report truncated games apart from finished ones', () => {
+    const report = summarizeGames(OPTIONS, [
+      summary({ score: 10, moveCount: 5 }),
+      summary({ score: 900, moveCount: 40, chainLengths: [3], truncated: true }),
+    ]);
+
+    expect(report.finishedGames).toBe(1);
+    expect(report.truncatedGames).toBe(1);
+    expect(report.score).toEqual({ mean: 10, min: 10, median: 10, max: 10 });
+    expect(report.gameLength!.histogram).toEqual({ '0-9': 1 });
+    expect(report.truncatedScore).toEqual({ mean: 900, min: 900, median: 900, max: 900 });
+    expect(report.overallScore).toEqual({ mean: 455, min: 10, median: 455, max: 900 });
+    expect(report.truncatedShare).toBe(0.5);
+    expect(report.scorePerMove).toBe(910 / 45);
+    expect(report.chainLengths).toEqual({ '3': 1 });
+  });
+
+  it('should report no finished statistics when every game was truncated', () => {
+    const report = summarizeGames(OPTIONS, [
+      summary({ score: 300, moveCount: 40, truncated: true }),
+      summary({ score: 500, moveCount: 40, truncated: true }),
+    ]);
+
+    expect(report.finishedGames).toBe(0);
+    expect(report.score).toBeNull();
+    expect(report.gameLength).toBeNull();
+    expect(report.overallScore).toEqual({ mean: 400, min: 300, median: 400, max: 500 });
+    expect(report.truncatedShare).toBe(1);
+    expect(report.scorePerMove).toBe(10);
+    expect(reportToCsv(report)).not.toMatch(/^(score|gameLength),/m);
+  });
+});
+
+describe('runSimulation', () => {
+  it('should play every game and report progress', () => {
+    const progress: number[] = [];
+    const report = runSimulation(OPTIONS, finished => progress.push(finished));
+
+    expect(report.games).toBe(3);
+    expect(progress).toEqual([1, 2, 3]);
+    expect(Object.values(report.gameLength?.histogram ?? {}).reduce((a, b) => a + b, 0)).toBe(report.finishedGames);
+    expect(report.finishedGames + report.truncatedGames).toBe(3);
+  });
+
+  it('should give the same games when they are played in shares', () => {
+    const shares = [...simulateGames(OPTIONS, 0, 2), ...simulateGames(OPTIONS, 2, 1)];
+
+    expect(summarizeGames(OPTIONS, shares)).toEqual(runSimulation(OPTIONS));
+  });
+});
+
+describe('reportToCsv', () => {
+  it('should flatten the report into section,key,value rows', () => {
+    const csv = reportToCsv(runSimulation(OPTIONS)).trim().split('\n');
+
+    expect(csv[0]).toBe('section,key,value');
+    expect(csv).toContain('params,p,7');
+    expect(csv).toContain('run,policy,random');
+    expect(csv.every(row => row.split(',').length === 3)).toBe(true);
+  });
+});
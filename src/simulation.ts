@@ -0,0 +1,315 @@
+/**
+ * Batch Simulation - Play many headless games to measure the balance of GameParams
+ *
+ * Games are driven by a pluggable policy and summarized into a report with
+ * score and game length statistics, a chain length histogram and how often
+ * each kind of reaction triggers. Every game is seeded, so a report can be
+ * reproduced exactly from its options.
+ *
+ * With single-tile swipes many parameter sets hardly ever end, so a game
+ * still running after maxMoves is stopped. The score and game length of those
+ * truncated games only reflect the cap, so they are reported on their own and
+ * never mixed into the statistics of finished games. The score over all games
+ * comes with the share that was truncated, and the score and reactions per
+ * move do not depend on the cap at all. A statistic with no games to cover is
+ * null rather than zero.
+ */
+
+import type { GameState, GameParams } from './types';
+import { applyMove, createInitialState, listMoves } from './gameEngine';
+import type { MoveEvent, PlayerMove } from './gameEngine';
+import type { PowerType, RandomSource } from './gameLogic';
+import { findBestMove } from './hints';
+import { chooseMove, DEFAULT_AI_OPTIONS } from './ai';
+import { createSeededRandom } from './random';
+import { DEFAULT_SCORING } from './scoring';
+
+export type Policy = (state: GameState, params: GameParams, random: RandomSource) => PlayerMove | null;
+
+export type PolicyName = 'random' | 'greedy' | 'lookahead';
+
+// Spawns the lookahead policy averages over after a move that spawns a tile
+export const LOOKAHEAD_SPAWN_SAMPLES = 4;
+
+export const POLICIES: Record<PolicyName, Policy> = {
+  // Any move that changes the board, uniformly: the first in a random order
+  // that moves is as likely as any other, without trying every move
+  random: (state, params, random) => {
+    const moves = listMoves(state, params);
+    for (let i = 0; i < moves.length; i++) {
+      const j = i + Math.floor(random() * (moves.length - i));
+      [moves[i], moves[j]] = [moves[j], moves[i]];
+      if (applyMove(state, moves[i].direction, moves[i].tileId, params, random).moved) return moves[i];
+    }
+    return null;
+  },
+  // The move with the best immediate score
+  greedy: (state, params) => findBestMove(state, params, 'score'),
+  // One ply: the move whose immediate result (evaluatePosition) is best on
+  // average over sampled spawns
+  lookahead: (state, params) => chooseMove(state, params, {
+    ...DEFAULT_AI_OPTIONS,
+    strategy: 'expectimax',
+    depth: 1,
+    spawnSamples: LOOKAHEAD_SPAWN_SAMPLES,
+  }),
+};
+
+export interface SimulationOptions {
+  params: GameParams;
+  policy: PolicyName;
+  games: number;
+  seed: number; // Game i is played with seed + i
+  maxMoves: number; // Games still running after this many moves are stopped and counted as truncated
+}
+
+export interface ReactionCounts {
+  divisions: number;
+  eliminations: number; // Equal-value eliminations that are not perfect powers
+  squareEliminations: number;
+  cubeEliminations: number;
+  higherPowerEliminations: number; // Perfect powers with an exponent of 4 or more (16, 32, 64, ...)
+  factorizations: number; // Multi-tile factorizations
+  reductions: number; // GCD reductions (gcd merge rule)
+  specialTiles: number; // Wildcard, bomb and GCD tiles that acted
+}
+
+export interface GameSummary {
+  seed: number;
+  score: number;
+  moveCount: number;
+  maxChain: number;
+  truncated: boolean;
+  chainLengths: number[]; // Chain length of every move (0 when no chain)
+  reactions: ReactionCounts;
+}
+
+export interface Distribution {
+  mean: number;
+  min: number;
+  median: number;
+  max: number;
+}
+
+export interface SimulationReport {
+  params: GameParams;
+  policy: PolicyName;
+  games: number;
+  seed: number;
+  maxMoves: number;
+  finishedGames: number;
+  truncatedGames: number;
+  truncatedShare: number; // Fraction of the games that were truncated
+  overallScore: Distribution | null; // Every game, truncated ones at the score they were stopped with
+  scorePerMove: number; // Over every move of every game
+  score: Distribution | null; // Finished games only
+  gameLength: (Distribution & { histogram: Record<string, number> }) | null; // Finished games only, per bucket of GAME_LENGTH_BUCKET moves
+  truncatedScore: Distribution | null; // Score of the truncated games when they were stopped
+  chainLengths: Record<string, number>; // Moves per chain length, in every game
+  reactions: Record<keyof ReactionCounts, { total: number; perMove: number; perGame: number; gamesWithAny: number }>;
+}
+
+export const GAME_LENGTH_BUCKET = 10;
+
+function emptyReactionCounts(): ReactionCounts {
+  return { divisions: 0, eliminations: 0, squareEliminations: 0, cubeEliminations: 0, higherPowerEliminations: 0, factorizations: 0, reductions: 0, specialTiles: 0 };
+}
+
+function countElimination(counts: ReactionCounts, powerType: PowerType | null) {
+  if (powerType === null) counts.eliminations++;
+  else if (powerType === 2) counts.squareEliminations++;
+  else if (powerType === 3) counts.cubeEliminations++;
+  else counts.higherPowerEliminations++;
+}
+
+// Tally the reactions of one move, from slide collisions and every chain step
+function countReactions(counts: ReactionCounts, events: MoveEvent[]) {
+  for (const event of events) {
+    if (event.type === 'merge') {
+      counts.divisions++;
+    } else if (event.type === 'reduce') {
+      counts.reductions++;
+    } else if (event.type === 'eliminate') {
+      countElimination(counts, event.powerType);
+    } else if (event.type === 'chain') {
+      for (const reaction of event.reactions) {
+        if (reaction.type === 'factorization') counts.factorizations++;
+        else if (reaction.type === 'division') counts.divisions++;
+        else if (reaction.type === 'reduction') counts.reductions++;
+        else if (reaction.type !== 'elimination') counts.specialTiles++;
+        else countElimination(counts, reaction.powerType);
+      }
+    }
+  }
+}
+
+/**
+ * Play one game to the end (or maxMoves) with the given policy
+ */
+export function simulateGame(params: GameParams, seed: number, policy: Policy, maxMoves: number): GameSummary {
+  // The policy gets its own generator so it never disturbs the game's spawns
+  const { random } = createSeededRandom((seed ^ 0x5bd1e995) >>> 0);
+  const reactions = emptyReactionCounts();
+  const chainLengths: number[] = [];
+  // No move log: nothing is replayed, and copying it every move would slow long games down
+  let state: GameState = { ...createInitialState(params, seed), moves: null };
+
+  while (!state.isGameOver && state.moveCount < maxMoves) {
+    const move = policy(state, params, random);
+    if (!move) break;
+
+    const result = applyMove(state, move.direction, move.tileId, params);
+    if (!result.moved) break; // A policy that suggests a dead move would loop forever
+
+    chainLengths.push(result.events.filter(e => e.type === 'chain').length);
+    countReactions(reactions, result.events);
+    state = result.state;
+  }
+
+  return {
+    seed,
+    score: state.score,
+    moveCount: state.moveCount,
+    maxChain: state.maxChain,
+    truncated: !state.isGameOver,
+    chainLengths,
+    reactions,
+  };
+}
+
+function distribution(values: number[]): Distribution | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    min: sorted[0],
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function increment(histogram: Record<string, number>, key: string) {
+  histogram[key] = (histogram[key] ?? 0) + 1;
+}
+
+// Order histogram keys by the number they start with
+function sortHistogram(histogram: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(histogram).sort(([a], [b]) => parseInt(a) - parseInt(b)));
+}
+
+/**
+ * Summarize finished games into a report
+ */
+export function summarizeGames(options: SimulationOptions, summaries: GameSummary[]): SimulationReport {
+  const finished = summaries.filter(g => !g.truncated);
+  const truncated = summaries.filter(g => g.truncated);
+  const lengthHistogram: Record<string, number> = {};
+  const chainLengths: Record<string, number> = {};
+  for (const game of finished) {
+    const bucket = Math.floor(game.moveCount / GAME_LENGTH_BUCKET) * GAME_LENGTH_BUCKET;
+    increment(lengthHistogram, `${bucket}-${bucket + GAME_LENGTH_BUCKET - 1}`);
+  }
+  for (const game of summaries) {
+    for (const length of game.chainLengths) increment(chainLengths, String(length));
+  }
+  const moves = summaries.reduce((sum, g) => sum + g.moveCount, 0);
+  const gameLength = distribution(finished.map(g => g.moveCount));
+
+  const keys = Object.keys(emptyReactionCounts()) as Array<keyof ReactionCounts>;
+  const reactions = Object.fromEntries(keys.map(key => {
+    const total = summaries.reduce((sum, g) => sum + g.reactions[key], 0);
+    return [key, {
+      total,
+      perMove: moves > 0 ? total / moves : 0,
+      perGame: summaries.length > 0 ? total / summaries.length : 0,
+      gamesWithAny: summaries.filter(g => g.reactions[key] > 0).length,
+    }];
+  })) as SimulationReport['reactions'];
+
+  return {
+    params: options.params,
+    policy: options.policy,
+    games: summaries.length,
+    seed: options.seed,
+    maxMoves: options.maxMoves,
+    finishedGames: finished.length,
+    truncatedGames: truncated.length,
+    truncatedShare: summaries.length > 0 ? truncated.length / summaries.length : 0,
+    overallScore: distribution(summaries.map(g => g.score)),
+    scorePerMove: moves > 0 ? summaries.reduce((sum, g) => sum + g.score, 0) / moves : 0,
+    score: distribution(finished.map(g => g.score)),
+    gameLength: gameLength && { ...gameLength, histogram: sortHistogram(lengthHistogram) },
+    truncatedScore: distribution(truncated.map(g => g.score)),
+    chainLengths: sortHistogram(chainLengths),
+    reactions,
+  };
+}
+
+/**
+ * Play games first to first + count - 1 of a simulation, e.g. one worker's share
+ * onProgress is called after each game with the number of games finished
+ */
+export function simulateGames(
+  options: SimulationOptions,
+  first: number,
+  count: number,
+  onProgress?: (finished: number) => void
+): GameSummary[] {
+  const policy = POLICIES[options.policy];
+  const summaries: GameSummary[] = [];
+  for (let i = first; i < first + count; i++) {
+    summaries.push(simulateGame(options.params, (options.seed + i) >>> 0, policy, options.maxMoves));
+    onProgress?.(summaries.length);
+  }
+  return summaries;
+}
+
+/**
+ * Play options.games games and report on them
+ * onProgress is called after each game with the number of games finished
+ */
+export function runSimulation(
+  options: SimulationOptions,
+  onProgress?: (finished: number) => void
+): SimulationReport {
+  return summarizeGames(options, simulateGames(options, 0, options.games, onProgress));
+}
+
+/**
+ * Flatten a report into CSV rows of section,key,value
+ */
+export function reportToCsv(report: SimulationReport): string {
+  const rows: Array<[string, string, number | string]> = [
+    ['params', 'n', report.params.n],
+    ['params', 'm', report.params.m],
+    ['params', 'k', report.params.k],
+    ['params', 'p', report.params.p],
+    ['params', 'scoring', report.params.scoring ?? DEFAULT_SCORING],
+    ['run', 'policy', report.policy],
+    ['run', 'games', report.games],
+    ['run', 'seed', report.seed],
+    ['run', 'maxMoves', report.maxMoves],
+    ['run', 'finishedGames', report.finishedGames],
+    ['run', 'truncatedGames', report.truncatedGames],
+    ['run', 'truncatedShare', report.truncatedShare],
+    ['run', 'scorePerMove', report.scorePerMove],
+  ];
+  // A statistic with no games has no rows
+  for (const [key, value] of Object.entries(report.overallScore ?? {})) rows.push(['overallScore', key, value]);
+  for (const [key, value] of Object.entries(report.score ?? {})) rows.push(['score', key, value]);
+  for (const [key, value] of Object.entries(report.truncatedScore ?? {})) rows.push(['truncatedScore', key, value]);
+  for (const [key, value] of Object.entries(report.gameLength ?? {})) {
+    if (typeof value === 'number') rows.push(['gameLength', key, value]);
+  }
+  for (const [key, value] of Object.entries(report.gameLength?.histogram ?? {})) rows.push(['gameLengthHistogram', key, value]);
+  for (const [key, value] of Object.entries(report.chainLengths)) rows.push(['chainLengthHistogram', key, value]);
+  for (const [key, value] of Object.entries(report.reactions)) {
+    rows.push([`reactions.${key}`, 'total', value.total]);
+    rows.push([`reactions.${key}`, 'perMove', value.perMove]);
+    rows.push([`reactions.${key}`, 'perGame', value.perGame]);
+    rows.push([`reactions.${key}`, 'gamesWithAny', value.gamesWithAny]);
+  }
+
+  return ['section,key,value', ...rows.map(row => row.join(','))].join('\n') + '\n';
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { solveBoard, hashBoard } from './solver';
+import { applyMove, createInitialState, DEFAULT_PARAMS } from './gameEngine';
+import type { PlayerMove } from './gameEngine';
+import type { Tile } from './types';
+import type { BoardParams } from './boardShape';
+import { parseLevelPack } from './puzzles';
+import levelPackData from './puzzleLevels.json';
+
+function replay(tiles: Tile[], board: BoardParams, moves: PlayerMove[]) {
+  const params = { ...DEFAULT_PARAMS, ...board, m: 0, k: 1 };
+  let state = { ...createInitialState(params, 0), tiles, nextTileId: tiles.length, spawnQueue: [] };
+  for (const move of moves) {
+    const result = applyMove(state, move.direction, move.tileId, params);
+    expect(result.moved).toBe(true);
+    state = { ...result.state, spawnQueue: [] };
+  }
+  return state;
+}
+
+describe('hashBoard', () => {
+  it('should ignore tile IDs and order', () => {
+    const a: Tile[] = [{ id: 1, value: 6, row: 0, col: 0 }, { id: 2, value: 3, row: 1, col: 2 }];
+    const b: Tile[] = [{ id: 7, value: 3, row: 1, col: 2 }, { id: 4, value: 6, row: 0, col: 0 }];
+
+    expect(hashBoard(a)).toBe(hashBoard(b));
+    expect(hashBoard(a)).not.toBe(hashBoard([{ id: 1, value: 6, row: 0, col: 1 }, a[1]]));
+  });
+});
+
+describe('solveBoard', () => {
+  const { pack } = parseLevelPack(levelPackData);
+  const clearLevels = pack!.levels.filter(l => l.goal.type === 'clear' && l.spawns.length === 0);
+
+  it('should solve an empty board with no moves', () => {
+    expect(solveBoard([], { n: 4 }, { maxDepth: 5 })).toEqual({ status: 'solved', moves: [], explored: 1 });
+  });
+
+  it.each(clearLevels.map(l => l.id))('should find a shortest solution of %s that replays to an empty board', (id) => {
+    const level = clearLevels.find(l => l.id === id)!;
+
+    const result = solveBoard(level.tiles, level.params, { maxDepth: 6 });
+
+    expect(result.status).toBe('solved');
+    if (result.status !== 'solved') return;
+    expect(result.moves).toHaveLength(level.stars[0]); // Three stars are set at the proven minimum
+    expect(replay(level.tiles, level.params, result.moves).tiles).toEqual([]);
+  });
+
+  it('should prove no shorter solution exists below the minimum depth', () => {
+    const level = clearLevels[0];
+    const minimum = level.stars[0];
+
+    const result = solveBoard(level.tiles, level.params, { maxDepth: minimum - 1 });
+
+    expect(result).toMatchObject({ status: 'unsolvable', depth: minimum - 1, exhaustive: false });
+  });
+
+  it('should prove a board can never be cleared once every position is searched', () => {
+    const result = solveBoard([{ id: 0, value: 7, row: 1, col: 1 }], { n: 3 }, { maxDepth: 20 });
+
+    expect(result).toMatchObject({ status: 'unsolvable', exhaustive: true });
+    if (result.status === 'unsolvable') expect(result.depth).toBeLessThan(20);
+  });
+
+  it('should stop at the state limit', () => {
+    const tiles: Tile[] = [
+      { id: 0, value: 7, row: 0, col: 0 },
+      { id: 1, value: 11, row: 2, col: 2 },
+    ];
+
+    const result = solveBoard(tiles, { n: 4 }, { maxDepth: 20, maxStates: 10 });
+
+    expect(result).toMatchObject({ status: 'limit', explored: 10 });
+  });
+
+  it('should search with the adjacency of the params', () => {
+    // Opposite corners of a 3×3 board meet in one diagonal slide on the hex grid
+    const tiles: Tile[] = [{ id: 0, value: 3, row: 0, col: 0 }, { id: 1, value: 3, row: 2, col: 2 }];
+
+    const square = solveBoard(tiles, { n: 3 }, { maxDepth: 4 });
+    const hex = solveBoard(tiles, { n: 3, adjacency: 'hex' }, { maxDepth: 4 });
+
+    expect(square.status === 'solved' && square.moves.length).toBe(2);
+    expect(hex.status === 'solved' && hex.moves.length).toBe(1);
+  });
+
+  it('should not change the tiles it was given', () => {
+    const tiles: Tile[] = [{ id: 0, value: 6, row: 0, col: 0 }, { id: 1, value: 3, row: 0, col: 2 }];
+    const copy = structuredClone(tiles);
+
+    solveBoard(tiles, { n: 3 }, { maxDepth: 4 });
+
+    expect(tiles).toEqual(copy);
+  });
+});
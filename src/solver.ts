@@ -0,0 +1,113 @@
+/**
+ * Board Solver - Fewest moves to clear a board, with spawns disabled
+ *
+ * A breadth-first search over whole-board slides and single-tile swipes.
+ * Every move is played with applyMove (and so with processChainReactions)
+ * under the given params, adjacency, merge rule and scoring included, so a
+ * solution always holds under the real rules. No tile is ever spawned: the
+ * search starts from an empty spawn queue.
+ *
+ * Boards are hashed by the values on their cells, so positions reached by
+ * different move orders (or with different tile IDs) are searched once.
+ * Because the search goes depth by depth, the first cleared board found is
+ * reached in the fewest moves, and exhausting a depth proves that no shorter
+ * solution exists.
+ */
+
+import type { Tile, GameState, GameParams } from './types';
+import { applyMove, createInitialState, listMoves, DEFAULT_PARAMS } from './gameEngine';
+import type { PlayerMove } from './gameEngine';
+import type { BoardParams } from './boardShape';
+
+// The board and the rules it is played by; parameters not given are the defaults
+// Spawn parameters (m, k, p, spawn, preview, ...) have no effect, since no tile is spawned
+export type SolverParams = BoardParams & Partial<GameParams>;
+
+export interface SolverOptions {
+  maxDepth: number; // Longest solution searched for
+  maxStates?: number; // Give up after storing this many boards (unlimited when undefined)
+}
+
+export type SolveResult =
+  // The fewest moves that empty the board; moves use the tile IDs of the boards along the way
+  | { status: 'solved'; moves: PlayerMove[]; explored: number }
+  // No solution within maxDepth moves; exhaustive when every reachable board was searched,
+  // which proves the board can never be cleared
+  | { status: 'unsolvable'; depth: number; exhaustive: boolean; explored: number }
+  // The state limit was hit; there is no solution within depth moves
+  | { status: 'limit'; depth: number; explored: number };
+
+interface Node {
+  state: GameState;
+  parent: Node | null;
+  move: PlayerMove | null;
+}
+
+/**
+ * Key of a board: the value (and special kind) on every occupied cell, ignoring tile IDs
+ */
+export function hashBoard(tiles: Tile[]): string {
+  return tiles
+    .filter(t => t.value !== 0)
+    .map(t => `${t.row},${t.col},${t.value}${t.kind ?? ''}`)
+    .sort()
+    .join(';');
+}
+
+function pathTo(node: Node): PlayerMove[] {
+  const moves: PlayerMove[] = [];
+  for (let current: Node | null = node; current?.move; current = current.parent) {
+    moves.unshift(current.move);
+  }
+  return moves;
+}
+
+/**
+ * Find the fewest moves that leave no tile on a board of the given size, walls and rules
+ */
+export function solveBoard(tiles: Tile[], rules: SolverParams, options: SolverOptions): SolveResult {
+  const params: GameParams = { ...DEFAULT_PARAMS, ...rules, m: 0, k: 1 };
+  const start: GameState = {
+    ...createInitialState(params, 0),
+    tiles: tiles.map(t => ({ id: t.id, value: t.value, row: t.row, col: t.col, ...(t.kind && { kind: t.kind }) })),
+    nextTileId: Math.max(0, ...tiles.map(t => t.id + 1)),
+    spawnQueue: [],
+  };
+
+  if (start.tiles.length === 0) return { status: 'solved', moves: [], explored: 1 };
+
+  const seen = new Set([hashBoard(start.tiles)]);
+  let frontier: Node[] = [{ state: start, parent: null, move: null }];
+
+  for (let depth = 1; depth <= options.maxDepth; depth++) {
+    const next: Node[] = [];
+
+    for (const node of frontier) {
+      for (const move of listMoves(node.state, params)) {
+        const result = applyMove(node.state, move.direction, move.tileId, params);
+        if (!result.moved) continue;
+
+        const child = { state: result.state, parent: node, move };
+        if (result.state.tiles.length === 0) {
+          return { status: 'solved', moves: pathTo(child), explored: seen.size };
+        }
+
+        const key = hashBoard(result.state.tiles);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        next.push(child);
+
+        if (options.maxStates !== undefined && seen.size >= options.maxStates) {
+          return { status: 'limit', depth: depth - 1, explored: seen.size };
+        }
+      }
+    }
+
+    if (next.length === 0) {
+      return { status: 'unsolvable', depth, exhaustive: true, explored: seen.size };
+    }
+    frontier = next;
+  }
+
+  return { status: 'unsolvable', depth: options.maxDepth, exhaustive: false, explored: seen.size };
+}
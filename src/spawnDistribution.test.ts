@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { generatePrimes, generateRandomTileValue, factorize } from './gameLogic';
+import { getSpawnDistribution, isSpawnPresetId, SPAWN_PRESET_IDS } from './spawnDistribution';
+import type { SpawnPresetId } from './spawnDistribution';
+import { createSeededRandom } from './random';
+
+const SAMPLES = 20000;
+const TOLERANCE = 0.02; // Several standard deviations at this sample size
+
+function draw(id: SpawnPresetId, maxPrime: number, boardValues: number[] = [], seed = 1): number[] {
+  const { random } = createSeededRandom(seed);
+  const distribution = getSpawnDistribution(id);
+  return Array.from({ length: SAMPLES }, () => generateRandomTileValue(maxPrime, random, distribution, boardValues));
+}
+
+// Share of the values for which the predicate holds
+function share(values: number[], predicate: (value: number) => boolean): number {
+  return values.filter(predicate).length / values.length;
+}
+
+// Number of prime factors counted with multiplicity
+function countFactors(value: number): number {
+  return [...factorize(value).values()].reduce((sum, exponent) => sum + exponent, 0);
+}
+
+describe('spawn presets', () => {
+  it('should default to uniform', () => {
+    expect(getSpawnDistribution().id).toBe('uniform');
+    expect(SPAWN_PRESET_IDS).toContain('boardAware');
+    expect(isSpawnPresetId('gentle')).toBe(true);
+    expect(isSpawnPresetId('hasOwnProperty')).toBe(false);
+  });
+
+  it('should keep the original rule and random numbers for the uniform preset', () => {
+    const primes = generatePrimes(19);
+    const original = createSeededRandom(5).random;
+    const expected = Array.from({ length: 1000 }, () => {
+      const count = Math.floor(original() * 3) + 1;
+      let value = 1;
+      for (let i = 0; i < count; i++) value *= primes[Math.floor(original() * primes.length)];
+      return value;
+    });
+
+    expect(draw('uniform', 19, [], 5).slice(0, 1000)).toEqual(expected);
+  });
+});
+
+describe('spawn distribution statistics', () => {
+  it('should pick 1-3 primes and every prime equally often with the uniform preset', () => {
+    const values = draw('uniform', 19);
+
+    for (const count of [1, 2, 3]) {
+      expect(Math.abs(share(values, v => countFactors(v) === count) - 1 / 3)).toBeLessThan(TOLERANCE);
+    }
+    // A product of primes is divisible by 19 unless every pick missed it
+    const expected = (1 - 7 / 8 + 1 - (7 / 8) ** 2 + 1 - (7 / 8) ** 3) / 3;
+    expect(Math.abs(share(values, v => v % 19 === 0) - expected)).toBeLessThan(TOLERANCE);
+    expect(Math.abs(share(values, v => v % 2 === 0) - expected)).toBeLessThan(TOLERANCE);
+  });
+
+  it('should pick small primes in inverse proportion to their size', () => {
+    const values = draw('smallPrimes', 19);
+    const primes = generatePrimes(19);
+    const total = primes.reduce((sum, prime) => sum + 1 / prime, 0);
+    const picks = new Map<number, number>();
+    for (const value of values) {
+      for (const [prime, exponent] of factorize(value)) picks.set(prime, (picks.get(prime) ?? 0) + exponent);
+    }
+    const allPicks = [...picks.values()].reduce((sum, count) => sum + count, 0);
+
+    for (const prime of primes) {
+      expect(Math.abs(picks.get(prime)! / allPicks - (1 / prime) / total)).toBeLessThan(TOLERANCE);
+    }
+    expect(picks.get(2)! / picks.get(19)!).toBeGreaterThan(8);
+  });
+
+  it('should never spawn above the cap of the gentle preset and favour few factors', () => {
+    const values = draw('gentle', 97);
+
+    expect(Math.max(...values)).toBeLessThanOrEqual(100);
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(2);
+    expect(share(values, v => countFactors(v) === 1)).toBeGreaterThan(0.45);
+  });
+
+  it('should favour primes already on the board with the board-aware preset', () => {
+    const board = [17 * 3, 17];
+    const values = draw('boardAware', 19, board);
+    // 17 and 3 are on the board: each has weight 4 against 1 for the other six primes
+    const miss = 10 / 14;
+    const expected = (1 - miss + 1 - miss ** 2 + 1 - miss ** 3) / 3;
+
+    expect(Math.abs(share(values, v => v % 17 === 0) - expected)).toBeLessThan(TOLERANCE);
+    expect(share(values, v => v % 17 === 0)).toBeGreaterThan(share(draw('uniform', 19, board), v => v % 17 === 0) + 0.1);
+  });
+
+  it('should not bias anything on an empty board', () => {
+    expect(draw('boardAware', 19)).toEqual(draw('uniform', 19));
+  });
+
+  it('should pick 1-4 factors weighted 1:2:2:1 with the dense preset', () => {
+    const values = draw('dense', 13);
+
+    [1, 2, 2, 1].forEach((weight, i) => {
+      expect(Math.abs(share(values, v => countFactors(v) === i + 1) - weight / 6)).toBeLessThan(TOLERANCE);
+    });
+  });
+});
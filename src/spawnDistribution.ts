@@ -0,0 +1,88 @@
+/**
+ * Spawn Distribution - Which values new tiles get
+ *
+ * A new tile is the product of a number of primes up to the max prime p.
+ * A distribution decides:
+ * - how likely each prime is (per-prime weights)
+ * - how likely each number of prime factors is
+ * - the largest value a tile may spawn with (a prime that would pass it is left out)
+ * - an optional board-aware bias: primes that divide a tile already on the
+ *   board get their weight multiplied by 1 + boardBias, so new tiles tend to
+ *   share factors with the board
+ *
+ * The uniform preset is the original rule (1-3 primes, all equally likely) and
+ * draws the same random numbers, so seeded games, replays and daily
+ * challenges are unchanged.
+ */
+
+export type SpawnPresetId = 'uniform' | 'smallPrimes' | 'gentle' | 'boardAware' | 'dense';
+
+export interface SpawnDistribution {
+  id: SpawnPresetId;
+  label: string;
+  description: string;
+  primeWeight: (prime: number) => number; // Relative chance of each prime
+  factorCountWeights: number[]; // Relative chance of 1, 2, 3, ... prime factors
+  maxValue: number | null; // Largest spawned value, or null for no cap
+  boardBias: number; // Extra weight of a prime already on the board (0 for none)
+}
+
+export const DEFAULT_SPAWN: SpawnPresetId = 'uniform';
+
+export const SPAWN_PRESETS: Record<SpawnPresetId, SpawnDistribution> = {
+  uniform: {
+    id: 'uniform',
+    label: '均等',
+    description: 'p以下の素数を1～3個、どれも同じ確率で掛ける',
+    primeWeight: () => 1,
+    factorCountWeights: [1, 1, 1],
+    maxValue: null,
+    boardBias: 0,
+  },
+  smallPrimes: {
+    id: 'smallPrimes',
+    label: '小さい素数寄り',
+    description: '素数の出やすさは素数に反比例（2は19の9.5倍）',
+    primeWeight: prime => 1 / prime,
+    factorCountWeights: [1, 1, 1],
+    maxValue: null,
+    boardBias: 0,
+  },
+  gentle: {
+    id: 'gentle',
+    label: 'やさしい',
+    description: '小さい素数寄りで素因数は少なめ、値は100まで、盤面にある素数が2倍出やすい',
+    primeWeight: prime => 1 / prime,
+    factorCountWeights: [3, 2, 1],
+    maxValue: 100,
+    boardBias: 1,
+  },
+  boardAware: {
+    id: 'boardAware',
+    label: '盤面連動',
+    description: '均等に加えて、盤面のタイルを割り切る素数が4倍出やすい',
+    primeWeight: () => 1,
+    factorCountWeights: [1, 1, 1],
+    maxValue: null,
+    boardBias: 3,
+  },
+  dense: {
+    id: 'dense',
+    label: '素因数多め',
+    description: '素因数は1～4個で2～3個が多い',
+    primeWeight: () => 1,
+    factorCountWeights: [1, 2, 2, 1],
+    maxValue: null,
+    boardBias: 0,
+  },
+};
+
+export const SPAWN_PRESET_IDS = Object.keys(SPAWN_PRESETS) as SpawnPresetId[];
+
+export function isSpawnPresetId(value: unknown): value is SpawnPresetId {
+  return typeof value === 'string' && Object.hasOwn(SPAWN_PRESETS, value);
+}
+
+export function getSpawnDistribution(id: SpawnPresetId = DEFAULT_SPAWN): SpawnDistribution {
+  return SPAWN_PRESETS[id];
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { isActionTile, isTileKind, rollTileKind, SPECIAL_TILES, TILE_KINDS } from './specialTiles';
+import { createSeededRandom } from './random';
+
+const SAMPLES = 20000;
+const TOLERANCE = 0.01; // Several standard deviations at this sample size
+
+describe('special tile kinds', () => {
+  it('should recognise the kinds', () => {
+    expect(TILE_KINDS).toEqual(['wildcard', 'bomb', 'locked', 'gcd']);
+    expect(isTileKind('bomb')).toBe(true);
+    expect(isTileKind('hasOwnProperty')).toBe(false);
+    expect(isTileKind(undefined)).toBe(false);
+  });
+
+  it('should treat every kind but locked as acting by its own rule', () => {
+    expect(TILE_KINDS.filter(kind => isActionTile({ kind }))).toEqual(['wildcard', 'bomb', 'gcd']);
+    expect(isActionTile({})).toBe(false);
+  });
+});
+
+describe('rollTileKind', () => {
+  it('should give each kind its own spawn rate', () => {
+    const { random } = createSeededRandom(7);
+    const rolls = Array.from({ length: SAMPLES }, () => rollTileKind(random));
+
+    for (const kind of TILE_KINDS) {
+      const share = rolls.filter(k => k === kind).length / SAMPLES;
+      expect(Math.abs(share - SPECIAL_TILES[kind].spawnRate)).toBeLessThan(TOLERANCE);
+    }
+    const normal = rolls.filter(k => k === undefined).length / SAMPLES;
+    const total = TILE_KINDS.reduce((sum, kind) => sum + SPECIAL_TILES[kind].spawnRate, 0);
+    expect(Math.abs(normal - (1 - total))).toBeLessThan(TOLERANCE);
+  });
+
+  it('should draw exactly one random number', () => {
+    let draws = 0;
+    rollTileKind(() => {
+      draws++;
+      return 0.5;
+    });
+
+    expect(draws).toBe(1);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Special Tiles - Tiles with a kind that changes how they react
+ *
+ * - wildcard (★): divides the largest neighbour by its largest prime factor,
+ *   then vanishes
+ * - bomb: strips the largest prime factor from every neighbour at once, then
+ *   vanishes
+ * - locked: an ordinary value that cannot slide; it stays where it is until a
+ *   neighbour merges with it, and the merged tile is a normal tile
+ * - gcd: divides every neighbour by the factor it shares with the GCD tile's
+ *   value, then vanishes
+ *
+ * Wildcard, bomb and GCD tiles never merge in slide collisions (they stop like
+ * any tile that cannot merge); they act in chain reactions as soon as a tile
+ * they can reduce is next to them. Wildcards and bombs have the value 1.
+ *
+ * With the specials parameter set, each random spawn becomes special with the
+ * kind's own spawn rate; one extra random number is drawn per spawn, so games
+ * without special tiles are unchanged.
+ */
+
+import type { RandomSource } from './gameLogic';
+
+export type TileKind = 'wildcard' | 'bomb' | 'locked' | 'gcd';
+
+// Kinds that act on their neighbours instead of merging
+export type ActionTileKind = Exclude<TileKind, 'locked'>;
+
+export interface SpecialTile {
+  kind: TileKind;
+  label: string;
+  description: string;
+  symbol: string; // Drawn instead of the value, or as a badge when showsValue is set
+  showsValue: boolean; // The tile keeps its spawned value and shows it
+  spawnRate: number; // Chance that a random spawn is of this kind
+}
+
+export const SPECIAL_TILES: Record<TileKind, SpecialTile> = {
+  wildcard: {
+    kind: 'wildcard',
+    label: 'ワイルドカード',
+    description: '隣の一番大きいタイルを最大の素因数で割って消える',
+    symbol: '★',
+    showsValue: false,
+    spawnRate: 0.03,
+  },
+  bomb: {
+    kind: 'bomb',
+    label: '素数爆弾',
+    description: '隣のすべてのタイルから最大の素因数を1つずつ取り除いて消える',
+    symbol: '💣',
+    showsValue: false,
+    spawnRate: 0.02,
+  },
+  locked: {
+    kind: 'locked',
+    label: 'ロック',
+    description: '動かせない。隣のタイルと合体すると普通のタイルになる',
+    symbol: '🔒',
+    showsValue: true,
+    spawnRate: 0.05,
+  },
+  gcd: {
+    kind: 'gcd',
+    label: 'GCD',
+    description: '隣のタイルを自分の値との最大公約数で割って消える',
+    symbol: 'gcd',
+    showsValue: true,
+    spawnRate: 0.03,
+  },
+};
+
+export const TILE_KINDS = Object.keys(SPECIAL_TILES) as TileKind[];
+
+export function isTileKind(value: unknown): value is TileKind {
+  return typeof value === 'string' && Object.hasOwn(SPECIAL_TILES, value);
+}
+
+/**
+ * Whether a tile acts on its neighbours by its own rule instead of merging
+ * (wildcard, bomb and GCD tiles)
+ */
+export function isActionTile<T extends { kind?: TileKind }>(tile: T): tile is T & { kind: ActionTileKind } {
+  return tile.kind !== undefined && tile.kind !== 'locked';
+}
+
+/**
+ * Decide with one random number whether a spawn is special, and of which kind
+ */
+export function rollTileKind(random: RandomSource): TileKind | undefined {
+  let roll = random();
+  for (const kind of TILE_KINDS) {
+    roll -= SPECIAL_TILES[kind].spawnRate;
+    if (roll < 0) return kind;
+  }
+  return undefined;
+}
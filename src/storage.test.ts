@@ -0,0 +1,303 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseSave, serializeGame, saveGame, loadGame, SAVE_KEY, SAVE_VERSION } from './storage';
+import type { KeyValueStorage } from './storage';
+import { applyMove, createInitialState, MAX_RECORDED_MOVES } from './gameEngine';
+import type { GameParams } from './types';
+
+const PARAMS: GameParams = { n: 4, m: 3, k: 3, p: 7 };
+
+function memoryStorage(initial: Record<string, string> = {}): KeyValueStorage & { data: Map<string, string> } {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: (key) => { data.delete(key); },
+  };
+}
+
+describe('save round trip', () => {
+  it('should restore the exact game after a few moves', () => {
+    let state = createInitialState(PARAMS, 175);
+    for (const direction of ['left', 'up', 'right'] as const) {
+      state = applyMove(state, direction, undefined, PARAMS).state;
+    }
+    const storage = memoryStorage();
+
+    saveGame(PARAMS, state, storage);
+    const loaded = loadGame(storage);
+
+    expect(loaded).not.toBeNull();
+    expect(loaded!.params).toEqual(PARAMS);
+    expect(loaded!.state).toEqual(state);
+  });
+
+  it('should continue with the same spawns after restoring', () => {
+    const state = createInitialState(PARAMS, 5);
+    const loaded = parseSave(serializeGame(PARAMS, state))!;
+
+    const original = applyMove(state, 'right', undefined, PARAMS);
+    const restored = applyMove(loaded.state, 'right', undefined, loaded.params);
+
+    expect(restored.state).toEqual(original.state);
+  });
+
+  it('should keep the undo limit with the params', () => {
+    const params = { ...PARAMS, undoLimit: 3 };
+    const loaded = parseSave(serializeGame(params, createInitialState(params, 1)));
+
+    expect(loaded!.params.undoLimit).toBe(3);
+  });
+
+  it('should keep the board shape with the params', () => {
+    const params: GameParams = { ...PARAMS, n: 5, width: 5, height: 3, blocked: [{ row: 1, col: 2 }] };
+    const state = createInitialState(params, 9);
+
+    const loaded = parseSave(serializeGame(params, state))!;
+
+    expect(loaded.params).toEqual(params);
+    expect(loaded.state).toEqual(state);
+  });
+
+  it('should keep the adjacency with the params', () => {
+    const params: GameParams = { ...PARAMS, adjacency: 'diagonal' };
+
+    expect(parseSave(serializeGame(params, createInitialState(params, 1)))!.params.adjacency).toBe('diagonal');
+    expect(parseSave(serializeGame({ ...PARAMS, adjacency: 'square' as never }, createInitialState(PARAMS, 1)))).toBeNull();
+  });
+
+  it('should keep the preview queue and the hold slot', () => {
+    const params: GameParams = { ...PARAMS, preview: 2, holdInterval: 4 };
+    const state = { ...createInitialState(params, 3), held: 15, holdMove: 0 };
+
+    const loaded = parseSave(serializeGame(params, state))!;
+
+    expect(loaded.params).toEqual(params);
+    expect(loaded.state).toEqual(state);
+  });
+
+  it('should reject a queue of the wrong length and a hold slot without a preview', () => {
+    const params: GameParams = { ...PARAMS, preview: 2 };
+    const state = createInitialState(params, 3);
+
+    expect(parseSave(serializeGame(params, { ...state, upcoming: [6] }))).toBeNull();
+    expect(parseSave(serializeGame(params, { ...state, held: 6 }))).toBeNull();
+    expect(parseSave(serializeGame({ ...PARAMS, holdInterval: 4 }, createInitialState(PARAMS, 3)))).toBeNull();
+  });
+
+  it('should keep special tiles and their setting', () => {
+    const params: GameParams = { ...PARAMS, specials: true };
+    const state = {
+      ...createInitialState(params, 3),
+      tiles: [{ id: 0, value: 1, row: 0, col: 0, kind: 'wildcard' as const }, { id: 1, value: 15, row: 1, col: 1, kind: 'locked' as const }],
+    };
+
+    const loaded = parseSave(serializeGame(params, state))!;
+
+    expect(loaded.params).toEqual(params);
+    expect(loaded.state.tiles).toEqual(state.tiles);
+    expect(parseSave(serializeGame({ ...params, specials: 'yes' as unknown as boolean }, state))).toBeNull();
+  });
+
+  it('should keep the merge rule and reject unknown ones', () => {
+    const params: GameParams = { ...PARAMS, mergeRule: 'gcd' };
+    const state = createInitialState(params, 3);
+
+    expect(parseSave(serializeGame(params, state))!.params).toEqual(params);
+    expect(parseSave(serializeGame({ ...params, mergeRule: 'lcm' as GameParams['mergeRule'] }, state))).toBeNull();
+  });
+
+  it('should keep the game mode and the clock', () => {
+    const params: GameParams = { ...PARAMS, mode: { type: 'timeAttack', seconds: 120 } };
+    const state = { ...createInitialState(params, 1), elapsedMs: 4200 };
+
+    const loaded = parseSave(serializeGame(params, state))!;
+
+    expect(loaded.params.mode).toEqual({ type: 'timeAttack', seconds: 120 });
+    expect(loaded.state.elapsedMs).toBe(4200);
+  });
+
+  it('should keep whether the result was recorded', () => {
+    const state = createInitialState(PARAMS, 1);
+
+    expect(parseSave(serializeGame(PARAMS, { ...state, recorded: true }))!.state.recorded).toBe(true);
+    expect(parseSave(serializeGame(PARAMS, state))!.state.recorded).toBeUndefined();
+  });
+
+  it('should keep the day of a daily challenge', () => {
+    const state = { ...createInitialState(PARAMS, 1), daily: '2026-10-19' };
+
+    expect(parseSave(serializeGame(PARAMS, state))!.state.daily).toBe('2026-10-19');
+  });
+
+  it('should not save animation flags', () => {
+    const state = createInitialState(PARAMS, 1);
+    state.tiles[0] = { ...state.tiles[0], isNew: true, mergeHighlight: true };
+
+    const saved = JSON.parse(serializeGame(PARAMS, state));
+
+    expect(Object.keys(saved.state.tiles[0]).sort()).toEqual(['col', 'id', 'row', 'value']);
+  });
+});
+
+describe('parseSave', () => {
+  const valid = () => JSON.parse(serializeGame(PARAMS, createInitialState(PARAMS, 9)));
+
+  it('should return null for missing or non-JSON data', () => {
+    expect(parseSave(null)).toBeNull();
+    expect(parseSave('not json')).toBeNull();
+    expect(parseSave('[]')).toBeNull();
+  });
+
+  it('should reject saves from an unknown newer version', () => {
+    expect(parseSave(JSON.stringify({ ...valid(), version: SAVE_VERSION + 1 }))).toBeNull();
+  });
+
+  it('should reject saves without a version', () => {
+    const data = valid();
+    delete data.version;
+    expect(parseSave(JSON.stringify(data))).toBeNull();
+  });
+
+  it('should reject tiles outside the board', () => {
+    const data = valid();
+    data.state.tiles[0].row = PARAMS.n;
+    expect(parseSave(JSON.stringify(data))).toBeNull();
+  });
+
+  it('should reject tiles on a wall and walls outside the board', () => {
+    const onWall = valid();
+    onWall.params = { ...PARAMS, blocked: [{ row: onWall.state.tiles[0].row, col: onWall.state.tiles[0].col }] };
+    expect(parseSave(JSON.stringify(onWall))).toBeNull();
+
+    const outside = valid();
+    outside.params = { ...PARAMS, n: 5, width: 5, height: 3, blocked: [{ row: 3, col: 0 }] };
+    expect(parseSave(JSON.stringify(outside))).toBeNull();
+  });
+
+  it('should reject two tiles on the same cell', () => {
+    const data = valid();
+    data.state.tiles[1].row = data.state.tiles[0].row;
+    data.state.tiles[1].col = data.state.tiles[0].col;
+    expect(parseSave(JSON.stringify(data))).toBeNull();
+  });
+
+  it('should reject tile IDs that the next tile would reuse', () => {
+    const data = valid();
+    data.state.nextTileId = 0;
+    expect(parseSave(JSON.stringify(data))).toBeNull();
+  });
+
+  it('should reject invalid numbers', () => {
+    const data = valid();
+    data.state.score = -1;
+    expect(parseSave(JSON.stringify(data))).toBeNull();
+
+    const badParams = valid();
+    badParams.params.k = 0;
+    expect(parseSave(JSON.stringify(badParams))).toBeNull();
+  });
+
+  it('should reject a malformed move log', () => {
+    const data = valid();
+    data.state.moves = [['sideways']];
+    expect(parseSave(JSON.stringify(data))).toBeNull();
+  });
+
+  it('should keep a game whose move log is too long, but not its log', () => {
+    const data = valid();
+    data.state.moves = Array.from({ length: MAX_RECORDED_MOVES + 1 }, () => ['left']);
+
+    expect(parseSave(JSON.stringify(data))!.state.moves).toBeNull();
+  });
+
+  it('should reject an unknown game mode', () => {
+    const data = valid();
+    data.params.mode = { type: 'moves', limit: 0 };
+    expect(parseSave(JSON.stringify(data))).toBeNull();
+  });
+
+  it('should migrate a version 5 save without a clock', () => {
+    const data = valid();
+    delete data.state.elapsedMs;
+    data.version = 5;
+
+    expect(parseSave(JSON.stringify(data))!.state.elapsedMs).toBe(0);
+  });
+
+  it('should migrate a version 6 save as a regular game', () => {
+    const data = valid();
+    delete data.state.daily;
+    data.version = 6;
+
+    expect(parseSave(JSON.stringify(data))!.state.daily).toBeNull();
+  });
+
+  it('should reject a malformed daily date', () => {
+    const data = valid();
+    data.state.daily = 'today';
+    expect(parseSave(JSON.stringify(data))).toBeNull();
+  });
+
+  it('should migrate a version 1 save without a move log', () => {
+    const data = valid();
+    delete data.state.moves;
+    delete data.state.fromSharedLink;
+    delete data.state.hintsUsed;
+    delete data.state.autoPlayed;
+    data.version = 1;
+
+    const loaded = parseSave(JSON.stringify(data));
+
+    expect(loaded).not.toBeNull();
+    expect(loaded!.state.moves).toBeNull();
+    expect(loaded!.state.fromSharedLink).toBe(false);
+    expect(loaded!.state.hintsUsed).toBe(0);
+    expect(loaded!.state.autoPlayed).toBe(false);
+  });
+});
+
+describe('loadGame', () => {
+  it('should return null when nothing is saved', () => {
+    expect(loadGame(memoryStorage())).toBeNull();
+  });
+
+  it('should discard a corrupt save', () => {
+    const storage = memoryStorage({ [SAVE_KEY]: '{"version":1,"params":' });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadGame(storage)).toBeNull();
+    expect(storage.data.has(SAVE_KEY)).toBe(false);
+
+    warn.mockRestore();
+  });
+
+  it('should discard a save with a board or prime beyond the settings', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    for (const params of [{ ...PARAMS, n: 3000 }, { ...PARAMS, n: 5, width: 5, height: 3000 }, { ...PARAMS, p: 300000000 }]) {
+      const data = JSON.parse(serializeGame(PARAMS, createInitialState(PARAMS, 9)));
+      const storage = memoryStorage({ [SAVE_KEY]: JSON.stringify({ ...data, params }) });
+
+      expect(loadGame(storage)).toBeNull();
+      expect(storage.data.has(SAVE_KEY)).toBe(false);
+    }
+
+    warn.mockRestore();
+  });
+
+  it('should tolerate unavailable storage', () => {
+    expect(loadGame(null)).toBeNull();
+    expect(() => saveGame(PARAMS, createInitialState(PARAMS, 1), null)).not.toThrow();
+  });
+
+  it('should ignore storage errors when saving', () => {
+    const storage = memoryStorage();
+    storage.setItem = () => { throw new Error('QuotaExceededError'); };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() => saveGame(PARAMS, createInitialState(PARAMS, 1), storage)).not.toThrow();
+
+    warn.mockRestore();
+  });
+});
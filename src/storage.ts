@@ -0,0 +1,359 @@
+/**
+ * Save Game Persistence
+ *
+ * The in-progress game and its parameters are stored in localStorage after
+ * every committed move. Saves carry a schema version; older versions are
+ * migrated step by step, and anything unreadable is discarded so a corrupt
+ * save can never prevent the game from starting.
+ */
+
+import type { GameState, GameParams, Tile, RecordedMove, Position } from './types';
+import { isGameOver, MAX_PREVIEW, MAX_RECORDED_MOVES } from './gameEngine';
+import { isScoringPresetId } from './scoring';
+import { readMode } from './gameModes';
+import { isDailyKey } from './daily';
+import { countOpenCells, getBoardShape, isOpenCell, withBoardShape, MIN_BOARD_SIZE, MAX_BOARD_SIZE } from './boardShape';
+import { isAdjacencyId, isDirection } from './adjacency';
+import { isSpawnPresetId } from './spawnDistribution';
+import { isTileKind } from './specialTiles';
+import { isMergeRuleId } from './mergeRules';
+import { MAX_PRIME } from './gameLogic';
+
+export const SAVE_KEY = 'prime-factorization-game:save';
+export const SAVE_VERSION = 7;
+
+export interface SavedGame {
+  params: GameParams;
+  state: GameState;
+}
+
+// Minimal storage interface so tests can pass an in-memory implementation
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+type RawSave = { version: number } & Record<string, unknown>;
+
+// MIGRATIONS[v] upgrades a save from version v to version v + 1
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // v2 added the move log; earlier moves are unknown, so the game cannot be replayed
+  1: save => ({
+    ...save,
+    version: 2,
+    state: isRecord(save.state) ? { ...save.state, moves: null } : save.state,
+  }),
+  // v3 added shared board links; older games always started from a seed
+  2: save => ({
+    ...save,
+    version: 3,
+    state: isRecord(save.state) ? { ...save.state, fromSharedLink: false } : save.state,
+  }),
+  // v4 added hints
+  3: save => ({
+    ...save,
+    version: 4,
+    state: isRecord(save.state) ? { ...save.state, hintsUsed: 0 } : save.state,
+  }),
+  // v5 added the AI player
+  4: save => ({
+    ...save,
+    version: 5,
+    state: isRecord(save.state) ? { ...save.state, autoPlayed: false } : save.state,
+  }),
+  // v6 added game modes; earlier games were endless and never ran the clock
+  5: save => ({
+    ...save,
+    version: 6,
+    state: isRecord(save.state) ? { ...save.state, elapsedMs: 0 } : save.state,
+  }),
+  // v7 added the daily challenge
+  6: save => ({
+    ...save,
+    version: 7,
+    state: isRecord(save.state) ? { ...save.state, daily: null } : save.state,
+  }),
+};
+
+export function getDefaultStorage(): KeyValueStorage | null {
+  try {
+    return window.localStorage;
+  } catch {
+    // Storage can be unavailable (e.g. disabled cookies or private mode)
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return isNonNegativeInteger(value) && value >= min && value <= max;
+}
+
+// A side the settings offer; a larger board from a link or save could hang the game
+function isBoardSize(value: unknown): value is number {
+  return isIntegerInRange(value, MIN_BOARD_SIZE, MAX_BOARD_SIZE);
+}
+
+// Read a list of distinct cells given as { row, col }
+export function readCells(value: unknown): Position[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const cells: Position[] = [];
+  const seen = new Set<string>();
+  for (const item of value) {
+    if (!isRecord(item)) return null;
+    const { row, col } = item;
+    if (!isNonNegativeInteger(row) || !isNonNegativeInteger(col)) return null;
+
+    const key = `${row},${col}`;
+    if (seen.has(key)) return null;
+    seen.add(key);
+
+    cells.push({ row, col });
+  }
+  return cells;
+}
+
+export function readParams(value: unknown): GameParams | null {
+  if (!isRecord(value)) return null;
+  const { n, m, k, p, undoLimit, hintLimit, scoring, width, height, adjacency, spawn, preview, holdInterval, specials, mergeRule } = value;
+  const mode = value.mode === undefined ? undefined : readMode(value.mode);
+  const blocked = value.blocked === undefined ? [] : readCells(value.blocked);
+
+  if (!isBoardSize(n)) return null;
+  if (!isNonNegativeInteger(m)) return null;
+  if (!isNonNegativeInteger(k) || k < 1) return null;
+  // Sieving primes far beyond MAX_PRIME could hang the game too
+  if (!isIntegerInRange(p, 2, MAX_PRIME)) return null;
+  if (undoLimit !== undefined && !isNonNegativeInteger(undoLimit)) return null;
+  if (hintLimit !== undefined && !isNonNegativeInteger(hintLimit)) return null;
+  if (scoring !== undefined && !isScoringPresetId(scoring)) return null;
+  if (mode === null) return null;
+  if (adjacency !== undefined && !isAdjacencyId(adjacency)) return null;
+  if (spawn !== undefined && !isSpawnPresetId(spawn)) return null;
+  if (preview !== undefined && (!isNonNegativeInteger(preview) || preview < 1 || preview > MAX_PREVIEW)) return null;
+  // The hold slot swaps the next queued value, so it needs the preview queue
+  if (holdInterval !== undefined && (!isNonNegativeInteger(holdInterval) || holdInterval < 1 || preview === undefined)) return null;
+  if (specials !== undefined && specials !== true) return null;
+  if (mergeRule !== undefined && !isMergeRuleId(mergeRule)) return null;
+  if (width !== undefined && !isBoardSize(width)) return null;
+  if (height !== undefined && !isBoardSize(height)) return null;
+  if (blocked === null) return null;
+
+  const shape = { width: width ?? n, height: height ?? n, blocked };
+  if (blocked.some(cell => cell.row >= shape.height || cell.col >= shape.width)) return null;
+  if (countOpenCells(shape) === 0) return null;
+
+  return withBoardShape({
+    n, m, k, p,
+    ...(undoLimit !== undefined && { undoLimit }),
+    ...(hintLimit !== undefined && { hintLimit }),
+    ...(scoring !== undefined && { scoring }),
+    ...(mode !== undefined && { mode }),
+    ...(adjacency !== undefined && { adjacency }),
+    ...(spawn !== undefined && { spawn }),
+    ...(preview !== undefined && { preview }),
+    ...(holdInterval !== undefined && { holdInterval }),
+    ...(specials !== undefined && { specials }),
+    ...(mergeRule !== undefined && { mergeRule }),
+  }, shape.width, shape.height, blocked);
+}
+
+export function readTiles(value: unknown, params: GameParams): Tile[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const shape = getBoardShape(params);
+  const tiles: Tile[] = [];
+  const occupied = new Set<string>();
+
+  for (const item of value) {
+    if (!isRecord(item)) return null;
+    const { id, value: tileValue, row, col, kind } = item;
+
+    if (!isNonNegativeInteger(id)) return null;
+    if (!isNonNegativeInteger(tileValue) || tileValue < 1) return null;
+    if (!isNonNegativeInteger(row) || !isNonNegativeInteger(col)) return null;
+    if (!isOpenCell(shape, row, col)) return null;
+    if (kind !== undefined && !isTileKind(kind)) return null;
+
+    const key = `${row},${col}`;
+    if (occupied.has(key)) return null;
+    occupied.add(key);
+
+    tiles.push({ id, value: tileValue, row, col, ...(kind !== undefined && { kind }) });
+  }
+
+  return tiles;
+}
+
+// A list of exactly length tile values
+function isValueList(value: unknown, length: number): value is number[] {
+  return Array.isArray(value) && value.length === length && value.every(v => isNonNegativeInteger(v) && v >= 1);
+}
+
+function isRecordedMove(value: unknown): value is RecordedMove {
+  if (!Array.isArray(value)) return false;
+  if (value.length === 1) return value[0] === 'spawn' || value[0] === 'hold' || isDirection(value[0]);
+  return value.length === 2 && isDirection(value[0]) && isNonNegativeInteger(value[1]);
+}
+
+export function readMoves(value: unknown): RecordedMove[] | null {
+  if (!Array.isArray(value) || value.length > MAX_RECORDED_MOVES || !value.every(isRecordedMove)) return null;
+  return value.map(move => [...move] as RecordedMove);
+}
+
+function readState(value: unknown, params: GameParams): GameState | null {
+  if (!isRecord(value)) return null;
+
+  const tiles = readTiles(value.tiles, params);
+  if (tiles === null) return null;
+
+  const { score, moveCount, nextTileId, seed, rngState, maxChain, undosUsed, hintsUsed, elapsedMs } = value;
+  if (!isNonNegativeInteger(score)) return null;
+  if (!isNonNegativeInteger(moveCount)) return null;
+  if (!isNonNegativeInteger(nextTileId)) return null;
+  if (!isNonNegativeInteger(seed) || !isNonNegativeInteger(rngState)) return null;
+  if (!isNonNegativeInteger(maxChain) || !isNonNegativeInteger(undosUsed)) return null;
+  if (!isNonNegativeInteger(hintsUsed) || !isNonNegativeInteger(elapsedMs)) return null;
+
+  // New tiles must never reuse an ID that is already on the board
+  if (tiles.some(t => t.id >= nextTileId)) return null;
+
+  // A log saved before it had a length limit is dropped, keeping the game but not its replay
+  const complete = value.moves !== null && !(Array.isArray(value.moves) && value.moves.length > MAX_RECORDED_MOVES);
+  const moves = complete ? readMoves(value.moves) : null;
+  if (complete && moves === null) return null;
+  if (typeof value.fromSharedLink !== 'boolean' || typeof value.autoPlayed !== 'boolean') return null;
+  if (value.recorded !== undefined && value.recorded !== true) return null;
+  if (value.daily !== null && !isDailyKey(value.daily)) return null;
+
+  // The preview queue is as long as the params say; the hold slot only exists with a hold interval
+  const { upcoming, held, holdMove } = value;
+  if (params.preview === undefined && upcoming !== undefined) return null;
+  if (params.preview !== undefined && !isValueList(upcoming, params.preview)) return null;
+  if (held !== undefined && (params.holdInterval === undefined || !isNonNegativeInteger(held) || held < 1)) return null;
+  if (holdMove !== undefined && (params.holdInterval === undefined || !isNonNegativeInteger(holdMove) || holdMove > moveCount)) return null;
+
+  const state: GameState = {
+    tiles,
+    score,
+    moveCount,
+    nextTileId,
+    seed,
+    rngState,
+    maxChain,
+    undosUsed,
+    hintsUsed,
+    moves,
+    fromSharedLink: value.fromSharedLink,
+    autoPlayed: value.autoPlayed,
+    elapsedMs,
+    daily: value.daily,
+    isGameOver: false,
+    ...(isValueList(upcoming, params.preview ?? 0) && { upcoming: [...upcoming] }),
+    ...(held !== undefined && { held }),
+    ...(holdMove !== undefined && { holdMove }),
+    ...(value.recorded === true && { recorded: true }),
+  };
+
+  // Recompute rather than trust the stored flag
+  return { ...state, isGameOver: isGameOver(state, params) };
+}
+
+/**
+ * Validate and migrate raw save data
+ * Returns null for corrupt saves and saves from a newer, unknown version
+ */
+export function parseSave(raw: string | null): SavedGame | null {
+  if (raw === null) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (!isRecord(data) || !isNonNegativeInteger(data.version)) return null;
+
+  let save = data as RawSave;
+  while (save.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version];
+    if (!migrate) return null;
+    save = migrate(save);
+  }
+  if (save.version !== SAVE_VERSION) return null;
+
+  const params = readParams(save.params);
+  if (params === null) return null;
+
+  const state = readState(save.state, params);
+  if (state === null) return null;
+
+  return { params, state };
+}
+
+export function serializeGame(params: GameParams, state: GameState): string {
+  return JSON.stringify({
+    version: SAVE_VERSION,
+    params,
+    state: {
+      // Only plain tile data is saved, never animation flags
+      tiles: state.tiles.map(t => ({ id: t.id, value: t.value, row: t.row, col: t.col, kind: t.kind })),
+      score: state.score,
+      moveCount: state.moveCount,
+      nextTileId: state.nextTileId,
+      seed: state.seed,
+      rngState: state.rngState,
+      maxChain: state.maxChain,
+      undosUsed: state.undosUsed,
+      hintsUsed: state.hintsUsed,
+      moves: state.moves,
+      fromSharedLink: state.fromSharedLink,
+      autoPlayed: state.autoPlayed,
+      recorded: state.recorded,
+      elapsedMs: state.elapsedMs,
+      daily: state.daily,
+      upcoming: state.upcoming,
+      held: state.held,
+      holdMove: state.holdMove,
+    },
+  });
+}
+
+/**
+ * Save the game; failures (quota, disabled storage) are ignored
+ */
+export function saveGame(
+  params: GameParams,
+  state: GameState,
+  storage: KeyValueStorage | null = getDefaultStorage()
+): void {
+  try {
+    storage?.setItem(SAVE_KEY, serializeGame(params, state));
+  } catch (error) {
+    console.warn('Failed to save game:', error);
+  }
+}
+
+/**
+ * Load the saved game, discarding it if it cannot be read
+ */
+export function loadGame(storage: KeyValueStorage | null = getDefaultStorage()): SavedGame | null {
+  try {
+    const raw = storage?.getItem(SAVE_KEY) ?? null;
+    const saved = parseSave(raw);
+    if (raw !== null && saved === null) {
+      console.warn('Discarding unreadable saved game');
+      storage?.removeItem(SAVE_KEY);
+    }
+    return saved;
+  } catch (error) {
+    console.warn('Failed to load game:', error);
+    return null;
+  }
+}
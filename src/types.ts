@@ -1,31 +1,99 @@
+import type { ScoringPresetId } from './scoring';
+import type { GameMode } from './gameModes';
+import type { AdjacencyId } from './adjacency';
+import type { SpawnPresetId } from './spawnDistribution';
+import type { TileKind } from './specialTiles';
+import type { MergeRuleId } from './mergeRules';
+import type { PowerType } from './gameLogic';
+
 export interface Tile {
   id: number;
   value: number;
   row: number;
   col: number;
+  kind?: TileKind; // Special tile (see specialTiles.ts); a normal tile when undefined
   scoreValue?: number; // Track original product for scoring when tile becomes 1
   isMoving?: boolean; // Track if tile is currently moving
   isDividing?: boolean; // Track if tile just divided
   isChaining?: boolean; // Track if tile is part of a chain reaction
   isNew?: boolean; // Track if tile is newly spawned (for appear animation)
   isDisappearing?: boolean; // Track if tile is disappearing (value became 0)
-  isPowerEliminating?: boolean; // Track if tile is disappearing due to perfect power (square/cube)
-  powerType?: 'square' | 'cube'; // Type of perfect power elimination
+  isPowerEliminating?: boolean; // Track if tile is disappearing due to perfect power
+  powerType?: PowerType; // Exponent of the perfect power elimination (2 square, 3 cube, ...)
   mergeHighlight?: boolean; // Track if tile is involved in a merge operation (Issue #22)
   isHighlighting?: boolean; // Track if tile is highlighting before interaction (Issue #35)
 }
 
+// Diagonal directions are only slid on the hex grid (see adjacency.ts)
+export type Direction = 'up' | 'down' | 'left' | 'right' | 'upLeft' | 'upRight' | 'downLeft' | 'downRight';
+
+// One entry of a game's move log: a slide (optionally of a single tile), a
+// manually generated tile, or a use of the hold slot
+export type RecordedMove = [Direction] | [Direction, number] | ['spawn'] | ['hold'];
+
+export interface Position {
+  row: number;
+  col: number;
+}
+
 export interface GameState {
   tiles: Tile[];
   score: number;
   moveCount: number;
+  nextTileId: number; // ID to assign to the next created tile
+  seed: number; // Seed the game was started with
+  rngState: number; // Current state of the seeded random generator
+  maxChain: number; // Longest chain reaction reached in this game
+  isGameOver: boolean; // Board is full and no slide can move or merge any tile
+  undosUsed: number; // Undos taken in this game; a score with undos is assisted
+  hintsUsed: number; // Hints shown in this game; a score with hints is assisted
+  moves: RecordedMove[] | null; // Move log for replays; null when the log is incomplete
+  fromSharedLink: boolean; // Started from a shared board link rather than a seed; not eligible for high scores
+  autoPlayed: boolean; // Some moves were chosen by the AI player; not eligible for high scores
+  recorded?: boolean; // The game's result is already in the high scores; finishing it again after an undo adds nothing
+  elapsedMs: number; // Time-attack clock; stays 0 in other modes
+  daily: string | null; // Date (YYYY-MM-DD) of the daily challenge this game is; null for other games
+  spawnQueue?: ScriptedSpawn[]; // Puzzle spawns still to come, placed instead of random tiles (none once empty)
+  upcoming?: number[]; // Values of the next random spawns, generated ahead when params.preview is set
+  held?: number; // Value put aside in the hold slot (empty when undefined)
+  holdMove?: number; // moveCount when the hold slot was last used (never when undefined)
   chainCount?: number; // Display chain count during combo
   chainPosition?: { row: number; col: number }; // Position to show chain counter
+  scorePopups?: ScorePopup[]; // Display points floating over the reactions being shown
+}
+
+// A tile a puzzle places at a fixed cell; it goes to the first empty cell
+// (row by row) if that cell is taken
+export interface ScriptedSpawn {
+  row: number;
+  col: number;
+  value: number;
+}
+
+export interface ScorePopup {
+  id: string; // Unique within the move, so each popup restarts its animation
+  row: number;
+  col: number;
+  points: number;
+  multiplier: number;
 }
 
 export interface GameParams {
-  n: number; // board size (n x n)
+  n: number; // board size (n x n), or columns when width is set
   m: number; // initial number of tiles
   k: number; // moves before new tile appears
   p: number; // max prime for tile generation
+  undoLimit?: number; // max undos per game (unlimited when undefined)
+  hintLimit?: number; // max hints per game (unlimited when undefined)
+  scoring?: ScoringPresetId; // scoring preset (classic when undefined)
+  mode?: GameMode; // end condition and ranking (endless when undefined)
+  width?: number; // board columns (n when undefined)
+  height?: number; // board rows (n when undefined)
+  blocked?: Position[]; // wall cells no tile can enter or pass (none when undefined)
+  adjacency?: AdjacencyId; // which cells neighbour each other (orthogonal when undefined)
+  spawn?: SpawnPresetId; // spawn distribution preset (uniform when undefined)
+  preview?: number; // upcoming tile values shown, 1-3 (no preview when undefined)
+  holdInterval?: number; // moves between uses of the hold slot (no hold slot when undefined); needs preview
+  specials?: boolean; // random spawns can be special tiles (never when undefined)
+  mergeRule?: MergeRuleId; // which adjacent tiles react (divisor when undefined)
 }
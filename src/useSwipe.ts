@@ -0,0 +1,109 @@
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import type { Tile, Direction } from './types';
+import { getSwipeDirection } from './adjacency';
+import type { Adjacency } from './adjacency';
+
+/**
+ * Swipe gestures on the board
+ * A swipe that starts on a tile moves only that tile; any other swipe moves the whole board.
+ * A swipe goes the slide direction of the adjacency closest to its angle.
+ */
+export function useSwipe(
+  boardRef: RefObject<HTMLDivElement | null>,
+  width: number, // Columns
+  height: number, // Rows
+  adjacency: Adjacency,
+  tilesRef: RefObject<Tile[]>,
+  onSwipe: (direction: Direction, tileId?: number) => void
+) {
+  useEffect(() => {
+    let touchStartX = 0;
+    let touchStartY = 0;
+    let touchEndX = 0;
+    let touchEndY = 0;
+    let touchedTileId: number | undefined = undefined;
+    
+    const minSwipeDistance = 50; // Minimum distance for a swipe to be detected
+    
+    const getTileAtPosition = (x: number, y: number): Tile | undefined => {
+      const board = boardRef.current;
+      if (!board) return undefined;
+      
+      const rect = board.getBoundingClientRect();
+      const relX = x - rect.left;
+      const relY = y - rect.top;
+      
+      // Calculate which grid cell was touched (odd rows of the hex grid start half a cell later)
+      const hex = adjacency.id === 'hex';
+      const cellWidth = rect.width / (hex ? width + 0.5 : width);
+      const cellHeight = rect.height / height;
+      const row = Math.floor(relY / cellHeight);
+      const col = Math.floor(relX / cellWidth - (hex && row % 2 === 1 ? 0.5 : 0));
+      
+      // Find tile at this position using the ref to avoid dependency
+      return tilesRef.current.find(t => t.row === row && t.col === col);
+    };
+    
+    const handleTouchStart = (e: Event) => {
+      const touchEvent = e as TouchEvent;
+      const touch = touchEvent.touches[0];
+      touchStartX = touch.clientX;
+      touchStartY = touch.clientY;
+      
+      // Check if touch started within board bounds (Issue #17)
+      const board = boardRef.current;
+      if (board) {
+        const rect = board.getBoundingClientRect();
+        const relX = touch.clientX - rect.left;
+        const relY = touch.clientY - rect.top;
+        
+        // Only process if touch starts within board
+        if (relX >= 0 && relX <= rect.width && relY >= 0 && relY <= rect.height) {
+          // Determine which tile was touched
+          const touchedTile = getTileAtPosition(touchStartX, touchStartY);
+          touchedTileId = touchedTile?.id;
+        } else {
+          // Touch started outside board, ignore
+          touchedTileId = undefined;
+        }
+      }
+    };
+    
+    const handleTouchMove = (e: Event) => {
+      // Prevent default behavior to avoid page scrolling/refreshing
+      e.preventDefault();
+    };
+    
+    const handleTouchEnd = (e: Event) => {
+      const touchEvent = e as TouchEvent;
+      touchEndX = touchEvent.changedTouches[0].clientX;
+      touchEndY = touchEvent.changedTouches[0].clientY;
+      
+      const deltaX = touchEndX - touchStartX;
+      const deltaY = touchEndY - touchStartY;
+      
+      // Check if the swipe distance is sufficient
+      if (Math.max(Math.abs(deltaX), Math.abs(deltaY)) < minSwipeDistance) {
+        return;
+      }
+      
+      onSwipe(getSwipeDirection(adjacency, deltaX, deltaY), touchedTileId);
+    };
+    
+    const board = boardRef.current;
+    if (board) {
+      // Use passive: false for touchstart and touchmove to allow preventDefault()
+      // This is necessary to prevent page scrolling/refreshing during swipe gestures
+      board.addEventListener('touchstart', handleTouchStart, { passive: false });
+      board.addEventListener('touchmove', handleTouchMove, { passive: false });
+      board.addEventListener('touchend', handleTouchEnd, { passive: true });
+      
+      return () => {
+        board.removeEventListener('touchstart', handleTouchStart);
+        board.removeEventListener('touchmove', handleTouchMove);
+        board.removeEventListener('touchend', handleTouchEnd);
+      };
+    }
+  }, [boardRef, width, height, adjacency, tilesRef, onSwipe]);
+}
@@ -10,6 +10,8 @@ import type { Tile } from '../types';
 /**
  * Helper function to create a clean tile with only essential properties
  * This prevents hidden state from persisting across moves and chain reactions
+ * A special tile keeps its kind while it only moves; a new value (a merge)
+ * makes it a normal tile unless the overrides give a kind
  * 
  * @param source - The source tile to copy essential properties from
  * @param overrides - Properties to override or add to the new tile
@@ -21,6 +23,9 @@ export function createCleanTile(source: Tile, overrides: Partial<Tile>): Tile {
     value: overrides.value ?? source.value,
     row: overrides.row ?? source.row,
     col: overrides.col ?? source.col,
+    ...(overrides.kind !== undefined
+      ? { kind: overrides.kind }
+      : overrides.value === undefined && source.kind !== undefined && { kind: source.kind }),
     // Only include optional properties if explicitly provided in overrides
     ...(overrides.scoreValue !== undefined && { scoreValue: overrides.scoreValue }),
     ...(overrides.isMoving && { isMoving: overrides.isMoving }),
@@ -21,3 +21,15 @@ test('game board is rendered', async ({ page }) => {
   const root = page.locator('#root');
   await expect(root).not.toBeEmpty();
 });
+
+test('board link opens the shared position', async ({ page }) => {
+  await page.goto('/#v=1&n=4&m=2&k=3&p=7&score=30&seed=42&tiles=0-0-105.0-1-15.1-1-7');
+
+  const tiles = page.locator('.board .tile');
+  await expect(tiles).toHaveCount(3);
+  await expect(tiles).toHaveText(['105', '15', '7']);
+  await expect(page.locator('.score')).toHaveText('Score: 30');
+
+  // The link is removed so that reloading continues the game
+  await expect(page).not.toHaveURL(/#/);
+});